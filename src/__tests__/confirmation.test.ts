@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { ConfirmationTokenManager, hashConfirmationParams } from "../services/confirmation.js";
+
+const manager = new ConfirmationTokenManager({ secretKey: "test-confirmation-secret-with-enough-length" });
+
+describe("Confirmation Tokens", () => {
+  describe("hashConfirmationParams", () => {
+    it("should not depend on key order", () => {
+      expect(hashConfirmationParams({ id: 1, rows: [{ a: 1, b: 2 }] })).toBe(hashConfirmationParams({ rows: [{ b: 2, a: 1 }], id: 1 }));
+    });
+
+    it("should ignore the confirmation token, dry_run and undefined values", () => {
+      expect(hashConfirmationParams({ id: 1, confirmation_token: "x", dry_run: true, note: undefined })).toBe(hashConfirmationParams({ id: 1 }));
+    });
+
+    it("should change when a value changes", () => {
+      expect(hashConfirmationParams({ id: 1 })).not.toBe(hashConfirmationParams({ id: 2 }));
+      expect(hashConfirmationParams({ ids: [1, 2] })).not.toBe(hashConfirmationParams({ ids: [2, 1] }));
+    });
+  });
+
+  describe("ConfirmationTokenManager", () => {
+    it("should confirm the call it was issued for", async () => {
+      const { confirmation_token, expires_at } = await manager.issue("delete_contact", "user-1", { id: "abc" });
+      expect(new Date(expires_at).getTime()).toBeGreaterThan(Date.now());
+      await expect(manager.verify(confirmation_token, "delete_contact", "user-1", { id: "abc", confirmation_token })).resolves.toBeNull();
+    });
+
+    it("should reject a different record, tool or user", async () => {
+      const { confirmation_token } = await manager.issue("delete_contact", "user-1", { id: "abc" });
+      await expect(manager.verify(confirmation_token, "delete_contact", "user-1", { id: "other" })).resolves.toContain("parameters differ");
+      await expect(manager.verify(confirmation_token, "delete_deal", "user-1", { id: "abc" })).resolves.toContain("issued for delete_contact");
+      await expect(manager.verify(confirmation_token, "delete_contact", "user-2", { id: "abc" })).resolves.toContain("Invalid");
+    });
+
+    it("should reject tokens signed with another secret", async () => {
+      const other = new ConfirmationTokenManager({ secretKey: "another-secret-with-enough-length-too" });
+      const { confirmation_token } = await other.issue("delete_task", "user-1", { id: 1 });
+      await expect(manager.verify(confirmation_token, "delete_task", "user-1", { id: 1 })).resolves.toContain("Invalid");
+    });
+
+    it("should reject expired tokens", async () => {
+      const shortLived = new ConfirmationTokenManager({ secretKey: "test-confirmation-secret-with-enough-length", expiresIn: -10 });
+      const { confirmation_token } = await shortLived.issue("delete_task", "user-1", { id: 1 });
+      await expect(manager.verify(confirmation_token, "delete_task", "user-1", { id: 1 })).resolves.toContain("expired");
+    });
+  });
+});
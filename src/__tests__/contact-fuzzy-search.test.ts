@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFuzzyContactSearchQuery,
+  fuzzyNameTokens,
+  phoneMatchKey,
+  MAX_FUZZY_TOKENS,
+} from "../services/contact-fuzzy-search.js";
+
+describe("Contact Fuzzy Search", () => {
+  describe("fuzzyNameTokens", () => {
+    it("should split the query into words", () => {
+      expect(fuzzyNameTokens("  Jon   Smyth ")).toEqual(["Jon", "Smyth"]);
+    });
+
+    it("should leave out words without letters", () => {
+      expect(fuzzyNameTokens("Jon +1 555-0104")).toEqual(["Jon"]);
+      expect(fuzzyNameTokens("+33 6 12 34 56 78")).toEqual([]);
+    });
+
+    it("should compare at most MAX_FUZZY_TOKENS words", () => {
+      expect(fuzzyNameTokens("a b c d e f")).toHaveLength(MAX_FUZZY_TOKENS);
+    });
+  });
+
+  describe("phoneMatchKey", () => {
+    it("should give international and national forms of a number the same key", () => {
+      expect(phoneMatchKey("+33 6 12 34 56 78")).toBe("612345678");
+      expect(phoneMatchKey("06.12.34.56.78")).toBe("612345678");
+    });
+
+    it("should ignore formatting", () => {
+      expect(phoneMatchKey("+1 (555) 010-4477")).toBe(phoneMatchKey("5550104477"));
+    });
+
+    it("should keep short numbers whole", () => {
+      expect(phoneMatchKey("01-04-77")).toBe("010477");
+    });
+
+    it("should return null when there are too few digits", () => {
+      expect(phoneMatchKey("Jon Smyth")).toBeNull();
+      expect(phoneMatchKey("Room 12345")).toBeNull();
+    });
+  });
+
+  describe("buildFuzzyContactSearchQuery", () => {
+    it("should pass the query, its name tokens and its phone key", () => {
+      const { sql, params } = buildFuzzyContactSearchQuery({ query: "Jon Smyth", limit: 10, min_score: 0.3 });
+      expect(params).toEqual(["Jon Smyth", ["Jon", "Smyth"], null, 0.3, 10]);
+      expect(sql).toContain("WHERE total.score >= $4");
+      expect(sql).toContain("LIMIT $5");
+    });
+
+    it("should match phone numbers on their last digits", () => {
+      const { sql, params } = buildFuzzyContactSearchQuery({ query: "+33 6 12 34 56 78", limit: 10, min_score: 0.3 });
+      expect(params[2]).toBe("612345678");
+      expect(sql).toContain("right(regexp_replace(phone->>'number', '\\D', '', 'g'), 9) = $3");
+    });
+
+    it("should number the optional filters after the search parameters", () => {
+      const { sql, params } = buildFuzzyContactSearchQuery({
+        query: "Jon",
+        limit: 5,
+        min_score: 0.5,
+        status: "hot",
+        company_id: 12,
+      });
+      expect(sql).toContain("AND c.status = $4");
+      expect(sql).toContain("AND c.company_id = $5");
+      expect(sql).toContain("WHERE total.score >= $6");
+      expect(sql).toContain("LIMIT $7");
+      expect(params).toEqual(["Jon", ["Jon"], null, "hot", 12, 0.5, 5]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { moveContactLinks, type MergeQueryClient } from "../services/contact-merge.js";
+
+/**
+ * Client recording each statement and answering with canned rows, matched on the statement's start
+ */
+function fakeClient(responses: [RegExp, any[]][]) {
+  const calls: { sql: string; params?: unknown[] }[] = [];
+  const client: MergeQueryClient = {
+    async query(sql, params) {
+      calls.push({ sql, params });
+      const rows = responses.find(([pattern]) => pattern.test(sql))?.[1] ?? [];
+      return { rows, rowCount: rows.length };
+    },
+  };
+  return { client, calls };
+}
+
+const SURVIVOR = "00000000-0000-0000-0000-000000000001";
+const DUPLICATES = ["00000000-0000-0000-0000-000000000002", "00000000-0000-0000-0000-000000000003"];
+
+describe("Contact Merge", () => {
+  describe("moveContactLinks", () => {
+    it("should move deal_contacts links to the survivor after removing colliding ones", async () => {
+      const { client, calls } = fakeClient([
+        [/^UPDATE contactNotes/, [{ id: 1 }, { id: 2 }]],
+        [/^UPDATE tasks/, [{ id: 7 }]],
+        [/^DELETE FROM deal_contacts/, [{ deal_id: 10 }]],
+        [/^UPDATE deal_contacts/, [{ deal_id: 11 }, { deal_id: 12 }]],
+        [/^UPDATE deals/, [{ id: 11 }]],
+      ]);
+
+      const moved = await moveContactLinks(client, SURVIVOR, DUPLICATES);
+
+      expect(moved).toEqual({
+        notes: 2,
+        tasks: 1,
+        deals: [11],
+        deal_contacts: { moved: [11, 12], removed: [10] },
+      });
+
+      const removeIndex = calls.findIndex((call) => call.sql.startsWith("DELETE FROM deal_contacts"));
+      const moveIndex = calls.findIndex((call) => call.sql.startsWith("UPDATE deal_contacts SET contact_id = $1"));
+      expect(removeIndex).toBeGreaterThanOrEqual(0);
+      expect(moveIndex).toBeGreaterThan(removeIndex);
+      expect(calls[moveIndex].params).toEqual([SURVIVOR, DUPLICATES]);
+    });
+
+    it("should only remove duplicate links already held by the survivor or an earlier duplicate", async () => {
+      const { client, calls } = fakeClient([]);
+
+      await moveContactLinks(client, SURVIVOR, DUPLICATES);
+
+      const remove = calls.find((call) => call.sql.startsWith("DELETE FROM deal_contacts"))!;
+      expect(remove.sql).toContain("dc.contact_id = ANY($2::uuid[])");
+      expect(remove.sql).toContain("other.contact_id = $1");
+      expect(remove.sql).toContain("other.contact_id < dc.contact_id");
+      expect(remove.params).toEqual([SURVIVOR, DUPLICATES]);
+    });
+
+    it("should keep the order of deals.contact_ids, so the primary contact stays first", async () => {
+      const { client, calls } = fakeClient([]);
+
+      await moveContactLinks(client, SURVIVOR, DUPLICATES);
+
+      const update = calls.find((call) => call.sql.startsWith("UPDATE deals"))!;
+      // DISTINCT would sort the ids; each id must keep the position where it first appears
+      expect(update.sql).not.toContain("DISTINCT");
+      expect(update.sql).toContain("unnest(contact_ids) WITH ORDINALITY AS t(cid, ord)");
+      expect(update.sql).toContain("min(ord) AS first_ord");
+      expect(update.sql).toContain("array_agg(id ORDER BY first_ord)");
+      expect(update.params).toEqual([SURVIVOR, DUPLICATES]);
+    });
+
+    it("should report nothing moved when the duplicates have no links", async () => {
+      const { client } = fakeClient([]);
+
+      expect(await moveContactLinks(client, SURVIVOR, DUPLICATES)).toEqual({
+        notes: 0,
+        tasks: 0,
+        deals: [],
+        deal_contacts: { moved: [], removed: [] },
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildCrmSearchQuery, mergeSearchResults, SEARCH_ENTITY_TYPES, type SearchRow } from "../services/crm-search.js";
+
+function row(entity_type: string, id: string, score: string | number, parent_id: string | null = null): SearchRow {
+  return { entity_type, id, title: `Title ${id}`, parent_id, score, snippet: `**match** ${id}` };
+}
+
+describe("CRM Search", () => {
+  describe("buildCrmSearchQuery", () => {
+    it("should search every entity type by default", () => {
+      const { sql, params } = buildCrmSearchQuery("acme renewal", undefined, 20);
+      expect(params).toEqual(["acme renewal", [...SEARCH_ENTITY_TYPES], 20]);
+      expect(sql).toContain("websearch_to_tsquery('english', $1)");
+      expect(sql).toContain("doc.entity_type = ANY($2)");
+      expect(sql).toContain("LIMIT $3");
+    });
+
+    it("should restrict the search to the given types", () => {
+      const { params } = buildCrmSearchQuery("renewal", ["deal", "deal_note"], 5);
+      expect(params[1]).toEqual(["deal", "deal_note"]);
+    });
+
+    it("should treat an empty type list as all types", () => {
+      expect(buildCrmSearchQuery("renewal", [], 5).params[1]).toEqual([...SEARCH_ENTITY_TYPES]);
+    });
+  });
+
+  describe("mergeSearchResults", () => {
+    it("should rank hits of all entity types together, best first", () => {
+      const results = mergeSearchResults([
+        row("contact", "1", "0.2"),
+        row("deal_note", "7", "0.61234567", "3"),
+        row("company", "4", 0.45),
+      ]);
+      expect(results.map((result) => [result.type, result.id, result.score])).toEqual([
+        ["deal_note", "7", 0.6123],
+        ["company", "4", 0.45],
+        ["contact", "1", 0.2],
+      ]);
+    });
+
+    it("should order equal scores by entity type, then id", () => {
+      const results = mergeSearchResults([
+        row("deal", "10", "0.5"),
+        row("contact", "12", "0.5"),
+        row("deal", "9", "0.5"),
+        row("contact_note", "2", "0.5", "12"),
+      ]);
+      expect(results.map((result) => `${result.type}:${result.id}`)).toEqual([
+        "contact:12",
+        "deal:9",
+        "deal:10",
+        "contact_note:2",
+      ]);
+    });
+
+    it("should point notes at their parent record", () => {
+      const [contactNote, dealNote] = mergeSearchResults([
+        row("contact_note", "5", "0.9", "12"),
+        row("deal_note", "6", "0.8", "3"),
+      ]);
+      expect(contactNote.parent).toEqual({ type: "contact", id: "12" });
+      expect(contactNote.uri).toBe("crm://contacts/12");
+      expect(dealNote.parent).toEqual({ type: "deal", id: "3" });
+      expect(dealNote.uri).toBe("crm://deals/3");
+    });
+
+    it("should point records at themselves", () => {
+      const results = mergeSearchResults([row("company", "4", "0.3"), row("deal", "8", "0.2"), row("contact", "1", "0.1")]);
+      expect(results.map((result) => result.uri)).toEqual(["crm://companies/4", "crm://deals/8", "crm://contacts/1"]);
+      expect(results.every((result) => result.parent === null)).toBe(true);
+    });
+
+    it("should have no uri for a note whose parent is gone", () => {
+      const [result] = mergeSearchResults([row("deal_note", "6", "0.8", null)]);
+      expect(result.uri).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, detectDelimiter, normalizeHeader, formatCsvValue, formatCsvRow } from "../services/csv.js";
+
+describe("CSV Parsing", () => {
+  describe("parseCsv", () => {
+    it("should split the header from data rows", () => {
+      const result = parseCsv("first_name,last_name\nAda,Lovelace\nAlan,Turing");
+      expect(result.headers).toEqual(["first_name", "last_name"]);
+      expect(result.rows).toEqual([
+        ["Ada", "Lovelace"],
+        ["Alan", "Turing"],
+      ]);
+    });
+
+    it("should handle quoted fields with delimiters, quotes and newlines", () => {
+      const result = parseCsv('name,notes\n"Acme, Inc.","Said ""hi""\nthen left"');
+      expect(result.rows).toEqual([["Acme, Inc.", 'Said "hi"\nthen left']]);
+    });
+
+    it("should handle CRLF line endings and a byte order mark", () => {
+      const result = parseCsv("\uFEFFname,city\r\nAcme,Paris\r\n");
+      expect(result.headers).toEqual(["name", "city"]);
+      expect(result.rows).toEqual([["Acme", "Paris"]]);
+    });
+
+    it("should drop blank lines", () => {
+      const result = parseCsv("name\n\nAcme\n\n");
+      expect(result.rows).toEqual([["Acme"]]);
+    });
+
+    it("should keep empty fields", () => {
+      const result = parseCsv("a,b,c\n1,,3");
+      expect(result.rows).toEqual([["1", "", "3"]]);
+    });
+
+    it("should use a semicolon delimiter when detected", () => {
+      const result = parseCsv("Nom;Société\nDupont;Acme, SA");
+      expect(result.delimiter).toBe(";");
+      expect(result.rows).toEqual([["Dupont", "Acme, SA"]]);
+    });
+
+    it("should throw on an unterminated quoted field", () => {
+      expect(() => parseCsv('name\n"Acme')).toThrow("Unterminated");
+    });
+  });
+
+  describe("detectDelimiter", () => {
+    it("should detect comma, semicolon and tab", () => {
+      expect(detectDelimiter("a,b,c\n1,2,3")).toBe(",");
+      expect(detectDelimiter("a;b;c\n1;2;3")).toBe(";");
+      expect(detectDelimiter("a\tb\tc")).toBe("\t");
+    });
+
+    it("should ignore delimiters inside quotes", () => {
+      expect(detectDelimiter('"a,b,c";d;e')).toBe(";");
+    });
+
+    it("should default to comma for a single column", () => {
+      expect(detectDelimiter("name\nAcme")).toBe(",");
+    });
+  });
+
+  describe("normalizeHeader", () => {
+    it("should lowercase and replace separators with underscores", () => {
+      expect(normalizeHeader("E-mail Address")).toBe("e_mail_address");
+      expect(normalizeHeader("  First Name ")).toBe("first_name");
+      expect(normalizeHeader("Zip/Postal Code")).toBe("zip_postal_code");
+    });
+  });
+
+  describe("formatCsvValue", () => {
+    it("should leave plain values unquoted", () => {
+      expect(formatCsvValue("Acme")).toBe("Acme");
+      expect(formatCsvValue(42)).toBe("42");
+      expect(formatCsvValue(true)).toBe("true");
+    });
+
+    it("should write null and undefined as empty fields", () => {
+      expect(formatCsvValue(null)).toBe("");
+      expect(formatCsvValue(undefined)).toBe("");
+    });
+
+    it("should quote fields with delimiters, quotes or newlines", () => {
+      expect(formatCsvValue("Acme, Inc.")).toBe('"Acme, Inc."');
+      expect(formatCsvValue('Said "hi"')).toBe('"Said ""hi"""');
+      expect(formatCsvValue("line 1\nline 2")).toBe('"line 1\nline 2"');
+    });
+
+    it("should join email and phone lists", () => {
+      expect(formatCsvValue([{ email: "a@x.com", type: "Work" }, { email: "b@x.com", type: "Home" }])).toBe("a@x.com; b@x.com");
+      expect(formatCsvValue([{ number: "+33 6 12", type: "Work" }])).toBe("+33 6 12");
+      expect(formatCsvValue([1, 2])).toBe("1; 2");
+    });
+
+    it("should format dates as ISO strings and objects as JSON", () => {
+      expect(formatCsvValue(new Date("2026-01-02T03:04:05Z"))).toBe("2026-01-02T03:04:05.000Z");
+      expect(formatCsvValue({ a: 1 })).toBe('"{""a"":1}"');
+    });
+  });
+
+  describe("formatCsvRow", () => {
+    it("should join fields and end with CRLF", () => {
+      expect(formatCsvRow(["id", "name"])).toBe("id,name\r\n");
+      expect(formatCsvRow([1, "Acme, Inc.", null])).toBe('1,"Acme, Inc.",\r\n');
+    });
+
+    it("should round-trip through parseCsv", () => {
+      const text = formatCsvRow(["name", "notes"]) + formatCsvRow(["Acme, Inc.", 'Said "hi"\nthen left']);
+      expect(parseCsv(text).rows).toEqual([["Acme, Inc.", 'Said "hi"\nthen left']]);
+    });
+  });
+});
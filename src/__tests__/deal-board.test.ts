@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { planDealMove, sortBoardColumn } from "../services/deal-board.js";
+
+describe("Deal Board Ordering", () => {
+  describe("sortBoardColumn", () => {
+    it("should order by index, then id, with missing indexes last", () => {
+      const column = [
+        { id: 4, index: null },
+        { id: 3, index: 1 },
+        { id: 2, index: 1 },
+        { id: 1, index: 0 },
+      ];
+      expect(sortBoardColumn(column).map((deal) => deal.id)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe("planDealMove", () => {
+    it("should move a deal down within its column", () => {
+      const column = [
+        { id: 1, index: 0 },
+        { id: 2, index: 1 },
+        { id: 3, index: 2 },
+      ];
+      const plan = planDealMove(1, column, column, 2);
+      expect(plan.index).toBe(2);
+      expect(plan.changes).toEqual([
+        { id: 2, from: 1, to: 0 },
+        { id: 3, from: 2, to: 1 },
+        { id: 1, from: 0, to: 2 },
+      ]);
+    });
+
+    it("should shift both columns when changing stage", () => {
+      const source = [
+        { id: 1, index: 0 },
+        { id: 2, index: 1 },
+        { id: 3, index: 2 },
+      ];
+      const target = [
+        { id: 10, index: 0 },
+        { id: 11, index: 1 },
+      ];
+      const plan = planDealMove(2, source, target, 1);
+      expect(plan.index).toBe(1);
+      expect(plan.changes).toEqual([
+        { id: 2, from: 1, to: 1 },
+        { id: 11, from: 1, to: 2 },
+        { id: 3, from: 2, to: 1 },
+      ]);
+    });
+
+    it("should default to the end and clamp positions past it", () => {
+      const source = [{ id: 1, index: 0 }];
+      const target = [
+        { id: 10, index: 0 },
+        { id: 11, index: 1 },
+      ];
+      expect(planDealMove(1, source, target).index).toBe(2);
+      expect(planDealMove(1, source, target, 99).index).toBe(2);
+    });
+
+    it("should repair duplicate and missing indexes", () => {
+      const column = [
+        { id: 1, index: 0 },
+        { id: 2, index: 0 },
+        { id: 3, index: null },
+        { id: 4, index: 7 },
+      ];
+      const plan = planDealMove(4, column, column, 0);
+      expect(plan.changes).toEqual([
+        { id: 4, from: 7, to: 0 },
+        { id: 1, from: 0, to: 1 },
+        { id: 2, from: 0, to: 2 },
+        { id: 3, from: null, to: 3 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  addDays,
+  buildDispatchSchedule,
+  dispatchQueryWindow,
+  isCalendarDate,
+} from "../services/dispatch-schedule.js";
+
+function leg(id: string, pickup: string, zone: string, deal_id = 1, leg_order = 1) {
+  return { id, deal_id, leg_order, pickup_datetime: pickup, pickup_timezone: zone, deal_name: `Deal ${deal_id}` };
+}
+
+describe("Dispatch Schedule", () => {
+  describe("isCalendarDate", () => {
+    it("should accept existing dates only", () => {
+      expect(isCalendarDate("2026-03-29")).toBe(true);
+      expect(isCalendarDate("2026-02-30")).toBe(false);
+      expect(isCalendarDate("2026-3-29")).toBe(false);
+      expect(isCalendarDate("2026-03-29T00:00")).toBe(false);
+    });
+  });
+
+  describe("addDays", () => {
+    it("should cross month and year ends", () => {
+      expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+      expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+      expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+    });
+  });
+
+  describe("dispatchQueryWindow", () => {
+    it("should cover the local days in every zone", () => {
+      expect(dispatchQueryWindow("2026-03-29", "2026-03-29")).toEqual({
+        start: "2026-03-28T10:00:00.000Z",
+        end: "2026-03-30T12:00:00.000Z",
+      });
+    });
+  });
+
+  describe("buildDispatchSchedule", () => {
+    it("should group legs by local pickup day", () => {
+      const days = buildDispatchSchedule(
+        [
+          // 23:30 in New York on the 28th, already the 29th in UTC
+          leg("ny", "2026-03-29T03:30:00Z", "America/New_York"),
+          // 00:30 in Paris on the 29th, still the 28th in UTC
+          leg("paris", "2026-03-28T23:30:00Z", "Europe/Paris"),
+        ],
+        { from: "2026-03-28", to: "2026-03-29" }
+      );
+
+      expect(days.map((day) => day.date)).toEqual(["2026-03-28", "2026-03-29"]);
+      expect(days[0].legs.map((l) => l.id)).toEqual(["ny"]);
+      expect(days[1].legs.map((l) => l.id)).toEqual(["paris"]);
+      expect(days[1].legs[0].pickup_time).toBe("00:30");
+      expect(days[1].weekday).toBe("Sunday");
+    });
+
+    it("should sort by local pickup time across zones", () => {
+      const [day] = buildDispatchSchedule(
+        [
+          leg("ny-0800", "2026-06-01T12:00:00Z", "America/New_York", 2),
+          leg("paris-0700", "2026-06-01T05:00:00Z", "Europe/Paris", 1),
+          leg("tokyo-0900", "2026-06-01T00:00:00Z", "Asia/Tokyo", 3),
+        ],
+        { from: "2026-06-01", to: "2026-06-01" }
+      );
+
+      expect(day.legs.map((l) => l.id)).toEqual(["paris-0700", "ny-0800", "tokyo-0900"]);
+      expect(day.legs[1]).toMatchObject({
+        deal_name: "Deal 2",
+        pickup_local: "2026-06-01T08:00:00",
+        pickup_utc: "2026-06-01T12:00:00.000Z",
+        pickup_utc_offset: "-04:00",
+        pickup_timezone_valid: true,
+      });
+    });
+
+    it("should list empty days and drop legs outside the range", () => {
+      const days = buildDispatchSchedule(
+        [leg("before", "2026-05-31T12:00:00Z", "UTC"), leg("inside", "2026-06-02T12:00:00Z", "UTC")],
+        { from: "2026-06-01", to: "2026-06-03" }
+      );
+
+      expect(days.map((day) => day.leg_count)).toEqual([0, 1, 0]);
+    });
+
+    it("should place legs with an invalid zone by UTC time", () => {
+      const [day] = buildDispatchSchedule(
+        [leg("bad", "2026-06-01T23:30:00Z", "Mars/Olympus")],
+        { from: "2026-06-01", to: "2026-06-01" }
+      );
+
+      expect(day.legs[0]).toMatchObject({ pickup_time: "23:30", pickup_timezone_valid: false });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import http, { type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { NextFunction, Request, Response } from "express";
+
+// The export tool reads the configuration, which requires these
+vi.hoisted(() => {
+  process.env.SUPABASE_URL ||= "http://localhost:54321";
+  process.env.DATABASE_URL ||= "postgres://localhost:5432/test";
+});
+
+vi.mock("../auth/middleware.js", () => ({
+  authMiddleware: (req: Request, _res: Response, next: NextFunction) => {
+    (req as any).auth = { userId: "user-1", email: "rep@example.com" };
+    next();
+  },
+}));
+
+const MAX_BATCHES = 1000;
+
+/**
+ * What the fake cursor went through: batches handed out, and whether the
+ * transaction was rolled back and the client released
+ */
+const cursor = vi.hoisted(() => ({
+  batches: 0,
+  rolledBack: false,
+  released: false,
+  done: Promise.resolve(),
+}));
+
+// Mirrors streamParameterizedQuery: roll back when a batch fails, always release
+vi.mock("../db/query-builder.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../db/query-builder.js")>()),
+  streamParameterizedQuery: vi.fn(async (_sql: string, _params: unknown[], _context: unknown, onBatch: Function) => {
+    let finish = () => {};
+    cursor.done = new Promise<void>((resolve) => (finish = resolve));
+    const rows = Array.from({ length: 100 }, (_, i) => ({ id: i, background: "x".repeat(1000) }));
+    try {
+      while (cursor.batches < MAX_BATCHES) {
+        cursor.batches++;
+        await onBatch(rows, ["id", "background"]);
+      }
+      return { success: true, rowCount: cursor.batches * rows.length };
+    } catch (error) {
+      cursor.rolledBack = true;
+      return { success: false, rowCount: 0, error: (error as Error).message };
+    } finally {
+      cursor.released = true;
+      finish();
+    }
+  }),
+}));
+
+const { securityMiddleware, jsonBodyParser } = await import("../middleware/security.js");
+const { exportRouter } = await import("../routes/export.js");
+
+describe("Export Routes", () => {
+  let server: Server;
+
+  beforeEach(async () => {
+    cursor.batches = 0;
+    cursor.rolledBack = false;
+    cursor.released = false;
+
+    // Same middleware order as the server
+    const app = express();
+    app.use(securityMiddleware);
+    app.use(jsonBodyParser);
+    app.use("/export", exportRouter);
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("should stop reading rows and release the connection when the client disconnects", async () => {
+    const { port } = server.address() as AddressInfo;
+
+    // Read the first chunk, then go away without reading the rest
+    await new Promise<void>((resolve, reject) => {
+      const req = http.request(
+        { port, method: "POST", path: "/export", headers: { "Content-Type": "application/json" } },
+        (res) => {
+          expect(res.statusCode).toBe(200);
+          res.once("data", () => {
+            req.destroy();
+            resolve();
+          });
+        }
+      );
+      req.on("error", (error) => {
+        if ((error as NodeJS.ErrnoException).code !== "ECONNRESET") reject(error);
+      });
+      req.end(JSON.stringify({ source: "contacts", format: "ndjson" }));
+    });
+
+    await cursor.done;
+
+    expect(cursor.batches).toBeLessThan(MAX_BATCHES);
+    expect(cursor.rolledBack).toBe(true);
+    expect(cursor.released).toBe(true);
+  });
+});
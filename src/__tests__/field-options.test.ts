@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { describeFieldOptions, formatFieldOptions, optionEnum, parseOptionList } from "../services/field-options.js";
+
+const options = {
+  dealStages: ["opportunity", "proposal", "won", "lost"],
+  dealCategories: ["other", "consulting"],
+  contactStatuses: ["lead", "active"],
+  taskTypes: ["call", "email"],
+  noteTypes: ["general", "call"],
+};
+
+describe("Field Options", () => {
+  describe("parseOptionList", () => {
+    it("should trim values and drop empty entries and duplicates", () => {
+      expect(parseOptionList(" opportunity, proposal,,won ,proposal ")).toEqual(["opportunity", "proposal", "won"]);
+    });
+
+    it("should return an empty list for missing values", () => {
+      expect(parseOptionList(undefined)).toEqual([]);
+      expect(parseOptionList(" , ")).toEqual([]);
+    });
+  });
+
+  describe("optionEnum", () => {
+    it("should only accept the given values", () => {
+      const schema = optionEnum(options.dealStages);
+      expect(schema.safeParse("proposal").success).toBe(true);
+      expect(schema.safeParse("Proposal").success).toBe(false);
+      expect(schema.safeParse("propsal").success).toBe(false);
+    });
+  });
+
+  describe("describeFieldOptions", () => {
+    it("should default stages, statuses and note types to their first value", () => {
+      const described = Object.fromEntries(describeFieldOptions(options).map((option) => [option.name, option]));
+      expect(described.deal_stages.default).toBe("opportunity");
+      expect(described.contact_statuses.default).toBe("lead");
+      expect(described.note_types.default).toBe("general");
+      expect(described.deal_categories.default).toBeNull();
+      expect(described.task_types.default).toBeNull();
+      expect(described.note_types.columns).toEqual(["contactNotes.type", "dealNotes.type"]);
+    });
+  });
+
+  describe("formatFieldOptions", () => {
+    it("should list one field per line", () => {
+      const text = formatFieldOptions(options);
+      expect(text.split("\n")).toHaveLength(5);
+      expect(text).toContain("  - deals.stage: opportunity, proposal, won, lost (default: opportunity)");
+      expect(text).toContain("  - tasks.type: call, email\n");
+    });
+  });
+});
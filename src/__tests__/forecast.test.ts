@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildForecast,
+  closedStages,
+  forecastRange,
+  parseStageProbabilities,
+  periodLabel,
+  pipelineClosedStages,
+} from "../services/forecast.js";
+
+const probabilities = { opportunity: 10, proposal: 30, negotiation: 60, won: 100, lost: 0 };
+
+const options = {
+  unit: "month" as const,
+  periods: 3,
+  historyPeriods: 2,
+  probabilities,
+  commitProbability: 60,
+  bestCaseProbability: 30,
+  today: "2026-03-15",
+};
+
+describe("Revenue Forecast", () => {
+  describe("parseStageProbabilities", () => {
+    it("should parse stage:percent pairs", () => {
+      expect(parseStageProbabilities("opportunity:10, proposal : 30,won:100")).toEqual({
+        opportunity: 10,
+        proposal: 30,
+        won: 100,
+      });
+    });
+
+    it("should skip invalid entries", () => {
+      expect(parseStageProbabilities("a:150,b:x,c,:20,d:,e:-1,f:0")).toEqual({ f: 0 });
+    });
+  });
+
+  describe("closedStages", () => {
+    it("should treat 100% as won and 0% as lost", () => {
+      expect(closedStages(probabilities)).toEqual({ won: ["won"], lost: ["lost"] });
+    });
+  });
+
+  describe("pipelineClosedStages", () => {
+    it("should pick the configured stages at 100% or 0% in stage order", () => {
+      expect(pipelineClosedStages(["opportunity", "proposal", "negotiation", "won", "lost"], probabilities)).toEqual(["won", "lost"]);
+    });
+
+    it("should follow custom stage sets", () => {
+      expect(pipelineClosedStages(
+        ["lead", "demo", "closed-lost", "signed"],
+        { lead: 5, demo: 40, signed: 100, "closed-lost": 0, won: 100 }
+      )).toEqual(["closed-lost", "signed"]);
+    });
+  });
+
+  describe("periodLabel", () => {
+    it("should label months and quarters", () => {
+      expect(periodLabel("2026-03-15", "month")).toBe("2026-03");
+      expect(periodLabel("2026-03-15", "quarter")).toBe("2026-Q1");
+      expect(periodLabel("2026-11-01", "quarter")).toBe("2026-Q4");
+    });
+  });
+
+  describe("forecastRange", () => {
+    it("should span the history and forecast periods", () => {
+      expect(forecastRange(options)).toEqual({
+        historyStart: "2026-01-01",
+        currentStart: "2026-03-01",
+        end: "2026-06-01",
+      });
+      expect(forecastRange({ ...options, unit: "quarter", today: "2026-11-20" })).toEqual({
+        historyStart: "2026-04-01",
+        currentStart: "2026-10-01",
+        end: "2027-07-01",
+      });
+    });
+  });
+
+  describe("buildForecast", () => {
+    const forecast = buildForecast(
+      {
+        open: [
+          { id: 1, stage: "negotiation", amount: 100000, expected_closing_date: "2026-03-20" },
+          { id: 2, stage: "proposal", amount: 50000, expected_closing_date: "2026-03-31" },
+          { id: 3, stage: "opportunity", amount: 20000, expected_closing_date: "2026-04-02" },
+          { id: 4, stage: "proposal", amount: 10000, expected_closing_date: "2026-02-10" },
+          { id: 5, stage: "opportunity", amount: 7000, expected_closing_date: "2026-09-01" },
+          { id: 6, stage: "qualification", amount: 3000, expected_closing_date: null },
+        ],
+        won: [
+          { id: 7, amount: 40000, won_on: "2026-03-02" },
+          { id: 8, amount: 25000, won_on: "2026-02-14" },
+        ],
+        expected: [
+          { id: 8, amount: 25000, expected_closing_date: "2026-02-28" },
+          { id: 9, amount: 75000, expected_closing_date: "2026-02-01" },
+        ],
+      },
+      options
+    );
+
+    it("should bucket the current and following periods", () => {
+      expect(forecast.periods.map((period) => period.period)).toEqual(["2026-03", "2026-04", "2026-05"]);
+      expect(forecast.periods[0]).toMatchObject({
+        won: 40000,
+        commit: 140000,
+        best_case: 190000,
+        pipeline: 150000,
+        weighted: 40000 + 60000 + 15000,
+        open_deals: 2,
+        won_deals: 1,
+      });
+      expect(forecast.periods[1]).toMatchObject({ pipeline: 20000, weighted: 2000, commit: 0, best_case: 0 });
+    });
+
+    it("should report overdue, later and undated deals", () => {
+      expect(forecast.overdue).toMatchObject({ pipeline: 10000, open_deals: 1 });
+      expect(forecast.later).toMatchObject({ pipeline: 7000, open_deals: 1 });
+      expect(forecast.undated).toMatchObject({ pipeline: 3000, weighted: 0 });
+      expect(forecast.totals.pipeline).toBe(180000);
+    });
+
+    it("should compare past expected and won amounts", () => {
+      expect(forecast.history.map((period) => period.period)).toEqual(["2026-01", "2026-02"]);
+      expect(forecast.history[1]).toMatchObject({ expected: 100000, won: 25000, attainment: 0.25 });
+      expect(forecast.history[0].attainment).toBeNull();
+      expect(forecast.historical_attainment).toBe(0.25);
+    });
+
+    it("should list stages without a probability", () => {
+      expect(forecast.unmapped_stages).toEqual(["qualification"]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { formatICalendar, formatICalDate, formatICalDateTime } from "../services/icalendar.js";
+
+const now = new Date("2026-03-01T08:30:00Z");
+
+describe("iCalendar Formatting", () => {
+  describe("formatICalDateTime", () => {
+    it("should format UTC date-times", () => {
+      expect(formatICalDateTime(new Date("2026-01-02T03:04:05.678Z"))).toBe("20260102T030405Z");
+    });
+  });
+
+  describe("formatICalDate", () => {
+    it("should format YYYY-MM-DD strings and local dates", () => {
+      expect(formatICalDate("2026-03-15")).toBe("20260315");
+      expect(formatICalDate("2026-03-15T00:00:00Z")).toBe("20260315");
+      expect(formatICalDate(new Date(2026, 2, 15))).toBe("20260315");
+    });
+
+    it("should return null for invalid dates", () => {
+      expect(formatICalDate("next week")).toBeNull();
+      expect(formatICalDate(new Date("invalid"))).toBeNull();
+    });
+  });
+
+  describe("formatICalendar", () => {
+    const task = {
+      id: 7,
+      title: "Call Ada, about the contract",
+      description: "Bring the quote",
+      due_date: "2026-03-15",
+      status: "in_progress",
+      priority: "high",
+      type: "call",
+      contact_name: "Ada Lovelace",
+      company_name: "Analytical Engines",
+      deal_name: null,
+      updated_at: new Date("2026-02-28T10:00:00Z"),
+    };
+
+    it("should render tasks as VTODO entries", () => {
+      const calendar = formatICalendar([task], { component: "todo", name: "Tasks", now });
+      expect(calendar).toBe([
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Atomic CRM//MCP Server//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Tasks",
+        "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+        "X-PUBLISHED-TTL:PT1H",
+        "BEGIN:VTODO",
+        "UID:task-7@atomic-crm",
+        "DTSTAMP:20260301T083000Z",
+        "SUMMARY:Call Ada\\, about the contract",
+        "DESCRIPTION:Bring the quote\\n\\nContact: Ada Lovelace\\nCompany: Analytical E",
+        " ngines",
+        "DUE;VALUE=DATE:20260315",
+        "STATUS:IN-PROCESS",
+        "PRIORITY:3",
+        "CATEGORIES:call",
+        "LAST-MODIFIED:20260228T100000Z",
+        "END:VTODO",
+        "END:VCALENDAR",
+        "",
+      ].join("\r\n"));
+    });
+
+    it("should render all-day VEVENT entries ending the next day", () => {
+      const calendar = formatICalendar([{ ...task, due_date: "2026-03-31" }], { component: "event", name: "Tasks", now });
+      expect(calendar).toContain("BEGIN:VEVENT\r\n");
+      expect(calendar).toContain("DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401\r\n");
+      expect(calendar).not.toContain("STATUS:");
+      expect(calendar).not.toContain("VTODO");
+    });
+
+    it("should skip tasks without a due date in event mode only", () => {
+      const undated = { id: 8, title: "Someday" };
+      expect(formatICalendar([undated], { component: "event", name: "Tasks", now })).not.toContain("task-8");
+
+      const todo = formatICalendar([undated], { component: "todo", name: "Tasks", now });
+      expect(todo).toContain("UID:task-8@atomic-crm");
+      expect(todo).toContain("STATUS:NEEDS-ACTION");
+      expect(todo).not.toContain("DUE");
+      expect(todo).not.toContain("PRIORITY");
+    });
+
+    it("should render an empty calendar", () => {
+      const calendar = formatICalendar([], { component: "todo", name: "Tasks", now });
+      expect(calendar.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+      expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+  });
+});
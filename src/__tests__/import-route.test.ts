@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express, { type Express, type NextFunction, type Request, type Response } from "express";
+import request from "supertest";
+
+// The import tools read the configuration, which requires these
+vi.hoisted(() => {
+  process.env.SUPABASE_URL ||= "http://localhost:54321";
+  process.env.DATABASE_URL ||= "postgres://localhost:5432/test";
+});
+
+vi.mock("../auth/middleware.js", () => ({
+  authMiddleware: (req: Request, _res: Response, next: NextFunction) => {
+    (req as any).auth = { userId: "user-1", email: "rep@example.com" };
+    next();
+  },
+}));
+
+vi.mock("../db/query-builder.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../db/query-builder.js")>()),
+  executeParameterizedQuery: vi.fn(async () => ({ success: true, data: [] })),
+}));
+
+const { securityMiddleware, jsonBodyParser } = await import("../middleware/security.js");
+const { importRouter } = await import("../routes/import.js");
+
+const CSV = "First Name,Last Name,Email,Company\nAda,Lovelace,ada@example.com,Analytical Engines\nAlan,Turing,alan@example.com,\n";
+
+const VCARD = [
+  "BEGIN:VCARD",
+  "VERSION:3.0",
+  "N:Lovelace;Ada;;;",
+  "FN:Ada Lovelace",
+  "EMAIL;TYPE=work:ada@example.com",
+  "END:VCARD",
+  "",
+].join("\r\n");
+
+describe("Import Routes", () => {
+  let app: Express;
+
+  beforeEach(() => {
+    // Same middleware order as the server
+    app = express();
+    app.use(securityMiddleware);
+    app.use(jsonBodyParser);
+    app.use("/import", importRouter);
+    app.post("/other", (req, res) => res.json({ body: req.body }));
+  });
+
+  describe("POST /import/csv", () => {
+    it("should accept a text/csv upload", async () => {
+      const response = await request(app)
+        .post("/import/csv?entity=contacts&dry_run=true")
+        .set("Content-Type", "text/csv")
+        .send(CSV);
+
+      expect(response.status).toBe(200);
+      expect(response.body.dry_run).toBe(true);
+      expect(JSON.stringify(response.body)).toContain("ada@example.com");
+    });
+
+    it("should accept JSON bodies larger than the default 100 kB limit", async () => {
+      const rows = Array.from({ length: 400 }, (_, i) => `Person${i},Test,person${i}@example.com,${"Met at the trade show. ".repeat(15)}`);
+      const csv = `First Name,Last Name,Email,Background\n${rows.join("\n")}\n`;
+      expect(csv.length).toBeGreaterThan(100 * 1024);
+
+      const response = await request(app)
+        .post("/import/csv")
+        .set("Content-Type", "application/json")
+        .send({ csv, entity: "contacts", dry_run: true });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject an invalid request with 400", async () => {
+      const response = await request(app)
+        .post("/import/csv?entity=deals")
+        .set("Content-Type", "text/csv")
+        .send(CSV);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /import/vcard", () => {
+    it("should accept a text/vcard upload", async () => {
+      const response = await request(app)
+        .post("/import/vcard?dry_run=true")
+        .set("Content-Type", "text/vcard")
+        .send(VCARD);
+
+      expect(response.status).toBe(200);
+      expect(response.body.dry_run).toBe(true);
+      expect(JSON.stringify(response.body)).toContain("ada@example.com");
+    });
+  });
+
+  describe("other routes", () => {
+    it("should still require JSON", async () => {
+      const response = await request(app).post("/other").set("Content-Type", "text/csv").send(CSV);
+      expect(response.status).toBe(415);
+    });
+
+    it("should still apply the default JSON limit", async () => {
+      const response = await request(app)
+        .post("/other")
+        .set("Content-Type", "application/json")
+        .send({ data: "x".repeat(200 * 1024) });
+      expect(response.status).toBe(413);
+    });
+  });
+});
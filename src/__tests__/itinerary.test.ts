@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatItinerary,
+  formatSmsItinerary,
+  SMS_MAX_LENGTH,
+  type ItineraryDeal,
+  type ItineraryLeg,
+} from "../services/itinerary.js";
+
+const deal: ItineraryDeal = {
+  id: 42,
+  name: "Smith <Paris> trip",
+  company_name: "Acme",
+  contact_name: "Jane Smith",
+  contact_phone: "+33 6 12 34 56 78",
+};
+
+const arrival: ItineraryLeg = {
+  leg_order: 1,
+  leg_type: "airport_arrival",
+  pickup_datetime: "2026-03-29T07:30:00Z",
+  pickup_timezone: "Europe/Paris",
+  pickup_location_text: "CDG Terminal 2E",
+  dropoff_location_text: "Hotel Lutetia",
+  transport_mode: "flight",
+  carrier_or_operator: "Air France",
+  transport_number: "AF1234",
+  origin_code: "JFK",
+  destination_code: "CDG",
+  terminal: "2E",
+  gate: "K41",
+  meet_point_instructions: "Arrivals hall, name board",
+  driver_notes: "Two large suitcases\nChild seat",
+  dispatch_notes: "VIP client, invoice Acme",
+};
+
+const transfer: ItineraryLeg = {
+  leg_order: 2,
+  leg_type: "point_to_point",
+  pickup_datetime: "2026-03-30T14:00:00Z",
+  pickup_timezone: "Europe/Paris",
+  pickup_location_text: "Hotel Lutetia",
+  dropoff_location_text: "Gare de Lyon",
+};
+
+describe("Itinerary", () => {
+  describe("formatItinerary markdown", () => {
+    it("should list legs in leg order with local pickup times", () => {
+      const markdown = formatItinerary(deal, [transfer, arrival], { format: "markdown", variant: "driver" });
+
+      expect(markdown).toContain("# Itinerary: Smith <Paris> trip");
+      expect(markdown).toContain("Acme · Jane Smith, +33 6 12 34 56 78");
+      expect(markdown.indexOf("## Leg 1 — Airport arrival")).toBeLessThan(markdown.indexOf("## Leg 2 — Transfer"));
+      expect(markdown).toContain("- **Pickup:** Sun 29 Mar 2026, 09:30 (Europe/Paris, UTC+02:00)");
+      expect(markdown).toContain("- **Transport:** Flight AF1234 · Air France · JFK → CDG");
+      expect(markdown).toContain("- **Terminal / gate / platform:** Terminal 2E · Gate K41");
+      expect(markdown).toContain("- **Driver notes:** Two large suitcases\n  Child seat");
+    });
+
+    it("should leave out empty fields", () => {
+      const markdown = formatItinerary(deal, [transfer], { format: "markdown", variant: "driver" });
+      expect(markdown).not.toContain("Transport");
+      expect(markdown).not.toContain("Meet point");
+    });
+
+    it("should include dispatch notes only in the dispatcher variant", () => {
+      expect(formatItinerary(deal, [arrival], { format: "markdown", variant: "driver" })).not.toContain("VIP client");
+      expect(formatItinerary(deal, [arrival], { format: "markdown", variant: "dispatcher" }))
+        .toContain("- **Dispatch notes:** VIP client, invoice Acme");
+    });
+
+    it("should say when there are no legs", () => {
+      expect(formatItinerary(deal, [], { format: "markdown", variant: "driver" })).toContain("No journey legs yet.");
+    });
+
+    it("should fall back to UTC when the zone is not valid", () => {
+      const markdown = formatItinerary(deal, [{ ...transfer, pickup_timezone: "Mars/Olympus" }], { format: "markdown", variant: "driver" });
+      expect(markdown).toContain("Mon 30 Mar 2026, 14:00 (UTC, UTC+00:00)");
+    });
+  });
+
+  describe("formatItinerary html", () => {
+    it("should escape values and keep line breaks", () => {
+      const html = formatItinerary(deal, [arrival], { format: "html", variant: "driver" });
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain("<h1>Itinerary: Smith &lt;Paris&gt; trip</h1>");
+      expect(html).toContain("<dt>Driver notes</dt><dd>Two large suitcases<br>Child seat</dd>");
+      expect(html).not.toContain("Dispatch notes");
+    });
+  });
+
+  describe("formatSmsItinerary", () => {
+    it("should return one message per leg with time, route and transport", () => {
+      const messages = formatSmsItinerary([arrival, transfer]);
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toMatch(/^Leg 1: Sun 29 Mar 09:30 CDG Terminal 2E > Hotel Lutetia\. Flight AF1234/);
+      expect(messages[1]).toBe("Leg 2: Mon 30 Mar 16:00 Hotel Lutetia > Gare de Lyon.");
+    });
+
+    it("should keep every message within the SMS length", () => {
+      const long = { ...arrival, driver_notes: "x ".repeat(200), dispatch_notes: "y ".repeat(200) };
+      for (const variant of ["driver", "dispatcher"] as const) {
+        for (const message of formatSmsItinerary([long], variant)) {
+          expect(message.length).toBeLessThanOrEqual(SMS_MAX_LENGTH);
+          expect(message).toMatch(/…$/);
+        }
+      }
+    });
+
+    it("should add dispatch notes in the dispatcher variant when they fit", () => {
+      expect(formatSmsItinerary([{ ...transfer, dispatch_notes: "Cash" }], "dispatcher")[0]).toContain("Dispatch: Cash");
+      expect(formatSmsItinerary([{ ...transfer, dispatch_notes: "Cash" }], "driver")[0]).not.toContain("Cash");
+    });
+
+    it("should be the sms format joined by blank lines", () => {
+      expect(formatItinerary(deal, [arrival, transfer], { format: "sms", variant: "driver" }))
+        .toBe(formatSmsItinerary([arrival, transfer]).join("\n\n"));
+    });
+  });
+});
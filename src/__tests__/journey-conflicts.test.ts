@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { findJourneyConflicts, findLegConflicts } from "../services/journey-conflicts.js";
+
+const options = { minGapMinutes: 30, strictness: "warn" as const };
+
+function leg(id: string, leg_order: number, pickup_datetime: string, deal_id = 1) {
+  return { id, deal_id, leg_order, pickup_datetime };
+}
+
+describe("Journey Conflicts", () => {
+  describe("findJourneyConflicts", () => {
+    it("should accept legs in order and far enough apart", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T08:00:00Z"),
+        leg("b", 2, "2026-05-01T10:00:00Z"),
+        leg("c", 3, "2026-05-03T18:00:00Z"),
+      ];
+      expect(findJourneyConflicts(legs, options)).toEqual([]);
+    });
+
+    it("should flag pickups out of leg_order", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T10:00:00Z"),
+        leg("b", 2, "2026-05-01T08:00:00Z"),
+      ];
+      const [conflict] = findJourneyConflicts(legs, options);
+      expect(conflict).toMatchObject({
+        type: "out_of_order",
+        severity: "warning",
+        leg_id: "b",
+        other_leg_id: "a",
+        gap_minutes: -120,
+      });
+      expect(conflict.message).toContain("before leg 1");
+    });
+
+    it("should flag pickups closer than the minimum gap", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T08:00:00Z"),
+        leg("b", 2, "2026-05-01T08:20:00Z"),
+      ];
+      expect(findJourneyConflicts(legs, options)).toMatchObject([{ type: "too_close", gap_minutes: 20 }]);
+      expect(findJourneyConflicts(legs, { ...options, minGapMinutes: 20 })).toEqual([]);
+    });
+
+    it("should flag legs sharing a leg_order", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T08:00:00Z"),
+        leg("b", 1, "2026-05-01T12:00:00Z"),
+      ];
+      expect(findJourneyConflicts(legs, options)).toMatchObject([{ type: "duplicate_order", leg_order: 1 }]);
+    });
+
+    it("should only compare legs of the same deal", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T08:00:00Z", 1),
+        leg("b", 2, "2026-05-01T08:05:00Z", 2),
+      ];
+      expect(findJourneyConflicts(legs, options)).toEqual([]);
+    });
+
+    it("should report errors in error mode", () => {
+      const legs = [
+        leg("a", 1, "2026-05-01T10:00:00Z"),
+        leg("b", 2, "2026-05-01T09:00:00Z"),
+      ];
+      expect(findJourneyConflicts(legs, { ...options, strictness: "error" })[0].severity).toBe("error");
+    });
+  });
+
+  describe("findLegConflicts", () => {
+    it("should only report conflicts involving the checked leg", () => {
+      const others = [
+        leg("a", 1, "2026-05-01T10:00:00Z"),
+        leg("b", 2, "2026-05-01T09:00:00Z"),
+        leg("c", 3, "2026-05-02T09:00:00Z"),
+      ];
+      const conflicts = findLegConflicts(leg("new", 4, "2026-05-02T09:10:00Z"), others, options);
+      expect(conflicts).toMatchObject([{ type: "too_close", leg_id: "new", other_leg_id: "c" }]);
+    });
+
+    it("should replace the stored version of an updated leg", () => {
+      const others = [
+        leg("a", 1, "2026-05-01T08:00:00Z"),
+        leg("b", 2, "2026-05-01T07:00:00Z"),
+      ];
+      expect(findLegConflicts(leg("b", 2, "2026-05-01T12:00:00Z"), others, options)).toEqual([]);
+    });
+  });
+});
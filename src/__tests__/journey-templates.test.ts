@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  JOURNEY_LEG_COLUMNS,
+  journeyLegValues,
+  mirrorReturnLeg,
+  planLegCopies,
+  shiftPickupDays,
+  type JourneyLegTemplate,
+} from "../services/journey-templates.js";
+
+const arrival: JourneyLegTemplate = {
+  leg_order: 1,
+  leg_type: "airport_arrival",
+  pickup_datetime: "2026-03-27T08:30:00Z",
+  pickup_timezone: "Europe/Paris",
+  pickup_location_text: "CDG Terminal 2E",
+  dropoff_location_text: "Hotel Lutetia",
+  transport_mode: "flight",
+  carrier_or_operator: "Air France",
+  transport_number: "AF1234",
+  origin_code: "JFK",
+  destination_code: "CDG",
+  terminal: "2E",
+  gate: "K41",
+  platform: null,
+  meet_point_instructions: "Arrivals hall",
+  driver_notes: "Child seat",
+  dispatch_notes: "VIP",
+};
+
+describe("Journey Templates", () => {
+  describe("shiftPickupDays", () => {
+    it("should keep the local time across a DST change", () => {
+      // 09:30 in Paris on Friday (UTC+1) is 09:30 on Monday (UTC+2)
+      expect(shiftPickupDays("2026-03-27T08:30:00Z", "Europe/Paris", 3).toISOString()).toBe("2026-03-30T07:30:00.000Z");
+    });
+
+    it("should shift backwards and across months", () => {
+      expect(shiftPickupDays("2026-03-01T10:00:00Z", "UTC", -1).toISOString()).toBe("2026-02-28T10:00:00.000Z");
+    });
+
+    it("should use UTC when the zone is not valid", () => {
+      expect(shiftPickupDays("2026-03-27T08:30:00Z", "Mars/Olympus", 7).toISOString()).toBe("2026-04-03T08:30:00.000Z");
+    });
+
+    it("should leave the pickup unchanged with no offset", () => {
+      expect(shiftPickupDays("2026-03-27T08:30:00Z", "Europe/Paris", 0).toISOString()).toBe("2026-03-27T08:30:00.000Z");
+    });
+  });
+
+  describe("planLegCopies", () => {
+    it("should number copies from startOrder in leg order", () => {
+      const second = { ...arrival, leg_order: 5, leg_type: "point_to_point", pickup_datetime: "2026-03-28T10:00:00Z" };
+      const copies = planLegCopies([second, arrival], { startOrder: 3, offsetDays: 1 });
+
+      expect(copies.map((copy) => [copy.leg_type, copy.leg_order])).toEqual([
+        ["airport_arrival", 3],
+        ["point_to_point", 4],
+      ]);
+      expect(copies[0].pickup_datetime.toISOString()).toBe("2026-03-28T08:30:00.000Z");
+      expect(copies[0].driver_notes).toBe("Child seat");
+    });
+  });
+
+  describe("mirrorReturnLeg", () => {
+    const pickup = new Date("2026-04-02T12:00:00Z");
+
+    it("should swap locations and codes and turn the arrival into a departure", () => {
+      const leg = mirrorReturnLeg(arrival, { leg_order: 4, pickup_datetime: pickup, pickup_timezone: "Europe/Paris", transport_number: "AF1235" });
+
+      expect(leg).toMatchObject({
+        leg_order: 4,
+        leg_type: "airport_departure",
+        pickup_location_text: "Hotel Lutetia",
+        dropoff_location_text: "CDG Terminal 2E",
+        origin_code: "CDG",
+        destination_code: "JFK",
+        transport_mode: "flight",
+        transport_number: "AF1235",
+        driver_notes: "Child seat",
+        dispatch_notes: "VIP",
+      });
+    });
+
+    it("should not carry over inbound-only details", () => {
+      const leg = mirrorReturnLeg(arrival, { leg_order: 2, pickup_datetime: pickup, pickup_timezone: "Europe/Paris" });
+
+      expect(leg).toMatchObject({ carrier_or_operator: null, terminal: null, gate: null, meet_point_instructions: null });
+    });
+
+    it("should mirror train arrivals into train departures", () => {
+      const leg = mirrorReturnLeg({ ...arrival, leg_type: "train_arrival" }, { leg_order: 2, pickup_datetime: pickup, pickup_timezone: "Europe/Paris" });
+      expect(leg.leg_type).toBe("train_departure");
+    });
+
+    it("should reject legs that are not arrivals or have no dropoff", () => {
+      expect(() => mirrorReturnLeg({ ...arrival, leg_type: "hourly" }, { leg_order: 2, pickup_datetime: pickup, pickup_timezone: "UTC" }))
+        .toThrow("Cannot mirror a hourly leg");
+      expect(() => mirrorReturnLeg({ ...arrival, dropoff_location_text: null }, { leg_order: 2, pickup_datetime: pickup, pickup_timezone: "UTC" }))
+        .toThrow("without a dropoff location");
+    });
+  });
+
+  describe("journeyLegValues", () => {
+    it("should list values in column order with the pickup as an ISO string", () => {
+      const values = journeyLegValues({ ...arrival, pickup_datetime: new Date("2026-03-27T08:30:00Z") });
+
+      expect(values).toHaveLength(JOURNEY_LEG_COLUMNS.length);
+      expect(values[JOURNEY_LEG_COLUMNS.indexOf("pickup_datetime")]).toBe("2026-03-27T08:30:00.000Z");
+      expect(values[JOURNEY_LEG_COLUMNS.indexOf("platform")]).toBeNull();
+    });
+  });
+});
@@ -8,6 +8,11 @@ import {
   isValidColumn,
   escapeLikePattern,
   buildTsQuery,
+  buildFilterClause,
+  buildKeysetClause,
+  buildOrderByClause,
+  encodeCursor,
+  decodeCursor,
 } from "../db/query-utils.js";
 
 describe("Query Builder Utilities", () => {
@@ -197,4 +202,123 @@ describe("Query Builder Utilities", () => {
       expect(buildTsQuery("")).toBe("");
     });
   });
+
+  describe("buildFilterClause", () => {
+    it("should compile eq conditions", () => {
+      const result = buildFilterClause({ column: "stage", op: "eq", value: "won" }, 1);
+      expect(result.clause).toBe("stage = $1");
+      expect(result.params).toEqual(["won"]);
+    });
+
+    it("should compile in conditions", () => {
+      const result = buildFilterClause({ column: "id", op: "in", values: [1, 2, 3] }, 2);
+      expect(result.clause).toBe("id IN ($2, $3, $4)");
+      expect(result.params).toEqual([1, 2, 3]);
+    });
+
+    it("should match nothing for an empty in list", () => {
+      const result = buildFilterClause({ column: "id", op: "in", values: [] }, 1);
+      expect(result.clause).toBe("FALSE");
+    });
+
+    it("should compile range conditions", () => {
+      const result = buildFilterClause({ column: "amount", op: "range", gte: 100, lt: 500 }, 1);
+      expect(result.clause).toBe("amount >= $1 AND amount < $2");
+      expect(result.params).toEqual([100, 500]);
+    });
+
+    it("should reject range conditions without bounds", () => {
+      expect(() => buildFilterClause({ column: "amount", op: "range" }, 1)).toThrow();
+    });
+
+    it("should compile ilike conditions with escaped patterns", () => {
+      const result = buildFilterClause({ column: "name", op: "ilike", value: "100%" }, 1);
+      expect(result.clause).toBe("name ILIKE $1");
+      expect(result.params).toEqual(["%100\\%%"]);
+    });
+
+    it("should compile is_null conditions", () => {
+      expect(buildFilterClause({ column: "archived_at", op: "is_null" }, 1).clause).toBe("archived_at IS NULL");
+      expect(buildFilterClause({ column: "archived_at", op: "is_null", value: false }, 1).clause).toBe("archived_at IS NOT NULL");
+    });
+
+    it("should compile nested and/or groups with sequential placeholders", () => {
+      const result = buildFilterClause({
+        and: [
+          { column: "stage", op: "eq", value: "proposal" },
+          { or: [
+            { column: "amount", op: "range", gt: 1000 },
+            { column: "category", op: "in", values: ["a", "b"] },
+          ] },
+        ],
+      }, 1);
+      expect(result.clause).toBe("(stage = $1) AND ((amount > $2) OR (category IN ($3, $4)))");
+      expect(result.params).toEqual(["proposal", 1000, "a", "b"]);
+    });
+
+    it("should throw on invalid column names instead of dropping the filter", () => {
+      expect(() => buildFilterClause({ column: "id; DROP TABLE users", op: "eq", value: 1 }, 1)).toThrow(/Invalid column/);
+    });
+
+    it("should reject filters nested too deeply", () => {
+      let node: any = { column: "id", op: "eq", value: 1 };
+      for (let i = 0; i < 10; i++) {
+        node = { and: [node] };
+      }
+      expect(() => buildFilterClause(node, 1)).toThrow(/nesting depth/);
+    });
+  });
+
+  describe("buildKeysetClause", () => {
+    it("should build a condition for a single key", () => {
+      const result = buildKeysetClause([{ column: "id", direction: "asc" }], [10], 1);
+      expect(result.clause).toBe("((id > $1 OR id IS NULL))");
+      expect(result.params).toEqual([10]);
+    });
+
+    it("should build expanded conditions for multiple keys", () => {
+      const result = buildKeysetClause(
+        [{ column: "amount", direction: "desc" }, { column: "id", direction: "asc" }],
+        [5000, 42],
+        3
+      );
+      expect(result.clause).toBe("((amount < $3 OR amount IS NULL)) OR (amount = $4 AND (id > $5 OR id IS NULL))");
+      expect(result.params).toEqual([5000, 5000, 42]);
+    });
+
+    it("should handle NULL cursor values", () => {
+      const result = buildKeysetClause(
+        [{ column: "due_date", direction: "asc" }, { column: "id", direction: "asc" }],
+        [null, 7],
+        1
+      );
+      expect(result.clause).toBe("(due_date IS NULL AND (id > $1 OR id IS NULL))");
+      expect(result.params).toEqual([7]);
+    });
+
+    it("should reject cursors that do not match the sort keys", () => {
+      expect(() => buildKeysetClause([{ column: "id", direction: "asc" }], [1, 2], 1)).toThrow();
+    });
+  });
+
+  describe("buildOrderByClause", () => {
+    it("should order with NULLS LAST", () => {
+      expect(buildOrderByClause([
+        { column: "amount", direction: "desc" },
+        { column: "id", direction: "asc" },
+      ])).toBe("amount DESC NULLS LAST, id ASC NULLS LAST");
+    });
+  });
+
+  describe("encodeCursor / decodeCursor", () => {
+    it("should round-trip cursor values", () => {
+      const values = ["2024-01-01T00:00:00.000Z", null, 42];
+      expect(decodeCursor(encodeCursor(values))).toEqual(values);
+    });
+
+    it("should return null for malformed cursors", () => {
+      expect(decodeCursor("not a cursor")).toBeNull();
+      expect(decodeCursor(Buffer.from('{"a":1}').toString("base64url"))).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { assessQueryPlan, extractRootPlan } from "../db/query-plan.js";
+
+const limits = { maxCost: 10000, maxRows: 100000 };
+
+function explain(plan: Record<string, unknown>) {
+  return [{ Plan: plan }];
+}
+
+describe("Query Plan Cost Guard", () => {
+  describe("extractRootPlan", () => {
+    it("should read the root node from EXPLAIN JSON output", () => {
+      const plan = extractRootPlan(explain({ "Node Type": "Seq Scan", "Total Cost": 10, "Plan Rows": 5 }));
+      expect(plan?.["Node Type"]).toBe("Seq Scan");
+    });
+
+    it("should accept EXPLAIN output returned as a string", () => {
+      const output = JSON.stringify(explain({ "Node Type": "Result", "Total Cost": 0.01, "Plan Rows": 1 }));
+      expect(extractRootPlan(output)?.["Node Type"]).toBe("Result");
+    });
+
+    it("should return null for unrecognized output", () => {
+      expect(extractRootPlan(undefined)).toBeNull();
+      expect(extractRootPlan("not json")).toBeNull();
+      expect(extractRootPlan([{ Plan: { "Node Type": "Result" } }])).toBeNull();
+    });
+  });
+
+  describe("assessQueryPlan", () => {
+    it("should allow cheap plans", () => {
+      const result = assessQueryPlan(
+        explain({ "Node Type": "Index Scan", "Relation Name": "contacts", "Total Cost": 8.3, "Plan Rows": 1 }),
+        limits
+      );
+      expect(result.allowed).toBe(true);
+      expect(result.reasons).toEqual([]);
+      expect(result.suggestions).toEqual([]);
+    });
+
+    it("should reject plans over the cost limit", () => {
+      const result = assessQueryPlan(
+        explain({ "Node Type": "Seq Scan", "Relation Name": "deals", "Total Cost": 50000, "Plan Rows": 20000 }),
+        limits
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.reasons[0]).toContain("Estimated cost");
+      expect(result.suggestions).toContain("Full scan of deals: add a selective WHERE clause");
+    });
+
+    it("should reject intermediate row explosions hidden under an aggregate", () => {
+      const result = assessQueryPlan(
+        explain({
+          "Node Type": "Aggregate",
+          "Total Cost": 9000,
+          "Plan Rows": 1,
+          Plans: [{
+            "Node Type": "Nested Loop",
+            "Join Type": "Inner",
+            "Total Cost": 9000000,
+            "Plan Rows": 50000000,
+            Plans: [
+              { "Node Type": "Seq Scan", "Relation Name": "contacts", "Total Cost": 200, "Plan Rows": 10000 },
+              { "Node Type": "Seq Scan", "Relation Name": "deals", "Total Cost": 100, "Plan Rows": 5000 },
+            ],
+          }],
+        }),
+        limits
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.estimatedRows).toBe(50000000);
+      expect(result.reasons).toHaveLength(1);
+      expect(result.reasons[0]).toContain("intermediate rows");
+      expect(result.expensiveNodes[0].nodeType).toBe("Nested Loop");
+      expect(result.suggestions[0]).toContain("cartesian join between contacts, deals");
+    });
+
+    it("should count the rows under a Limit at most at the Limit's estimate", () => {
+      const result = assessQueryPlan(
+        explain({
+          "Node Type": "Limit",
+          "Total Cost": 4.5,
+          "Plan Rows": 201,
+          Plans: [{ "Node Type": "Seq Scan", "Relation Name": "contactNotes", "Total Cost": 45000, "Plan Rows": 2000000 }],
+        }),
+        limits
+      );
+      expect(result.allowed).toBe(true);
+      expect(result.estimatedRows).toBe(201);
+      expect(result.expensiveNodes[0]).toEqual({
+        nodeType: "Seq Scan",
+        relation: "contactNotes",
+        estimatedRows: 201,
+        totalCost: 45000,
+      });
+    });
+
+    it("should count every row read by a Sort under a Limit", () => {
+      const result = assessQueryPlan(
+        explain({
+          "Node Type": "Limit",
+          "Total Cost": 9500,
+          "Plan Rows": 201,
+          Plans: [{
+            "Node Type": "Sort",
+            "Total Cost": 9400,
+            "Plan Rows": 2000000,
+            Plans: [{ "Node Type": "Seq Scan", "Relation Name": "contactNotes", "Total Cost": 4500, "Plan Rows": 2000000 }],
+          }],
+        }),
+        limits
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.estimatedRows).toBe(2000000);
+      expect(result.suggestions).toContain("Full scan of contactNotes: add a selective WHERE clause");
+    });
+
+    it("should not flag nested loops driven by an index lookup as cartesian", () => {
+      const result = assessQueryPlan(
+        explain({
+          "Node Type": "Nested Loop",
+          "Total Cost": 900000,
+          "Plan Rows": 500,
+          Plans: [
+            { "Node Type": "Seq Scan", "Relation Name": "contacts", "Total Cost": 200, "Plan Rows": 500 },
+            { "Node Type": "Index Scan", "Relation Name": "companies", "Index Cond": "(id = c.company_id)", "Total Cost": 8, "Plan Rows": 1 },
+          ],
+        }),
+        limits
+      );
+      expect(result.allowed).toBe(false);
+      expect(result.suggestions.some((s) => s.includes("cartesian"))).toBe(false);
+    });
+
+    it("should reject plans it cannot read", () => {
+      const result = assessQueryPlan(null, limits);
+      expect(result.allowed).toBe(false);
+      expect(result.reasons).toEqual(["Unable to read the query plan"]);
+    });
+  });
+});
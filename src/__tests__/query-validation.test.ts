@@ -138,6 +138,53 @@ describe("SQL Query Validation", () => {
       expect(result.valid).toBe(false);
       expect(result.error).toContain("empty");
     });
+
+    it("should accept forbidden words inside string literals", () => {
+      const result = validateSqlQuery("SELECT * FROM contacts WHERE background ILIKE '%update the contract%'");
+      expect(result.valid).toBe(true);
+    });
+
+    it("should reject data-modifying CTEs", () => {
+      const result = validateSqlQuery("WITH d AS (DELETE FROM contacts RETURNING *) SELECT * FROM d");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Data-modifying");
+    });
+
+    it("should reject dangerous function calls", () => {
+      for (const sql of [
+        "SELECT pg_sleep(10)",
+        "SELECT dblink('host=evil', 'SELECT 1')",
+        "SELECT lo_import('/etc/passwd')",
+        "SELECT * FROM contacts WHERE id = (SELECT nextval('contacts_id_seq'))",
+      ]) {
+        const result = validateSqlQuery(sql);
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain("forbidden function");
+      }
+    });
+
+    it("should reject calls to the trash purge function", () => {
+      for (const sql of [
+        "SELECT purge_deleted_records(0)",
+        "SELECT public.purge_deleted_records()",
+        "SELECT count(*) FROM contacts WHERE purge_deleted_records(0) > 0",
+      ]) {
+        const result = validateSqlQuery(sql);
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain("forbidden function");
+      }
+    });
+
+    it("should reject row locking clauses", () => {
+      const result = validateSqlQuery("SELECT * FROM contacts FOR UPDATE");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("locking");
+    });
+
+    it("should reject DML statements", () => {
+      const result = validateSqlQuery("DELETE FROM contacts WHERE id = 1");
+      expect(result.valid).toBe(false);
+    });
   });
 
   describe("sanitizeIdentifier", () => {
@@ -210,6 +257,49 @@ describe("SQL Query Validation", () => {
       expect(result.invalidTables).toContain("admin");
     });
 
+    it("should find tables in subqueries and CTE bodies", () => {
+      const result = validateTablesInQuery(
+        "WITH x AS (SELECT * FROM users) SELECT * FROM contacts WHERE id IN (SELECT id FROM x) AND EXISTS (SELECT 1 FROM admin)",
+        allowedTables
+      );
+      expect(result.valid).toBe(false);
+      expect(result.invalidTables).toEqual(["users", "admin"]);
+    });
+
+    it("should not treat CTE names as tables", () => {
+      const result = validateTablesInQuery(
+        "WITH active_contacts AS (SELECT * FROM contacts) SELECT * FROM active_contacts",
+        allowedTables
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("should not let a CTE shadow the table it reads from", () => {
+      const result = validateTablesInQuery(
+        "WITH users AS (SELECT * FROM users) SELECT * FROM users",
+        allowedTables
+      );
+      expect(result.valid).toBe(false);
+      expect(result.invalidTables).toContain("users");
+    });
+
+    it("should report schema-qualified tables", () => {
+      const result = validateTablesInQuery(
+        "SELECT * FROM pg_catalog.pg_authid",
+        allowedTables
+      );
+      expect(result.valid).toBe(false);
+      expect(result.invalidTables).toContain("pg_catalog.pg_authid");
+    });
+
+    it("should ignore table names mentioned in string literals", () => {
+      const result = validateTablesInQuery(
+        "SELECT * FROM contacts WHERE background = 'moved from users'",
+        allowedTables
+      );
+      expect(result.valid).toBe(true);
+    });
+
     it("should be case-insensitive for table names", () => {
       const result = validateTablesInQuery(
         "SELECT * FROM CONTACTS",
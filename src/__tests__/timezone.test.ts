@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatUtcOffset,
+  getTimeZoneOffsetMinutes,
+  hasUtcOffset,
+  isValidTimeZone,
+  parseZonedDateTime,
+  pickupTimes,
+  toZonedDateTime,
+} from "../services/timezone.js";
+
+describe("Time Zones", () => {
+  describe("isValidTimeZone", () => {
+    it("should accept IANA zone names", () => {
+      expect(isValidTimeZone("Europe/Paris")).toBe(true);
+      expect(isValidTimeZone("America/New_York")).toBe(true);
+      expect(isValidTimeZone("UTC")).toBe(true);
+    });
+
+    it("should reject unknown names and fixed offsets", () => {
+      expect(isValidTimeZone("Europe/Pariss")).toBe(false);
+      expect(isValidTimeZone("Paris")).toBe(false);
+      expect(isValidTimeZone("+02:00")).toBe(false);
+      expect(isValidTimeZone("")).toBe(false);
+    });
+  });
+
+  describe("hasUtcOffset", () => {
+    it("should detect Z and numeric offsets", () => {
+      expect(hasUtcOffset("2026-03-29T09:30:00Z")).toBe(true);
+      expect(hasUtcOffset("2026-03-29T09:30:00+02:00")).toBe(true);
+      expect(hasUtcOffset("2026-03-29T09:30:00-0500")).toBe(true);
+      expect(hasUtcOffset("2026-03-29T09:30:00")).toBe(false);
+      expect(hasUtcOffset("2026-03-29 09:30")).toBe(false);
+      expect(hasUtcOffset("2026-03-29")).toBe(false);
+    });
+  });
+
+  describe("getTimeZoneOffsetMinutes", () => {
+    it("should follow DST", () => {
+      expect(getTimeZoneOffsetMinutes(new Date("2026-01-15T12:00:00Z"), "Europe/Paris")).toBe(60);
+      expect(getTimeZoneOffsetMinutes(new Date("2026-07-15T12:00:00Z"), "Europe/Paris")).toBe(120);
+      expect(getTimeZoneOffsetMinutes(new Date("2026-07-15T12:00:00Z"), "America/New_York")).toBe(-240);
+    });
+  });
+
+  describe("formatUtcOffset", () => {
+    it("should format signed hours and minutes", () => {
+      expect(formatUtcOffset(120)).toBe("+02:00");
+      expect(formatUtcOffset(-330)).toBe("-05:30");
+      expect(formatUtcOffset(0)).toBe("+00:00");
+    });
+  });
+
+  describe("parseZonedDateTime", () => {
+    it("should read naive datetimes in the given zone", () => {
+      expect(parseZonedDateTime("2026-01-15T09:30", "Europe/Paris")?.toISOString()).toBe("2026-01-15T08:30:00.000Z");
+      expect(parseZonedDateTime("2026-07-15 09:30:00", "Europe/Paris")?.toISOString()).toBe("2026-07-15T07:30:00.000Z");
+      expect(parseZonedDateTime("2026-07-15T09:30:00", "America/New_York")?.toISOString()).toBe("2026-07-15T13:30:00.000Z");
+    });
+
+    it("should use the offset in effect on each side of a DST change", () => {
+      // Paris switches to summer time on 2026-03-29 at 02:00
+      expect(parseZonedDateTime("2026-03-29T01:30", "Europe/Paris")?.toISOString()).toBe("2026-03-29T00:30:00.000Z");
+      expect(parseZonedDateTime("2026-03-29T09:30", "Europe/Paris")?.toISOString()).toBe("2026-03-29T07:30:00.000Z");
+    });
+
+    it("should move skipped times forward and pick the first of repeated times", () => {
+      expect(parseZonedDateTime("2026-03-29T02:30", "Europe/Paris")?.toISOString()).toBe("2026-03-29T01:30:00.000Z");
+      expect(parseZonedDateTime("2026-10-25T02:30", "Europe/Paris")?.toISOString()).toBe("2026-10-25T00:30:00.000Z");
+    });
+
+    it("should keep explicit offsets", () => {
+      expect(parseZonedDateTime("2026-07-15T09:30:00Z", "Europe/Paris")?.toISOString()).toBe("2026-07-15T09:30:00.000Z");
+      expect(parseZonedDateTime("2026-07-15T09:30:00-04:00", "Europe/Paris")?.toISOString()).toBe("2026-07-15T13:30:00.000Z");
+    });
+
+    it("should reject invalid datetimes", () => {
+      expect(parseZonedDateTime("tomorrow morning", "Europe/Paris")).toBeNull();
+      expect(parseZonedDateTime("2026-02-30T09:00", "Europe/Paris")).toBeNull();
+      expect(parseZonedDateTime("2026-02-10T25:00", "Europe/Paris")).toBeNull();
+      expect(parseZonedDateTime("2026-02-10", "Europe/Paris")).toBeNull();
+    });
+  });
+
+  describe("toZonedDateTime", () => {
+    it("should render an instant in UTC and local time", () => {
+      expect(toZonedDateTime("2026-03-29T07:30:00Z", "Europe/Paris")).toEqual({
+        utc: "2026-03-29T07:30:00.000Z",
+        local: "2026-03-29T09:30:00",
+        utc_offset: "+02:00",
+        time_zone: "Europe/Paris",
+      });
+    });
+  });
+
+  describe("pickupTimes", () => {
+    it("should render local fields, empty for invalid zones", () => {
+      expect(pickupTimes(new Date("2026-01-15T08:30:00Z"), "Europe/Paris")).toEqual({
+        pickup_utc: "2026-01-15T08:30:00.000Z",
+        pickup_local: "2026-01-15T09:30:00",
+        pickup_utc_offset: "+01:00",
+      });
+      expect(pickupTimes(new Date("2026-01-15T08:30:00Z"), "Mars/Olympus")).toEqual({
+        pickup_utc: "2026-01-15T08:30:00.000Z",
+        pickup_local: null,
+        pickup_utc_offset: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRestoreStatements,
+  buildSnapshotStatements,
+  restoreRows,
+  TRASH_DEFINITIONS,
+  TRASH_RESOURCES,
+  type TrashQueryClient,
+} from "../services/trash-queries.js";
+
+/**
+ * Client recording each statement; the existence check finds a row when `exists` is set
+ */
+function fakeClient(exists = false) {
+  const calls: { sql: string; params?: unknown[] }[] = [];
+  const client: TrashQueryClient = {
+    async query(sql, params) {
+      calls.push({ sql, params });
+      return { rows: exists && sql.startsWith("SELECT 1") ? [{ "?column?": 1 }] : [] };
+    },
+  };
+  return { client, calls };
+}
+
+describe("Trash Queries", () => {
+  describe("TRASH_DEFINITIONS", () => {
+    it("should snapshot a contact's notes, deal links and tasks", () => {
+      expect(TRASH_DEFINITIONS.contacts.related).toEqual([
+        { table: "contactNotes", column: "contact_id" },
+        { table: "deal_contacts", column: "contact_id" },
+        { table: "tasks", column: "contact_id" },
+      ]);
+    });
+
+    it("should snapshot a deal's notes, contact links and journey legs", () => {
+      expect(TRASH_DEFINITIONS.deals.related.map(({ table }) => table)).toEqual([
+        "dealNotes",
+        "deal_contacts",
+        "deal_journey_legs",
+      ]);
+    });
+  });
+
+  describe("buildSnapshotStatements", () => {
+    it("should lock the rep's record and read it with its label", () => {
+      const statements = buildSnapshotStatements("contacts");
+
+      expect(statements.record).toContain("SELECT to_jsonb(r) AS record, concat_ws(' ', r.first_name, r.last_name) AS label");
+      expect(statements.record).toContain("FROM contacts r");
+      expect(statements.record).toContain("WHERE r.id = $1 AND r.sales_id = $2");
+      expect(statements.record).toContain("FOR UPDATE");
+      expect(statements.deleteRecord).toBe("DELETE FROM contacts WHERE id = $1 AND sales_id = $2");
+    });
+
+    it("should read then delete each related table by its column", () => {
+      const { related } = buildSnapshotStatements("contacts");
+
+      expect(related.find(({ table }) => table === "tasks")).toEqual({
+        table: "tasks",
+        select: "SELECT to_jsonb(x) AS row FROM tasks x WHERE x.contact_id = $1",
+        delete: "DELETE FROM tasks WHERE contact_id = $1",
+      });
+      expect(related.map(({ table }) => table)).toEqual(TRASH_DEFINITIONS.contacts.related.map(({ table }) => table));
+    });
+
+    it("should have no related statements for resources without related rows", () => {
+      expect(buildSnapshotStatements("tasks").related).toEqual([]);
+      expect(buildSnapshotStatements("companies").record).toContain("r.name AS label");
+    });
+  });
+
+  describe("buildRestoreStatements", () => {
+    it("should reinsert the record with its original id", () => {
+      const statements = buildRestoreStatements("deals");
+
+      expect(statements.exists).toBe("SELECT 1 FROM deals WHERE id::text = $1");
+      expect(statements.record).toContain("INSERT INTO deals OVERRIDING SYSTEM VALUE");
+      expect(statements.record).toContain("jsonb_populate_record(NULL::deals, $1::jsonb)");
+    });
+
+    it("should reinsert related rows in definition order", () => {
+      const { related } = buildRestoreStatements("contacts");
+
+      expect(related.map(({ table }) => table)).toEqual(["contactNotes", "deal_contacts", "tasks"]);
+      expect(related[2].insert).toContain("INSERT INTO tasks OVERRIDING SYSTEM VALUE");
+      expect(related[2].insert).toContain("jsonb_populate_recordset(NULL::tasks, $1::jsonb)");
+    });
+
+    it("should build statements for every resource", () => {
+      for (const resource of TRASH_RESOURCES) {
+        expect(buildRestoreStatements(resource).related).toHaveLength(TRASH_DEFINITIONS[resource].related.length);
+        expect(buildSnapshotStatements(resource).related).toHaveLength(TRASH_DEFINITIONS[resource].related.length);
+      }
+    });
+  });
+
+  describe("restoreRows", () => {
+    const deal = { id: 42, name: "Airport run", stage: "won" };
+
+    it("should restore the record, then its related rows in definition order", async () => {
+      const { client, calls } = fakeClient();
+
+      const counts = await restoreRows(client, "deals", "42", deal, {
+        deal_journey_legs: [{ id: 5, deal_id: 42 }],
+        dealNotes: [{ id: 1, deal_id: 42 }, { id: 2, deal_id: 42 }],
+      });
+
+      expect(counts).toEqual({ dealNotes: 2, deal_contacts: 0, deal_journey_legs: 1 });
+      expect(calls.map((call) => call.sql.split(/\s/).slice(0, 3).join(" "))).toEqual([
+        "SELECT 1 FROM",
+        "SET LOCAL app.restoring_from_trash",
+        "INSERT INTO deals",
+        "INSERT INTO dealNotes",
+        "INSERT INTO deal_journey_legs",
+      ]);
+      expect(calls[2].params).toEqual([JSON.stringify(deal)]);
+    });
+
+    it("should keep the stage history trigger off while the deal is reinserted", async () => {
+      const { client, calls } = fakeClient();
+
+      await restoreRows(client, "deals", "42", deal, null);
+
+      const setting = calls.findIndex((call) => call.sql === "SET LOCAL app.restoring_from_trash = 'on'");
+      const insert = calls.findIndex((call) => call.sql.startsWith("INSERT INTO deals"));
+      expect(setting).toBeGreaterThanOrEqual(0);
+      expect(insert).toBeGreaterThan(setting);
+    });
+
+    it("should fail without inserting anything when the id already exists", async () => {
+      const { client, calls } = fakeClient(true);
+
+      await expect(restoreRows(client, "deals", "42", deal, { dealNotes: [{ id: 1 }] })).rejects.toThrow(
+        "Cannot restore: a deal with id 42 already exists"
+      );
+      expect(calls).toHaveLength(1);
+      expect(calls[0].params).toEqual(["42"]);
+    });
+  });
+});
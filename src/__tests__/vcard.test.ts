@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { formatVCard, escapeVCardText, foldLine, parseVCards, unescapeVCardText } from "../services/vcard.js";
+
+describe("vCard Formatting", () => {
+  describe("escapeVCardText", () => {
+    it("should escape backslashes, commas, semicolons and newlines", () => {
+      expect(escapeVCardText("a\\b")).toBe("a\\\\b");
+      expect(escapeVCardText("Acme, Inc.; Paris")).toBe("Acme\\, Inc.\\; Paris");
+      expect(escapeVCardText("line 1\r\nline 2\nline 3")).toBe("line 1\\nline 2\\nline 3");
+    });
+  });
+
+  describe("foldLine", () => {
+    it("should leave short lines alone", () => {
+      expect(foldLine("FN:Ada Lovelace")).toBe("FN:Ada Lovelace");
+    });
+
+    it("should fold long lines at 75 octets", () => {
+      const folded = foldLine(`NOTE:${"x".repeat(200)}`);
+      const lines = folded.split("\r\n");
+      expect(lines.length).toBeGreaterThan(1);
+      for (const line of lines) {
+        expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+      }
+      expect(lines.slice(1).every((line) => line.startsWith(" "))).toBe(true);
+      expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join("")).toBe(`NOTE:${"x".repeat(200)}`);
+    });
+
+    it("should not split multi-byte characters", () => {
+      const folded = foldLine(`NOTE:${"é".repeat(100)}`);
+      for (const line of folded.split("\r\n")) {
+        expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+        expect(line).not.toContain("�");
+      }
+    });
+  });
+
+  describe("formatVCard", () => {
+    it("should produce a vCard 4.0 card with CRLF line endings", () => {
+      const card = formatVCard({
+        id: "6f1c2b1e-8d4a-4c1f-9a57-0e3c2a1b4d5f",
+        first_name: "Ada",
+        last_name: "Lovelace",
+        title: "Analyst",
+        company_name: "Analytical Engines, Ltd",
+        email_jsonb: [{ email: "ada@example.com", type: "Work" }, { email: "ada@home.example", type: "Other" }],
+        phone_jsonb: [{ number: "+44 20 7946 0000", type: "Home" }],
+        linkedin_url: "https://www.linkedin.com/in/ada",
+      });
+
+      expect(card).toBe([
+        "BEGIN:VCARD",
+        "VERSION:4.0",
+        "UID:urn:uuid:6f1c2b1e-8d4a-4c1f-9a57-0e3c2a1b4d5f",
+        "FN:Ada Lovelace",
+        "N:Lovelace;Ada;;;",
+        "ORG:Analytical Engines\\, Ltd",
+        "TITLE:Analyst",
+        "EMAIL;TYPE=work:ada@example.com",
+        "EMAIL:ada@home.example",
+        "TEL;TYPE=home:+44 20 7946 0000",
+        "URL:https://www.linkedin.com/in/ada",
+        "END:VCARD",
+        "",
+      ].join("\r\n"));
+    });
+
+    it("should use a stable non-UUID identifier for numeric ids", () => {
+      expect(formatVCard({ id: 42, first_name: "Alan", last_name: "Turing" })).toContain("UID:atomic-crm:contact:42\r\n");
+    });
+
+    it("should skip empty fields", () => {
+      const card = formatVCard({ id: 1, first_name: "Alan", last_name: "Turing", email_jsonb: null, title: null });
+      expect(card).not.toContain("EMAIL");
+      expect(card).not.toContain("TITLE");
+      expect(card).not.toContain("ORG");
+    });
+  });
+
+  describe("unescapeVCardText", () => {
+    it("should reverse escapeVCardText", () => {
+      const text = "Acme, Inc.; Paris\nline 2 \\ done";
+      expect(unescapeVCardText(escapeVCardText(text))).toBe(text);
+    });
+  });
+
+  describe("parseVCards", () => {
+    it("should round-trip a formatted card", () => {
+      const [card] = parseVCards(formatVCard({
+        id: 1,
+        first_name: "Ada",
+        last_name: "Lovelace",
+        title: "Analyst",
+        company_name: "Analytical Engines, Ltd",
+        email_jsonb: [{ email: "ada@example.com", type: "Work" }],
+        phone_jsonb: [{ number: "+44 20 7946 0000", type: "Home" }],
+        linkedin_url: "https://www.linkedin.com/in/ada",
+        background: `Met at the fair.\n${"Long note. ".repeat(20)}`,
+      }));
+
+      expect(card).toMatchObject({
+        first_name: "Ada",
+        last_name: "Lovelace",
+        full_name: "Ada Lovelace",
+        organization: "Analytical Engines, Ltd",
+        title: "Analyst",
+        emails: [{ value: "ada@example.com", types: ["work"] }],
+        phones: [{ value: "+44 20 7946 0000", types: ["home"] }],
+        urls: ["https://www.linkedin.com/in/ada"],
+        note: `Met at the fair.\n${"Long note. ".repeat(20)}`.trim(),
+      });
+    });
+
+    it("should read several cards and vCard 2.1 style types", () => {
+      const cards = parseVCards([
+        "BEGIN:VCARD",
+        "VERSION:2.1",
+        "N:Turing;Alan",
+        "TEL;WORK;VOICE:+44 161 000",
+        "item1.EMAIL;INTERNET;PREF:alan@example.com",
+        "END:VCARD",
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Grace Hopper",
+        "ORG:Navy;Research",
+        "EMAIL;TYPE=\"home,pref\":grace@example.com",
+        "END:VCARD",
+      ].join("\n"));
+
+      expect(cards).toHaveLength(2);
+      expect(cards[0].phones).toEqual([{ value: "+44 161 000", types: ["work", "voice"] }]);
+      expect(cards[0].emails).toEqual([{ value: "alan@example.com", types: ["internet", "pref"] }]);
+      expect(cards[1].full_name).toBe("Grace Hopper");
+      expect(cards[1].first_name).toBeUndefined();
+      expect(cards[1].organization).toBe("Navy");
+      expect(cards[1].emails[0].types).toEqual(["home", "pref"]);
+    });
+
+    it("should strip tel: and mailto: URIs", () => {
+      const [card] = parseVCards("BEGIN:VCARD\r\nTEL;VALUE=uri:tel:+1-555-0100\r\nEMAIL:mailto:x@example.com\r\nEND:VCARD\r\n");
+      expect(card.phones[0].value).toBe("+1-555-0100");
+      expect(card.emails[0].value).toBe("x@example.com");
+    });
+
+    it("should ignore text outside cards and unterminated cards", () => {
+      expect(parseVCards("hello\nBEGIN:VCARD\nFN:Nobody\n")).toEqual([]);
+    });
+  });
+});
@@ -1,9 +1,47 @@
 import 'dotenv/config';
+import { parseOptionList } from './services/field-options.js';
+import type { FieldOptions } from './services/field-options.js';
+import { parseStageProbabilities, pipelineClosedStages } from './services/forecast.js';
+import type { ConflictStrictness } from './services/journey-conflicts.js';
 
 export interface Config {
   port: number;
   mcpServerUrl: string;
   databaseUrl: string;
+  query: {
+    maxRows: number;
+    statementTimeoutMs: number;
+    maxPlanCost: number;
+    maxPlanRows: number;
+  };
+  export: {
+    maxToolRows: number;
+    batchSize: number;
+  };
+  calendar: {
+    feedSecret: string | undefined;
+    feedTtlDays: number;
+  };
+  trash: {
+    retentionDays: number;
+  };
+  confirmation: {
+    secret: string | undefined;
+    ttlSeconds: number;
+  };
+  fieldOptions: FieldOptions;
+  forecast: {
+    stageProbabilities: Record<string, number>;
+    commitProbability: number;
+    bestCaseProbability: number;
+  };
+  pipeline: {
+    closedStages: string[];
+  };
+  journeys: {
+    minLegGapMinutes: number;
+    conflictStrictness: ConflictStrictness;
+  };
   supabase: {
     url: string;
     authUrl: string;
@@ -24,6 +62,11 @@ function getEnv(key: string, defaultValue: string): string {
   return process.env[key] || defaultValue;
 }
 
+function getListEnv(key: string, defaultValue: string): string[] {
+  const values = parseOptionList(process.env[key]);
+  return values.length > 0 ? values : parseOptionList(defaultValue);
+}
+
 function getCliArg(prefix: string): string | undefined {
   const arg = process.argv.find(arg => arg.startsWith(prefix));
   return arg?.substring(prefix.length);
@@ -34,10 +77,56 @@ const databaseUrl = getRequiredEnv('DATABASE_URL');
 
 const cliUrl = getCliArg('--url=');
 
+const dealStages = getListEnv('DEAL_STAGES', 'opportunity,proposal,negotiation,won,lost');
+const stageProbabilities = parseStageProbabilities(getEnv('DEAL_STAGE_PROBABILITIES', 'opportunity:10,proposal:30,negotiation:60,won:100,lost:0'));
+
 export const config: Config = {
   port: parseInt(getEnv('PORT', '3000'), 10),
   mcpServerUrl: cliUrl || getEnv('MCP_SERVER_URL', 'http://localhost:3000'),
   databaseUrl,
+  query: {
+    maxRows: parseInt(getEnv('QUERY_MAX_ROWS', '200'), 10),
+    statementTimeoutMs: parseInt(getEnv('QUERY_STATEMENT_TIMEOUT_MS', '15000'), 10),
+    maxPlanCost: parseFloat(getEnv('QUERY_MAX_PLAN_COST', '1000000')),
+    maxPlanRows: parseFloat(getEnv('QUERY_MAX_PLAN_ROWS', '1000000')),
+  },
+  export: {
+    maxToolRows: parseInt(getEnv('EXPORT_MAX_TOOL_ROWS', '2000'), 10),
+    batchSize: parseInt(getEnv('EXPORT_BATCH_SIZE', '500'), 10),
+  },
+  calendar: {
+    feedSecret: process.env.CALENDAR_FEED_SECRET || process.env.SESSION_SECRET,
+    feedTtlDays: parseInt(getEnv('CALENDAR_FEED_TTL_DAYS', '180'), 10),
+  },
+  trash: {
+    retentionDays: parseInt(getEnv('TRASH_RETENTION_DAYS', '30'), 10),
+  },
+  confirmation: {
+    secret: process.env.CONFIRMATION_SECRET || process.env.SESSION_SECRET,
+    ttlSeconds: parseInt(getEnv('CONFIRMATION_TTL_SECONDS', '300'), 10),
+  },
+  fieldOptions: {
+    dealStages,
+    dealCategories: getListEnv('DEAL_CATEGORIES', 'other,copywriting,print-project,ui-design,website-design'),
+    contactStatuses: getListEnv('CONTACT_STATUSES', 'lead,active,inactive'),
+    taskTypes: getListEnv('TASK_TYPES', 'call,email,meeting,follow_up,other'),
+    noteTypes: getListEnv('NOTE_TYPES', 'general,call,meeting,email'),
+  },
+  forecast: {
+    stageProbabilities,
+    commitProbability: parseFloat(getEnv('FORECAST_COMMIT_PROBABILITY', '60')),
+    bestCaseProbability: parseFloat(getEnv('FORECAST_BEST_CASE_PROBABILITY', '30')),
+  },
+  pipeline: {
+    // Defaults to the deal stages at 100% (won) or 0% (lost)
+    closedStages: process.env.DEAL_CLOSED_STAGES
+      ? getListEnv('DEAL_CLOSED_STAGES', '')
+      : pipelineClosedStages(dealStages, stageProbabilities),
+  },
+  journeys: {
+    minLegGapMinutes: parseInt(getEnv('JOURNEY_MIN_LEG_GAP_MINUTES', '30'), 10),
+    conflictStrictness: getEnv('JOURNEY_CONFLICT_STRICTNESS', 'warn') === 'error' ? 'error' : 'warn',
+  },
   supabase: {
     url: supabaseUrl,
     authUrl: `${supabaseUrl}/auth/v1`,
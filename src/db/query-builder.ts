@@ -5,6 +5,7 @@ import type { AuthInfo } from "../auth/jwt-validator.js";
 
 // Re-export utilities from query-utils for backward compatibility
 export {
+  ALLOWED_TABLES,
   buildInClause,
   buildSetClause,
   buildInsertStatement,
@@ -13,7 +14,13 @@ export {
   isValidColumn,
   escapeLikePattern,
   buildTsQuery,
+  buildFilterClause,
+  buildKeysetClause,
+  buildOrderByClause,
+  encodeCursor,
+  decodeCursor,
 } from "./query-utils.js";
+export type { FilterNode, FilterCondition, SortKey } from "./query-utils.js";
 
 const { Pool } = pg;
 
@@ -126,11 +133,14 @@ export async function executeParameterizedQuery(
 /**
  * Execute a raw SQL query (for schema introspection only)
  * Use with caution - no parameterization
+ * A per-statement timeout is applied so a runaway query cannot hold a pool connection
  */
 export async function executeRawQuery(
   sql: string,
-  context: QueryContext
+  context: QueryContext,
+  options: { statementTimeoutMs?: number } = {}
 ): Promise<{ success: boolean; data?: any[]; error?: string }> {
+  const statementTimeoutMs = Math.max(0, Math.floor(options.statementTimeoutMs ?? config.query.statementTimeoutMs));
   const pool = getPool();
   let client: pg.PoolClient | null = null;
 
@@ -146,6 +156,9 @@ export async function executeRawQuery(
       .replace(/'/g, "''");
     await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
 
+    // statement_timeout is an integer we computed, safe to interpolate
+    await client.query(`SET LOCAL statement_timeout = ${statementTimeoutMs}`);
+
     const result = await client.query(sql);
 
     await client.query("COMMIT");
@@ -177,6 +190,208 @@ export async function executeRawQuery(
   }
 }
 
+/**
+ * Execute a parameterized query with RLS context and hand its rows over in batches
+ *
+ * Rows are read through a server-side cursor, so large results are never held in
+ * memory at once. The statement timeout applies to each fetch.
+ *
+ * @param sql - SQL query with $1, $2, etc. placeholders
+ * @param params - Array of parameter values
+ * @param context - Authentication context
+ * @param onBatch - Called with each batch of rows and the column names; return false to stop early
+ * @param options - Rows per batch
+ * @returns Number of rows handed over
+ */
+export async function streamParameterizedQuery(
+  sql: string,
+  params: unknown[],
+  context: QueryContext,
+  onBatch: (rows: any[], columns: string[]) => Promise<boolean | void> | boolean | void,
+  options: { batchSize?: number; statementTimeoutMs?: number } = {}
+): Promise<{ success: boolean; rowCount: number; error?: string }> {
+  const batchSize = Math.max(1, Math.floor(options.batchSize ?? 500));
+  const statementTimeoutMs = Math.max(0, Math.floor(options.statementTimeoutMs ?? config.query.statementTimeoutMs));
+  const pool = getPool();
+  let client: pg.PoolClient | null = null;
+  let rowCount = 0;
+
+  try {
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    await client.query("BEGIN");
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // statement_timeout is an integer we computed, safe to interpolate
+    await client.query(`SET LOCAL statement_timeout = ${statementTimeoutMs}`);
+
+    await client.query(`DECLARE stream_cursor NO SCROLL CURSOR FOR ${sql}`, params);
+
+    while (true) {
+      const result = await client.query(`FETCH ${batchSize} FROM stream_cursor`);
+      if (result.rows.length === 0) {
+        // An empty result still reports its columns (e.g. for a CSV header)
+        if (rowCount === 0) await onBatch([], result.fields.map((field) => field.name));
+        break;
+      }
+
+      rowCount += result.rows.length;
+      const keepGoing = await onBatch(result.rows, result.fields.map((field) => field.name));
+      if (keepGoing === false || result.rows.length < batchSize) break;
+    }
+
+    await client.query("CLOSE stream_cursor");
+    await client.query("COMMIT");
+
+    return {
+      success: true,
+      rowCount,
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    const errorMessage = formatError(error);
+    console.error("Stream query error:", errorMessage);
+
+    return {
+      success: false,
+      rowCount,
+      error: errorMessage,
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+/**
+ * A statement of a batch
+ * When requiredRowError is set, a statement that affects no row fails with that message
+ */
+export interface BatchStatement {
+  sql: string;
+  params: unknown[];
+  requiredRowError?: string;
+}
+
+/**
+ * Outcome of one statement of a batch
+ */
+export interface BatchStatementResult {
+  success: boolean;
+  rows?: any[];
+  error?: string;
+}
+
+/**
+ * Execute several parameterized statements in one RLS transaction
+ *
+ * In "all_or_nothing" mode the first failure rolls back the whole batch and the
+ * remaining statements are not run. In "best_effort" mode each statement runs
+ * inside a savepoint, so a failing statement is undone on its own and the others
+ * are committed.
+ *
+ * @param statements - Statements to run in order
+ * @param context - Authentication context
+ * @param mode - Failure handling mode
+ * @returns One result per statement, and whether the transaction was committed
+ */
+export async function executeParameterizedBatch(
+  statements: BatchStatement[],
+  context: QueryContext,
+  mode: "all_or_nothing" | "best_effort"
+): Promise<{ success: boolean; committed: boolean; results: BatchStatementResult[]; error?: string }> {
+  const pool = getPool();
+  let client: pg.PoolClient | null = null;
+  const results: BatchStatementResult[] = [];
+
+  try {
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    await client.query("BEGIN");
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    for (const statement of statements) {
+      if (mode === "best_effort") {
+        await client.query("SAVEPOINT batch_statement");
+      }
+
+      try {
+        const result = await client.query(statement.sql, statement.params);
+        if (statement.requiredRowError && result.rowCount === 0) {
+          throw new Error(statement.requiredRowError);
+        }
+        if (mode === "best_effort") {
+          await client.query("RELEASE SAVEPOINT batch_statement");
+        }
+        results.push({ success: true, rows: result.rows });
+      } catch (error) {
+        results.push({ success: false, error: formatError(error) });
+
+        if (mode === "all_or_nothing") {
+          await client.query("ROLLBACK");
+          return {
+            success: false,
+            committed: false,
+            results,
+            error: `Statement ${results.length} failed, batch rolled back`,
+          };
+        }
+        await client.query("ROLLBACK TO SAVEPOINT batch_statement");
+      }
+    }
+
+    await client.query("COMMIT");
+
+    return {
+      success: results.every((result) => result.success),
+      committed: true,
+      results,
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    const errorMessage = formatError(error);
+    console.error("Batch execution error:", errorMessage);
+
+    return {
+      success: false,
+      committed: false,
+      results,
+      error: errorMessage,
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
 /**
  * Format error for consistent error messages
  */
@@ -0,0 +1,205 @@
+/**
+ * Query plan analysis utilities that don't require database connection
+ * These can be safely imported in tests without environment variables
+ */
+
+/**
+ * A node of PostgreSQL's EXPLAIN (FORMAT JSON) output
+ */
+export interface PlanNode {
+  "Node Type": string;
+  "Relation Name"?: string;
+  "Alias"?: string;
+  "Join Type"?: string;
+  "Join Filter"?: string;
+  "Hash Cond"?: string;
+  "Merge Cond"?: string;
+  "Index Cond"?: string;
+  "Total Cost": number;
+  "Plan Rows": number;
+  "Plans"?: PlanNode[];
+}
+
+/**
+ * Thresholds a plan must stay under to be executed
+ */
+export interface PlanLimits {
+  maxCost: number;
+  maxRows: number;
+}
+
+/**
+ * Result of checking a plan against the limits
+ */
+export interface PlanAssessment {
+  allowed: boolean;
+  estimatedCost: number;
+  estimatedRows: number;
+  limits: PlanLimits;
+  reasons: string[];
+  expensiveNodes: {
+    nodeType: string;
+    relation?: string;
+    estimatedRows: number;
+    totalCost: number;
+  }[];
+  suggestions: string[];
+}
+
+/**
+ * Row estimate above which a sequential scan or sort is worth pointing out
+ */
+const LARGE_NODE_ROWS = 10000;
+
+/**
+ * Maximum number of nodes reported as expensive
+ */
+const MAX_REPORTED_NODES = 5;
+
+/**
+ * Extract the root plan node from EXPLAIN (FORMAT JSON) output
+ * @param explainOutput - Value of the "QUERY PLAN" column
+ * @returns Root plan node or null if the output is not recognized
+ */
+export function extractRootPlan(explainOutput: unknown): PlanNode | null {
+  const parsed = typeof explainOutput === "string" ? safeJsonParse(explainOutput) : explainOutput;
+  const entry = Array.isArray(parsed) ? parsed[0] : parsed;
+  const plan = (entry as { Plan?: unknown } | null)?.Plan as PlanNode | undefined;
+
+  if (!plan || typeof plan["Total Cost"] !== "number" || typeof plan["Plan Rows"] !== "number") {
+    return null;
+  }
+  return plan;
+}
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flatten a plan tree into a list of nodes
+ */
+function flattenPlan(node: PlanNode): PlanNode[] {
+  return [node, ...(node.Plans || []).flatMap(flattenPlan)];
+}
+
+/**
+ * Nodes that read all of their input before returning a row, whatever reads them
+ */
+const BLOCKING_NODE_TYPES = new Set(["Sort", "Aggregate", "Hash", "SetOp"]);
+
+/**
+ * Flatten a plan tree into its nodes, each with the number of rows it will produce
+ * A Limit stops reading its input once it has enough rows, so the nodes streaming
+ * into it are counted at most at the Limit's estimate. The cap does not go past a
+ * node that reads its whole input first (a Sort under a Limit still sorts every row).
+ */
+function estimateRows(node: PlanNode, cap = Infinity): { node: PlanNode; rows: number }[] {
+  const rows = Math.min(node["Plan Rows"], cap);
+  const childCap = node["Node Type"] === "Limit"
+    ? rows
+    : BLOCKING_NODE_TYPES.has(node["Node Type"]) ? Infinity : cap;
+  return [{ node, rows }, ...(node.Plans || []).flatMap((child) => estimateRows(child, childCap))];
+}
+
+/**
+ * Relations scanned under a node, for readable messages
+ */
+function relationsUnder(node: PlanNode): string[] {
+  return [...new Set(
+    flattenPlan(node)
+      .map((child) => child["Relation Name"])
+      .filter((relation): relation is string => Boolean(relation))
+  )];
+}
+
+/**
+ * A nested loop with no join condition and no index lookup on its inner side
+ * joins every row with every row
+ */
+function isCartesianJoin(node: PlanNode): boolean {
+  if (node["Node Type"] !== "Nested Loop" || node["Join Filter"]) {
+    return false;
+  }
+  const inner = node.Plans?.[1];
+  return !inner || !flattenPlan(inner).some((child) => child["Index Cond"]);
+}
+
+/**
+ * Check an EXPLAIN plan against cost and row thresholds
+ * The cost is the estimated total cost of the root node; the row count is the
+ * largest row estimate of any node, so intermediate explosions are caught
+ * even when the final result is small. Nodes under a Limit are counted at most
+ * at the Limit's rows, as they stop once it has enough.
+ * @param explainOutput - Value of the "QUERY PLAN" column
+ * @param limits - Cost and row thresholds
+ * @returns Assessment with reasons and rewrite suggestions when rejected
+ */
+export function assessQueryPlan(explainOutput: unknown, limits: PlanLimits): PlanAssessment {
+  const root = extractRootPlan(explainOutput);
+
+  if (!root) {
+    return {
+      allowed: false,
+      estimatedCost: 0,
+      estimatedRows: 0,
+      limits,
+      reasons: ["Unable to read the query plan"],
+      expensiveNodes: [],
+      suggestions: [],
+    };
+  }
+
+  const estimates = estimateRows(root);
+  const estimatedCost = root["Total Cost"];
+  const estimatedRows = Math.max(...estimates.map(({ rows }) => rows));
+
+  const reasons: string[] = [];
+  if (estimatedCost > limits.maxCost) {
+    reasons.push(`Estimated cost ${Math.round(estimatedCost)} exceeds the limit of ${limits.maxCost}`);
+  }
+  if (estimatedRows > limits.maxRows) {
+    reasons.push(`Estimated ${Math.round(estimatedRows)} intermediate rows exceeds the limit of ${limits.maxRows}`);
+  }
+
+  const expensiveNodes = [...estimates]
+    .sort((a, b) => b.node["Total Cost"] - a.node["Total Cost"])
+    .slice(0, MAX_REPORTED_NODES)
+    .map(({ node, rows }) => ({
+      nodeType: node["Node Type"],
+      relation: node["Relation Name"],
+      estimatedRows: rows,
+      totalCost: node["Total Cost"],
+    }));
+
+  const suggestions: string[] = [];
+  if (reasons.length > 0) {
+    for (const { node, rows } of estimates) {
+      if (isCartesianJoin(node)) {
+        const relations = relationsUnder(node);
+        suggestions.push(
+          `Possible cartesian join${relations.length ? ` between ${relations.join(", ")}` : ""}: add a join condition (JOIN ... ON) linking the tables`
+        );
+      } else if (node["Node Type"] === "Seq Scan" && rows > LARGE_NODE_ROWS && node["Relation Name"]) {
+        suggestions.push(`Full scan of ${node["Relation Name"]}: add a selective WHERE clause`);
+      } else if (node["Node Type"] === "Sort" && rows > LARGE_NODE_ROWS) {
+        suggestions.push("Large sort: filter rows before ORDER BY or sort on an indexed column");
+      }
+    }
+    suggestions.push("Aggregate (COUNT, SUM, GROUP BY) instead of returning raw rows where possible");
+  }
+
+  return {
+    allowed: reasons.length === 0,
+    estimatedCost,
+    estimatedRows,
+    limits,
+    reasons,
+    expensiveNodes,
+    suggestions: [...new Set(suggestions)],
+  };
+}
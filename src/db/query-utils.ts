@@ -3,10 +3,12 @@
  * These can be safely imported in tests without environment variables
  */
 
+import { ValidationError } from "../errors/index.js";
+
 /**
  * Allowed tables for queries (whitelist)
  */
-const ALLOWED_TABLES = new Set([
+export const ALLOWED_TABLES = new Set([
   'contacts',
   'companies',
   'deals',
@@ -17,6 +19,12 @@ const ALLOWED_TABLES = new Set([
   'contact_tags',
   'deal_contacts',
   'audit_log',
+  'deleted_records',
+  'deal_stage_history',
+  // Notes and journey legs (matched case-insensitively)
+  'contactnotes',
+  'dealnotes',
+  'deal_journey_legs',
   // Summary views
   'contacts_summary',
   'companies_summary',
@@ -195,3 +203,213 @@ export function buildTsQuery(query: string): string {
   
   return words.join(' & ');
 }
+
+
+/**
+ * Maximum nesting depth of a filter tree
+ */
+const MAX_FILTER_DEPTH = 5;
+
+/**
+ * Leaf condition of a structured filter
+ */
+export type FilterCondition =
+  | { column: string; op: 'eq'; value: string | number | boolean }
+  | { column: string; op: 'in'; values: (string | number)[] }
+  | { column: string; op: 'range'; gt?: string | number; gte?: string | number; lt?: string | number; lte?: string | number }
+  | { column: string; op: 'ilike'; value: string }
+  | { column: string; op: 'is_null'; value?: boolean };
+
+/**
+ * Structured filter tree combining conditions with AND/OR
+ */
+export type FilterNode = FilterCondition | { and: FilterNode[] } | { or: FilterNode[] };
+
+/**
+ * Sort key for ordered and paginated listings
+ */
+export interface SortKey {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Compile a structured filter tree into a parameterized WHERE clause
+ * Unlike buildWhereClause, invalid columns throw instead of being skipped,
+ * because silently dropping a filter would widen the result set
+ * @param node - Filter tree to compile
+ * @param startIndex - Starting parameter index (default 1)
+ * @returns Object with clause string and params array
+ */
+export function buildFilterClause(
+  node: FilterNode,
+  startIndex: number = 1
+): { clause: string; params: unknown[] } {
+  return compileFilterNode(node, startIndex, 0);
+}
+
+function compileFilterNode(
+  node: FilterNode,
+  startIndex: number,
+  depth: number
+): { clause: string; params: unknown[] } {
+  if (depth > MAX_FILTER_DEPTH) {
+    throw new ValidationError(`Filter exceeds maximum nesting depth of ${MAX_FILTER_DEPTH}`);
+  }
+
+  if ('and' in node || 'or' in node) {
+    const operator = 'and' in node ? 'AND' : 'OR';
+    const children = 'and' in node ? node.and : node.or;
+    const parts: string[] = [];
+    const params: unknown[] = [];
+
+    for (const child of children) {
+      const compiled = compileFilterNode(child, startIndex + params.length, depth + 1);
+      if (compiled.clause) {
+        parts.push(`(${compiled.clause})`);
+        params.push(...compiled.params);
+      }
+    }
+
+    return { clause: parts.join(` ${operator} `), params };
+  }
+
+  if (!isValidColumn(node.column)) {
+    throw new ValidationError(`Invalid column name: ${node.column}`, { column: node.column });
+  }
+
+  switch (node.op) {
+    case 'eq':
+      return buildWhereClause({ [node.column]: node.value }, startIndex);
+    case 'in': {
+      if (node.values.length === 0) {
+        // An empty IN list matches nothing
+        return { clause: 'FALSE', params: [] };
+      }
+      const { placeholders, params } = buildInClause(node.values, startIndex);
+      return { clause: `${node.column} IN (${placeholders})`, params };
+    }
+    case 'range': {
+      const bounds: [string, string | number | undefined][] = [
+        ['>', node.gt],
+        ['>=', node.gte],
+        ['<', node.lt],
+        ['<=', node.lte],
+      ];
+      const parts: string[] = [];
+      const params: unknown[] = [];
+      for (const [operator, value] of bounds) {
+        if (value !== undefined) {
+          parts.push(`${node.column} ${operator} $${startIndex + params.length}`);
+          params.push(value);
+        }
+      }
+      if (parts.length === 0) {
+        throw new ValidationError(`Range filter on ${node.column} needs at least one bound`);
+      }
+      return { clause: parts.join(' AND '), params };
+    }
+    case 'ilike':
+      return {
+        clause: `${node.column} ILIKE $${startIndex}`,
+        params: [`%${escapeLikePattern(node.value)}%`],
+      };
+    case 'is_null':
+      if (node.value === false) {
+        return { clause: `${node.column} IS NOT NULL`, params: [] };
+      }
+      return buildWhereClause({ [node.column]: null }, startIndex);
+  }
+}
+
+/**
+ * Build a keyset pagination condition selecting rows strictly after a cursor
+ * Sort columns are ordered NULLS LAST, so NULL cursor values are handled explicitly
+ * @param sort - Sort keys, the last of which must be unique and non-null
+ * @param values - Cursor values, one per sort key
+ * @param startIndex - Starting parameter index (default 1)
+ * @returns Object with clause string and params array
+ */
+export function buildKeysetClause(
+  sort: SortKey[],
+  values: unknown[],
+  startIndex: number = 1
+): { clause: string; params: unknown[] } {
+  if (values.length !== sort.length) {
+    throw new ValidationError('Cursor does not match the requested sort keys');
+  }
+
+  const params: unknown[] = [];
+  const placeholder = (value: unknown): string => {
+    params.push(value);
+    return `$${startIndex + params.length - 1}`;
+  };
+
+  const alternatives: string[] = [];
+
+  sort.forEach((key, i) => {
+    if (!isValidColumn(key.column)) {
+      throw new ValidationError(`Invalid column name: ${key.column}`, { column: key.column });
+    }
+
+    // Nothing sorts after NULL except on a later key
+    if (values[i] === null) {
+      return;
+    }
+
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      parts.push(values[j] === null
+        ? `${sort[j].column} IS NULL`
+        : `${sort[j].column} = ${placeholder(values[j])}`);
+    }
+
+    const comparator = key.direction === 'desc' ? '<' : '>';
+    parts.push(`(${key.column} ${comparator} ${placeholder(values[i])} OR ${key.column} IS NULL)`);
+    alternatives.push(parts.join(' AND '));
+  });
+
+  if (alternatives.length === 0) {
+    return { clause: 'FALSE', params };
+  }
+
+  return {
+    clause: alternatives.map((alternative) => `(${alternative})`).join(' OR '),
+    params,
+  };
+}
+
+/**
+ * Build an ORDER BY clause matching buildKeysetClause semantics
+ * @param sort - Sort keys
+ * @returns ORDER BY clause without the keyword
+ */
+export function buildOrderByClause(sort: SortKey[]): string {
+  return sort
+    .filter((key) => isValidColumn(key.column))
+    .map((key) => `${key.column} ${key.direction === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`)
+    .join(', ');
+}
+
+/**
+ * Encode cursor values as an opaque continuation token
+ * @param values - Values of the sort keys of the last returned row
+ * @returns URL-safe cursor string
+ */
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a continuation token produced by encodeCursor
+ * @param cursor - Cursor string
+ * @returns Cursor values or null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): unknown[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(values) ? values : null;
+  } catch {
+    return null;
+  }
+}
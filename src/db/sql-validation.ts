@@ -3,6 +3,9 @@
  * These can be safely imported in tests without environment variables
  */
 
+import { parse, astVisitor } from "pgsql-ast-parser";
+import type { Statement } from "pgsql-ast-parser";
+
 /**
  * SQL keywords that are not allowed in user queries for security
  */
@@ -19,8 +22,156 @@ const FORBIDDEN_KEYWORDS = [
  */
 const MAX_QUERY_LENGTH = 10000;
 
+/**
+ * Statement types produced by the parser that are read-only
+ */
+const READ_ONLY_STATEMENT_TYPES = new Set([
+  'select', 'union', 'union all', 'values', 'with', 'with recursive',
+]);
+
+/**
+ * Functions that sleep, touch the filesystem, reach other servers,
+ * change server state or run arbitrary SQL strings
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  'pg_sleep', 'pg_sleep_for', 'pg_sleep_until',
+  'set_config', 'nextval', 'setval',
+  'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile',
+  'pg_switch_wal', 'pg_create_restore_point', 'pg_promote', 'pg_notify',
+  'query_to_xml', 'query_to_xml_and_xmlschema', 'query_to_xmlschema',
+  'cursor_to_xml', 'cursor_to_xmlschema',
+  'table_to_xml', 'table_to_xml_and_xmlschema', 'table_to_xmlschema',
+  'schema_to_xml', 'schema_to_xml_and_xmlschema', 'schema_to_xmlschema',
+  'database_to_xml', 'database_to_xml_and_xmlschema', 'database_to_xmlschema',
+  'txid_current', 'pg_current_xact_id',
+  // CRM functions that modify data
+  'purge_deleted_records',
+]);
+
+/**
+ * Function name prefixes covering whole families of dangerous functions
+ */
+const FORBIDDEN_FUNCTION_PREFIXES = [
+  'dblink', 'lo_', 'pg_read_', 'pg_ls_', 'pg_stat_file',
+  'pg_file_', 'pg_advisory_', 'pg_try_advisory_', 'pg_logical_',
+  'pg_replication_', 'pg_import_system_',
+];
+
+/**
+ * Relations, functions and clauses referenced by a parsed query
+ */
+interface QueryReferences {
+  tables: string[];
+  functions: string[];
+  modifyingStatements: string[];
+  hasLockingClause: boolean;
+}
+
+/**
+ * Parse SQL into statements
+ * @returns Statements, or an error message if the SQL does not parse
+ */
+function parseStatements(sql: string): { statements?: Statement[]; error?: string } {
+  try {
+    return { statements: parse(sql) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { error: message };
+  }
+}
+
+/**
+ * Remove string literals, quoted identifiers and comments from SQL
+ * Used to give precise error messages when the parser rejects a query
+ */
+function stripLiteralsAndComments(sql: string): string {
+  return sql
+    .replace(/\$([a-zA-Z_]*)\$[\s\S]*?\$\1\$/g, ' ')
+    .replace(/'(?:[^']|'')*'/g, ' ')
+    .replace(/"(?:[^"]|"")*"/g, ' ')
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ');
+}
+
+/**
+ * Walk a statement and collect what it references
+ * CTE names are scoped the way PostgreSQL resolves them, so a CTE cannot
+ * be used to hide a reference to a real table of the same name
+ */
+function collectReferences(statement: Statement): QueryReferences {
+  const references: QueryReferences = {
+    tables: [],
+    functions: [],
+    modifyingStatements: [],
+    hasLockingClause: false,
+  };
+  const scopes: Set<string>[] = [];
+
+  const visitor = astVisitor((v) => ({
+    with: (withStatement) => {
+      const declared: string[] = [];
+      for (const binding of withStatement.bind) {
+        if (!READ_ONLY_STATEMENT_TYPES.has(binding.statement.type)) {
+          references.modifyingStatements.push(binding.statement.type);
+        }
+        // A non-recursive CTE only sees the CTEs declared before it
+        scopes.push(new Set(declared));
+        v.statement(binding.statement);
+        scopes.pop();
+        declared.push(binding.alias.name);
+      }
+      scopes.push(new Set(declared));
+      v.statement(withStatement.in);
+      scopes.pop();
+      return withStatement;
+    },
+    withRecursive: (withStatement) => {
+      scopes.push(new Set([withStatement.alias.name]));
+      v.statement(withStatement.bind);
+      v.statement(withStatement.in);
+      scopes.pop();
+      return withStatement;
+    },
+    tableRef: (table) => {
+      if (!table.schema && scopes.some((scope) => scope.has(table.name))) {
+        return table;
+      }
+      references.tables.push(table.schema ? `${table.schema}.${table.name}` : table.name);
+      return table;
+    },
+    call: (call) => {
+      references.functions.push(call.function.name);
+      return v.super().call(call);
+    },
+    fromCall: (call) => {
+      references.functions.push(call.function.name);
+      return v.super().fromCall(call);
+    },
+    selection: (selection) => {
+      if (selection.for) {
+        references.hasLockingClause = true;
+      }
+      return v.super().selection(selection);
+    },
+  }));
+
+  visitor.statement(statement);
+  return references;
+}
+
+/**
+ * Check whether a function name is forbidden
+ */
+function isForbiddenFunction(name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return FORBIDDEN_FUNCTIONS.has(lowerName) ||
+    FORBIDDEN_FUNCTION_PREFIXES.some((prefix) => lowerName.startsWith(prefix));
+}
+
 /**
  * Check if SQL contains forbidden keywords
+ * This is a lexical check that also matches inside string literals;
+ * validateSqlQuery relies on the parser instead
  * @param sql - SQL query string
  * @returns Object indicating if forbidden keywords were found
  */
@@ -40,6 +191,8 @@ export function containsForbiddenKeywords(sql: string): { hasForbidden: boolean;
 
 /**
  * Validate SQL query for safety
+ * The query is parsed into an AST: only a single read-only SELECT/WITH statement
+ * is accepted, with no data-modifying CTEs, row locks or dangerous function calls
  * @param sql - SQL query string to validate
  * @returns Object indicating if query is valid and optional error message
  */
@@ -54,25 +207,53 @@ export function validateSqlQuery(sql: string): { valid: boolean; error?: string
     return { valid: false, error: `Query exceeds maximum length of ${MAX_QUERY_LENGTH} characters` };
   }
 
-  // Check for forbidden keywords
-  const { hasForbidden, keyword } = containsForbiddenKeywords(sql);
-  if (hasForbidden) {
-    return { valid: false, error: `Query contains forbidden keyword: ${keyword}` };
+  const { statements, error } = parseStatements(sql);
+
+  if (!statements) {
+    // Explain the most likely cause of the parse failure
+    const code = stripLiteralsAndComments(sql).trim();
+    if (code.replace(/;\s*$/, '').includes(';')) {
+      return { valid: false, error: "Multiple statements are not allowed" };
+    }
+    const upperCode = code.toUpperCase();
+    if (!upperCode.startsWith('SELECT') && !upperCode.startsWith('WITH')) {
+      return { valid: false, error: "Only SELECT and WITH queries are allowed" };
+    }
+    return { valid: false, error: `Unable to parse query: ${error}` };
+  }
+
+  if (statements.length === 0) {
+    return { valid: false, error: "Query cannot be empty" };
   }
 
-  // Check that query starts with SELECT or WITH (CTE)
-  const trimmedSql = sql.trim().toUpperCase();
-  if (!trimmedSql.startsWith('SELECT') && !trimmedSql.startsWith('WITH')) {
-    return { valid: false, error: "Only SELECT and WITH queries are allowed" };
+  // Reject any statement that is not read-only, wherever it appears
+  for (const statement of statements) {
+    if (!READ_ONLY_STATEMENT_TYPES.has(statement.type)) {
+      const keyword = statement.type.split(' ')[0].toUpperCase();
+      return { valid: false, error: `Query contains forbidden keyword: ${keyword}` };
+    }
   }
 
-  // Check for multiple statements (basic check for semicolons)
-  // Allow trailing semicolon but not semicolons in the middle
-  const withoutTrailingSemicolon = sql.trim().replace(/;$/, '');
-  if (withoutTrailingSemicolon.includes(';')) {
+  if (statements.length > 1) {
     return { valid: false, error: "Multiple statements are not allowed" };
   }
 
+  const references = collectReferences(statements[0]);
+
+  if (references.modifyingStatements.length > 0) {
+    const keyword = references.modifyingStatements[0].split(' ')[0].toUpperCase();
+    return { valid: false, error: `Data-modifying statements in WITH are not allowed: ${keyword}` };
+  }
+
+  if (references.hasLockingClause) {
+    return { valid: false, error: "Row locking clauses (FOR UPDATE/FOR SHARE) are not allowed" };
+  }
+
+  const forbiddenFunction = references.functions.find(isForbiddenFunction);
+  if (forbiddenFunction) {
+    return { valid: false, error: `Query calls forbidden function: ${forbiddenFunction}` };
+  }
+
   return { valid: true };
 }
 
@@ -101,6 +282,7 @@ export function sanitizeIdentifier(identifier: string): string | null {
 
 /**
  * Validate that a query only accesses allowed tables
+ * Relations are read from the parsed query, including subqueries and CTE bodies
  * @param sql - SQL query string
  * @param allowedTables - Set of allowed table names
  * @returns Object indicating if query is valid for allowed tables
@@ -109,18 +291,21 @@ export function validateTablesInQuery(
   sql: string,
   allowedTables: Set<string>
 ): { valid: boolean; invalidTables?: string[] } {
-  const upperSql = sql.toUpperCase();
-  const upperAllowed = new Set([...allowedTables].map(t => t.toUpperCase()));
-  
-  // Extract table names after FROM and JOIN keywords
-  const tablePattern = /(?:FROM|JOIN)\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi;
-  const matches = sql.matchAll(tablePattern);
+  const lowerAllowed = new Set([...allowedTables].map(t => t.toLowerCase()));
+
+  const { statements } = parseStatements(sql);
+  if (!statements) {
+    // Unparseable queries are rejected by validateSqlQuery with a better message
+    return { valid: false, invalidTables: [] };
+  }
+
   const invalidTables: string[] = [];
-  
-  for (const match of matches) {
-    const tableName = match[1].toUpperCase();
-    if (!upperAllowed.has(tableName)) {
-      invalidTables.push(match[1]);
+
+  for (const statement of statements) {
+    for (const table of collectReferences(statement).tables) {
+      if (!lowerAllowed.has(table.toLowerCase()) && !invalidTables.includes(table)) {
+        invalidTables.push(table);
+      }
     }
   }
   
@@ -6,9 +6,12 @@ import { authMiddleware } from './auth/middleware.js';
 import wellKnownRouter from './routes/well-known.js';
 import { healthRouter } from './routes/health.js';
 import { createApiDocsRouter } from './routes/api-docs.js';
+import { importRouter } from './routes/import.js';
+import { exportRouter } from './routes/export.js';
+import { calendarRouter } from './routes/calendar.js';
 import { createMcpServer } from './mcp/server.js';
 import { standardRateLimiter, writeRateLimiter, rateLimitConfig } from './middleware/rate-limiter.js';
-import { securityMiddleware, errorHandler } from './middleware/security.js';
+import { securityMiddleware, jsonBodyParser, errorHandler } from './middleware/security.js';
 import { corsMiddleware, requestIdMiddleware } from './middleware/cors.js';
 import { csrfMiddleware } from './middleware/csrf.js';
 import { initUsageTracker, closeUsageTracker } from './services/usage-tracker.js';
@@ -20,12 +23,21 @@ import { initializeCache, shutdownCache, getCache } from './services/cache.js';
 import { initializeRequestQueue, getRequestQueue } from './services/request-queue.js';
 import { initializeApm, getApm, apmMiddleware } from './services/apm.js';
 import { initializeAlerting, getAlerting } from './services/alerting.js';
+import { initializeConfirmationManager } from './services/confirmation.js';
 import type { Request, Response } from 'express';
 
 // Initialize core services
 initUsageTracker(config.databaseUrl);
 initAuditLogger();
 
+// Initialize confirmation tokens for destructive tools
+if (!config.confirmation.secret) {
+  logger.warn('CONFIRMATION_SECRET and SESSION_SECRET are not set, using a random per-process confirmation secret');
+}
+initializeConfirmationManager(config.confirmation.secret || crypto.randomUUID() + crypto.randomUUID(), {
+  expiresIn: config.confirmation.ttlSeconds,
+});
+
 // Initialize APM
 initializeApm({
   enabled: process.env.APM_ENABLED !== 'false',
@@ -61,8 +73,8 @@ app.use(apmMiddleware);
 // Apply security middleware (headers, input validation, logging)
 app.use(securityMiddleware);
 
-// Parse JSON bodies
-app.use(express.json());
+// Parse JSON bodies (the import routes parse their own, larger uploads)
+app.use(jsonBodyParser);
 
 // Health check endpoints (no rate limiting, no auth required)
 app.use('/health', healthRouter);
@@ -79,6 +91,15 @@ app.use(csrfMiddleware);
 // Well-known endpoints for OAuth discovery
 app.use('/.well-known', wellKnownRouter);
 
+// CSV import endpoint (Bearer token auth, same data access as MCP tools)
+app.use('/import', importRouter);
+
+// Streaming export endpoint (Bearer token auth, same data access as MCP tools)
+app.use('/export', exportRouter);
+
+// Calendar feeds (feed token in the URL, for calendar app subscriptions)
+app.use('/calendar', calendarRouter);
+
 // Session storage for MCP transports
 const transports: Map<string, { transport: StreamableHTTPServerTransport; userToken: string }> = new Map();
 
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { executeParameterizedQuery } from "../../db/query-builder.js";
+import { deal_resource } from "../resources/deal.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Argument schema for the follow-up drafting prompt
+ * MCP prompt arguments are always strings
+ */
+const DraftFollowUpArgs = {
+  deal_id: z.string().min(1).max(100).describe("ID of the deal to follow up on"),
+  tone: z.string().max(50).optional().describe("Tone of the message (e.g. formal, friendly)"),
+};
+
+/**
+ * Loads the deal and its recent notes for drafting a follow-up
+ */
+async function loadFollowUpContext(
+  dealId: string,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const dealResult = await deal_resource.read(dealId, context);
+
+  if (!dealResult.success) {
+    return dealResult;
+  }
+
+  const notesResult = await executeParameterizedQuery(
+    `SELECT text, type, created_at
+     FROM dealNotes
+     WHERE deal_id = $1
+     ORDER BY created_at DESC
+     LIMIT 10`,
+    [dealId],
+    context
+  );
+
+  return {
+    success: true,
+    data: {
+      deal: dealResult.data,
+      recent_notes: notesResult.data || [],
+    },
+  };
+}
+
+export const draft_follow_up = {
+  definition: {
+    title: "Draft follow-up",
+    description: "Draft a follow-up email for a deal based on its stage, contacts and latest notes.",
+    argsSchema: DraftFollowUpArgs,
+  },
+  handler: async (args: { deal_id: string; tone?: string }, context: McpContext) => {
+    const result = await loadFollowUpContext(args.deal_id, context);
+
+    if (!result.success) {
+      throw new Error(`Unable to draft follow-up: ${result.error}`);
+    }
+
+    return {
+      description: `Follow-up draft for deal ${args.deal_id}`,
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text: `Draft a follow-up email for the deal below${args.tone ? ` in a ${args.tone} tone` : ""}.
+- Address the primary contact of the deal
+- Reference what was discussed in the most recent notes
+- Propose a concrete next step that fits the deal's current stage
+- Keep it under 150 words and do not invent facts that are not in the data
+Amounts are stored in cents.
+
+CRM data:
+${JSON.stringify(result.data, null, 2)}`,
+          },
+        },
+      ],
+    };
+  },
+};
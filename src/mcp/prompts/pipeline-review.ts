@@ -0,0 +1,113 @@
+import { executeParameterizedQuery } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Loads the open pipeline, last week's movements and overdue tasks
+ */
+async function loadPipelineContext(
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const stagesResult = await executeParameterizedQuery(
+    `SELECT
+      stage,
+      COUNT(*) as count,
+      COALESCE(SUM(amount), 0) as total_amount
+    FROM deals
+    WHERE archived_at IS NULL
+    GROUP BY stage
+    ORDER BY count DESC`,
+    [],
+    context
+  );
+
+  if (!stagesResult.success) {
+    return {
+      success: false,
+      error: stagesResult.error || "Failed to load pipeline",
+    };
+  }
+
+  const recentDealsResult = await executeParameterizedQuery(
+    `SELECT id, name, stage, amount, company_name, expected_closing_date, updated_at
+     FROM deals
+     WHERE archived_at IS NULL
+       AND updated_at >= NOW() - INTERVAL '7 days'
+     ORDER BY updated_at DESC
+     LIMIT 25`,
+    [],
+    context
+  );
+
+  const closingSoonResult = await executeParameterizedQuery(
+    `SELECT id, name, stage, amount, company_name, expected_closing_date
+     FROM deals
+     WHERE archived_at IS NULL
+       AND expected_closing_date IS NOT NULL
+       AND expected_closing_date <= NOW() + INTERVAL '30 days'
+     ORDER BY expected_closing_date ASC
+     LIMIT 25`,
+    [],
+    context
+  );
+
+  const overdueTasksResult = await executeParameterizedQuery(
+    `SELECT id, title, type, due_date, deal_id, contact_id
+     FROM tasks
+     WHERE status NOT IN ('done', 'completed', 'cancelled')
+       AND due_date < NOW()
+     ORDER BY due_date ASC
+     LIMIT 25`,
+    [],
+    context
+  );
+
+  return {
+    success: true,
+    data: {
+      stages: stagesResult.data?.map((row: any) => ({
+        stage: row.stage,
+        count: parseInt(row.count),
+        total_amount: parseFloat(row.total_amount || "0"),
+      })) || [],
+      updated_last_7_days: recentDealsResult.data || [],
+      closing_next_30_days: closingSoonResult.data || [],
+      overdue_tasks: overdueTasksResult.data || [],
+    },
+  };
+}
+
+export const weekly_pipeline_review = {
+  definition: {
+    title: "Weekly pipeline review",
+    description: "Review the open pipeline: stage totals, deals that moved this week, deals closing soon and overdue tasks.",
+    argsSchema: {},
+  },
+  handler: async (_args: {}, context: McpContext) => {
+    const result = await loadPipelineContext(context);
+
+    if (!result.success) {
+      throw new Error(`Unable to prepare pipeline review: ${result.error}`);
+    }
+
+    return {
+      description: "Weekly pipeline review",
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text: `Run my weekly pipeline review using only the CRM data below. Amounts are in cents; present them in currency units.
+1. Summarize the pipeline by stage (count and value)
+2. Call out deals that moved or were updated this week
+3. List deals expected to close in the next 30 days and flag any that look at risk
+4. List overdue tasks that need attention
+5. Finish with the three most important actions for this week
+
+CRM data:
+${JSON.stringify(result.data, null, 2)}`,
+          },
+        },
+      ],
+    };
+  },
+};
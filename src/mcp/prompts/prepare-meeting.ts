@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { executeParameterizedQuery } from "../../db/query-builder.js";
+import { contact_resource } from "../resources/contact.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Argument schema for the meeting preparation prompt
+ * MCP prompt arguments are always strings
+ */
+const PrepareMeetingArgs = {
+  contact_id: z.string().min(1).max(100).describe("ID of the contact you are meeting"),
+};
+
+/**
+ * Loads the contact, recent notes, open tasks and deals for a meeting brief
+ */
+async function loadMeetingContext(
+  contactId: string,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const contactResult = await contact_resource.read(contactId, context);
+
+  if (!contactResult.success) {
+    return contactResult;
+  }
+
+  const notesResult = await executeParameterizedQuery(
+    `SELECT text, type, created_at
+     FROM contactNotes
+     WHERE contact_id = $1
+     ORDER BY created_at DESC
+     LIMIT 10`,
+    [contactId],
+    context
+  );
+
+  const tasksResult = await executeParameterizedQuery(
+    `SELECT title, type, status, priority, due_date
+     FROM tasks
+     WHERE contact_id = $1
+       AND status NOT IN ('done', 'completed', 'cancelled')
+     ORDER BY due_date ASC NULLS LAST
+     LIMIT 10`,
+    [contactId],
+    context
+  );
+
+  const dealsResult = await executeParameterizedQuery(
+    `SELECT id, name, stage, amount, expected_closing_date
+     FROM deals
+     WHERE $1 = ANY(contact_ids)
+       AND archived_at IS NULL
+     ORDER BY updated_at DESC NULLS LAST
+     LIMIT 10`,
+    [contactId],
+    context
+  );
+
+  return {
+    success: true,
+    data: {
+      contact: contactResult.data,
+      recent_notes: notesResult.data || [],
+      open_tasks: tasksResult.data || [],
+      active_deals: dealsResult.data || [],
+    },
+  };
+}
+
+export const prepare_meeting = {
+  definition: {
+    title: "Prepare for meeting",
+    description: "Brief me before a meeting with a contact: who they are, recent interactions, open tasks and active deals.",
+    argsSchema: PrepareMeetingArgs,
+  },
+  handler: async (args: { contact_id: string }, context: McpContext) => {
+    const result = await loadMeetingContext(args.contact_id, context);
+
+    if (!result.success) {
+      throw new Error(`Unable to prepare meeting brief: ${result.error}`);
+    }
+
+    return {
+      description: `Meeting preparation for contact ${args.contact_id}`,
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text: `I have a meeting coming up with the contact below. Using only the CRM data provided, prepare a short briefing with:
+1. Who they are (role, company, how long we have known them)
+2. A summary of our recent interactions from the notes
+3. Open tasks I should close or mention
+4. Active deals, their stage and amount (amounts are in cents)
+5. Three suggested talking points and one question to ask
+
+CRM data:
+${JSON.stringify(result.data, null, 2)}`,
+          },
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,125 @@
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum number of companies advertised by the resource list endpoint
+ */
+const LIST_LIMIT = 50;
+
+/**
+ * Lists companies by name as attachable resources
+ */
+async function listCompanies(
+  context: McpContext
+): Promise<{ success: boolean; data?: any[]; error?: string }> {
+  if (!isValidTable("companies")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const result = await executeParameterizedQuery(
+    `SELECT id, name, industry
+     FROM companies
+     ORDER BY name ASC
+     LIMIT $1`,
+    [LIST_LIMIT],
+    context
+  );
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Failed to list companies",
+    };
+  }
+
+  return {
+    success: true,
+    data: (result.data || []).map((row: any) => ({
+      uri: `crm://companies/${row.id}`,
+      name: row.name,
+      description: row.industry || undefined,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+/**
+ * Reads a single company with its contact and deal counts
+ */
+async function readCompany(
+  id: string,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  if (!isValidTable("companies") || !isValidTable("contacts") || !isValidTable("deals")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const result = await executeParameterizedQuery(
+    `SELECT
+      co.id,
+      co.name,
+      co.website,
+      co.phone,
+      co.address,
+      co.city,
+      co.state,
+      co.country,
+      co.zip_code,
+      co.industry,
+      co.size,
+      co.revenue,
+      co.description,
+      co.linkedin_url,
+      co.created_at,
+      (SELECT COUNT(*) FROM contacts c WHERE c.company_id = co.id) as contact_count,
+      (SELECT COUNT(*) FROM deals d WHERE d.company_id = co.id AND d.archived_at IS NULL) as active_deal_count
+    FROM companies co
+    WHERE co.id = $1`,
+    [id],
+    context
+  );
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Failed to read company",
+    };
+  }
+
+  if (!result.data?.length) {
+    return {
+      success: false,
+      error: "Company not found or access denied",
+    };
+  }
+
+  const row = result.data[0];
+
+  return {
+    success: true,
+    data: {
+      ...row,
+      contact_count: parseInt(row.contact_count || "0"),
+      active_deal_count: parseInt(row.active_deal_count || "0"),
+    },
+  };
+}
+
+export const company_resource = {
+  uriTemplate: "crm://companies/{id}",
+  definition: {
+    title: "CRM Company",
+    description: `A company from the Atomic CRM, including address, industry and how many contacts and active deals it has.
+
+Attach a company to pin its details into the conversation instead of re-querying it. Row Level Security applies, so only companies the authenticated user can see are listed or readable.`,
+    mimeType: "application/json",
+  },
+  list: listCompanies,
+  read: readCompany,
+};
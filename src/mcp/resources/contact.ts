@@ -0,0 +1,140 @@
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum number of contacts advertised by the resource list endpoint
+ */
+const LIST_LIMIT = 50;
+
+/**
+ * Lists the most recently seen contacts as attachable resources
+ */
+async function listContacts(
+  context: McpContext
+): Promise<{ success: boolean; data?: any[]; error?: string }> {
+  if (!isValidTable("contacts")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const result = await executeParameterizedQuery(
+    `SELECT id, first_name, last_name, title
+     FROM contacts
+     ORDER BY last_seen DESC NULLS LAST
+     LIMIT $1`,
+    [LIST_LIMIT],
+    context
+  );
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Failed to list contacts",
+    };
+  }
+
+  return {
+    success: true,
+    data: (result.data || []).map((row: any) => ({
+      uri: `crm://contacts/${row.id}`,
+      name: `${row.first_name} ${row.last_name}`,
+      description: row.title || undefined,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+/**
+ * Reads a single contact with its company and sales rep
+ */
+async function readContact(
+  id: string,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  if (!isValidTable("contacts") || !isValidTable("companies")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const result = await executeParameterizedQuery(
+    `SELECT
+      c.id,
+      c.first_name,
+      c.last_name,
+      c.title,
+      c.email_jsonb,
+      c.phone_jsonb,
+      c.status,
+      c.background,
+      c.linkedin_url,
+      c.tags,
+      c.first_seen,
+      c.last_seen,
+      co.id as company_id,
+      co.name as company_name,
+      s.first_name as sales_first_name,
+      s.last_name as sales_last_name
+    FROM contacts c
+    LEFT JOIN companies co ON c.company_id = co.id
+    LEFT JOIN sales s ON c.sales_id = s.id
+    WHERE c.id = $1`,
+    [id],
+    context
+  );
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Failed to read contact",
+    };
+  }
+
+  if (!result.data?.length) {
+    return {
+      success: false,
+      error: "Contact not found or access denied",
+    };
+  }
+
+  const row = result.data[0];
+
+  return {
+    success: true,
+    data: {
+      id: row.id,
+      first_name: row.first_name,
+      last_name: row.last_name,
+      title: row.title,
+      emails: row.email_jsonb || [],
+      phones: row.phone_jsonb || [],
+      status: row.status,
+      background: row.background,
+      linkedin_url: row.linkedin_url,
+      tags: row.tags || [],
+      company: row.company_id ? {
+        id: row.company_id,
+        name: row.company_name,
+      } : null,
+      sales_rep: row.sales_first_name ? `${row.sales_first_name} ${row.sales_last_name}` : null,
+      first_seen: row.first_seen,
+      last_seen: row.last_seen,
+    },
+  };
+}
+
+export const contact_resource = {
+  uriTemplate: "crm://contacts/{id}",
+  definition: {
+    title: "CRM Contact",
+    description: `A contact from the Atomic CRM, including emails, phones, company and sales rep.
+
+Attach a contact to pin its details into the conversation instead of re-querying it. Row Level Security applies, so only contacts the authenticated user can see are listed or readable.`,
+    mimeType: "application/json",
+  },
+  list: listContacts,
+  read: readContact,
+};
@@ -0,0 +1,155 @@
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum number of deals advertised by the resource list endpoint
+ */
+const LIST_LIMIT = 50;
+
+/**
+ * Lists active deals as attachable resources
+ */
+async function listDeals(
+  context: McpContext
+): Promise<{ success: boolean; data?: any[]; error?: string }> {
+  if (!isValidTable("deals")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const result = await executeParameterizedQuery(
+    `SELECT id, name, stage, company_name
+     FROM deals
+     WHERE archived_at IS NULL
+     ORDER BY updated_at DESC NULLS LAST
+     LIMIT $1`,
+    [LIST_LIMIT],
+    context
+  );
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error || "Failed to list deals",
+    };
+  }
+
+  return {
+    success: true,
+    data: (result.data || []).map((row: any) => ({
+      uri: `crm://deals/${row.id}`,
+      name: row.name,
+      description: [row.stage, row.company_name].filter(Boolean).join(" - ") || undefined,
+      mimeType: "application/json",
+    })),
+  };
+}
+
+/**
+ * Reads a single deal with its company and associated contacts
+ */
+async function readDeal(
+  id: string,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  if (!isValidTable("deals") || !isValidTable("contacts")) {
+    return {
+      success: false,
+      error: "Invalid table configuration",
+    };
+  }
+
+  const dealResult = await executeParameterizedQuery(
+    `SELECT
+      d.id,
+      d.name,
+      d.stage,
+      d.category,
+      d.amount,
+      d.description,
+      d.expected_closing_date,
+      d.company_id,
+      d.company_name,
+      d.contact_ids,
+      d.archived_at,
+      d.created_at,
+      d.updated_at,
+      s.first_name as sales_first_name,
+      s.last_name as sales_last_name
+    FROM deals d
+    LEFT JOIN sales s ON d.sales_id = s.id
+    WHERE d.id = $1`,
+    [id],
+    context
+  );
+
+  if (!dealResult.success) {
+    return {
+      success: false,
+      error: dealResult.error || "Failed to read deal",
+    };
+  }
+
+  if (!dealResult.data?.length) {
+    return {
+      success: false,
+      error: "Deal not found or access denied",
+    };
+  }
+
+  const row = dealResult.data[0];
+
+  // Resolve associated contacts so the deal is useful on its own
+  let contacts: any[] = [];
+  if (row.contact_ids?.length) {
+    const contactsResult = await executeParameterizedQuery(
+      `SELECT id, first_name, last_name, title FROM contacts WHERE id = ANY($1)`,
+      [row.contact_ids],
+      context
+    );
+    contacts = contactsResult.data?.map((contact: any) => ({
+      id: contact.id,
+      name: `${contact.first_name} ${contact.last_name}`,
+      title: contact.title,
+      uri: `crm://contacts/${contact.id}`,
+    })) || [];
+  }
+
+  return {
+    success: true,
+    data: {
+      id: row.id,
+      name: row.name,
+      stage: row.stage,
+      category: row.category,
+      amount: row.amount,
+      description: row.description,
+      expected_closing_date: row.expected_closing_date,
+      company: row.company_id ? {
+        id: row.company_id,
+        name: row.company_name,
+        uri: `crm://companies/${row.company_id}`,
+      } : null,
+      contacts,
+      sales_rep: row.sales_first_name ? `${row.sales_first_name} ${row.sales_last_name}` : null,
+      archived_at: row.archived_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    },
+  };
+}
+
+export const deal_resource = {
+  uriTemplate: "crm://deals/{id}",
+  definition: {
+    title: "CRM Deal",
+    description: `A deal from the Atomic CRM, including stage, amount (in cents), company and associated contacts.
+
+Attach a deal to pin it into the conversation instead of re-querying it on every turn. Row Level Security applies, so only deals the authenticated user can see are listed or readable.`,
+    mimeType: "application/json",
+  },
+  list: listDeals,
+  read: readDeal,
+};
@@ -1,9 +1,11 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 
 import { get_schema } from "./tools/get-schema.js";
 import { query } from "./tools/query.js";
 import { create_contact } from "./tools/create-contact.js";
 import { search_contacts } from "./tools/search-contacts.js";
+import { list_records } from "./tools/list-records.js";
+import { search_crm } from "./tools/search-crm.js";
 import { get_summary } from "./tools/get-summary.js";
 import { create_deal } from "./tools/create-deal.js";
 import { create_task } from "./tools/create-task.js";
@@ -22,6 +24,34 @@ import { create_deal_journey_leg } from "./tools/create-journey-leg.js";
 import { update_deal_journey_leg } from "./tools/update-journey-leg.js";
 import { delete_deal_journey_leg } from "./tools/delete-journey-leg.js";
 import { reorder_deal_journey_leg } from "./tools/reorder-journey-leg.js";
+import { check_journey_conflicts } from "./tools/check-journey-conflicts.js";
+import { duplicate_journey_legs } from "./tools/duplicate-journey-legs.js";
+import { create_return_trip } from "./tools/create-return-trip.js";
+import { generate_itinerary } from "./tools/generate-itinerary.js";
+import { get_dispatch_schedule } from "./tools/get-dispatch-schedule.js";
+import { move_deal } from "./tools/move-deal.js";
+import { find_duplicate_contacts } from "./tools/find-duplicate-contacts.js";
+import { merge_contacts } from "./tools/merge-contacts.js";
+import { merge_companies } from "./tools/merge-companies.js";
+import { bulk_create_contacts } from "./tools/bulk-create-contacts.js";
+import { bulk_create_tasks } from "./tools/bulk-create-tasks.js";
+import { bulk_update_deals } from "./tools/bulk-update-deals.js";
+import { import_csv } from "./tools/import-csv.js";
+import { export_records } from "./tools/export-records.js";
+import { import_vcard } from "./tools/import-vcard.js";
+import { get_tasks_calendar } from "./tools/get-tasks-calendar.js";
+import { list_deleted } from "./tools/list-deleted.js";
+import { restore_record } from "./tools/restore-record.js";
+import { get_deal_history } from "./tools/get-deal-history.js";
+import { pipeline_velocity } from "./tools/pipeline-velocity.js";
+import { list_field_options } from "./tools/list-field-options.js";
+import { forecast_revenue } from "./tools/forecast-revenue.js";
+import { contact_resource } from "./resources/contact.js";
+import { company_resource } from "./resources/company.js";
+import { deal_resource } from "./resources/deal.js";
+import { prepare_meeting } from "./prompts/prepare-meeting.js";
+import { weekly_pipeline_review } from "./prompts/pipeline-review.js";
+import { draft_follow_up } from "./prompts/draft-follow-up.js";
 import { recordUsage, sanitizeParams } from "../services/usage-tracker.js";
 import type { AuthInfo } from "../auth/jwt-validator.js";
 
@@ -33,7 +63,7 @@ export interface McpContext {
 export function createMcpServer(context: McpContext) {
   const server = new McpServer(
     { name: "atomic-crm", version: "1.0.0" },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
   );
 
   // Register all tools
@@ -42,8 +72,21 @@ export function createMcpServer(context: McpContext) {
     get_schema, 
     query, 
     search_contacts, 
+    search_crm,
+    list_records,
     get_summary,
     get_deal_journey_legs,
+    check_journey_conflicts,
+    generate_itinerary,
+    get_dispatch_schedule,
+    find_duplicate_contacts,
+    export_records,
+    get_tasks_calendar,
+    list_deleted,
+    get_deal_history,
+    pipeline_velocity,
+    list_field_options,
+    forecast_revenue,
     // Create operations
     create_contact,
     create_deal,
@@ -51,20 +94,33 @@ export function createMcpServer(context: McpContext) {
     create_company,
     create_note,
     create_deal_journey_leg,
+    duplicate_journey_legs,
+    create_return_trip,
+    bulk_create_contacts,
+    bulk_create_tasks,
+    import_csv,
+    import_vcard,
     // Update operations
     update_contact,
     update_deal,
     update_task,
     update_company,
     update_deal_journey_leg,
+    bulk_update_deals,
     // Delete operations
     delete_contact,
     delete_deal,
     delete_task,
     delete_company,
     delete_deal_journey_leg,
+    // Restore operations
+    restore_record,
     // Reorder operations
     reorder_deal_journey_leg,
+    move_deal,
+    // Merge operations
+    merge_contacts,
+    merge_companies,
   };
   
   for (const [name, tool] of Object.entries(tools)) {
@@ -114,5 +170,58 @@ export function createMcpServer(context: McpContext) {
     });
   }
 
+  // Register all prompts
+  const prompts = {
+    prepare_meeting,
+    weekly_pipeline_review,
+    draft_follow_up,
+  };
+
+  for (const [name, prompt] of Object.entries(prompts)) {
+    server.registerPrompt(name, prompt.definition, async (args: any) => {
+      return prompt.handler(args, context);
+    });
+  }
+
+  // Register all resources
+  const resources = {
+    contact: contact_resource,
+    company: company_resource,
+    deal: deal_resource,
+  };
+
+  for (const [name, resource] of Object.entries(resources)) {
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: async () => {
+        const result = await resource.list(context);
+        if (!result.success) {
+          // Don't break resources/list for every template when one fails
+          console.error(`Failed to list ${name} resources:`, result.error);
+          return { resources: [] };
+        }
+        return { resources: result.data || [] };
+      },
+    });
+
+    server.registerResource(name, template, resource.definition, async (uri, variables) => {
+      const id = Array.isArray(variables.id) ? variables.id[0] : variables.id;
+      const result = await resource.read(id, context);
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to read ${uri.href}`);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    });
+  }
+
   return server;
 }
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { executeParameterizedQuery, executeParameterizedBatch, isValidTable } from "../../db/query-builder.js";
+import type { BatchStatement } from "../../db/query-builder.js";
+import { CreateContactSchema, buildContactInsert } from "./create-contact.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for creating contacts in bulk
+ * Rows are validated one by one so a bad row is reported instead of rejecting the call
+ */
+const BulkCreateContactsSchema = z.object({
+  rows: z.array(z.record(z.string(), z.unknown())).min(1).max(500).describe("Contacts to create, each with the same fields as create_contact"),
+  mode: z.enum(["all_or_nothing", "best_effort"]).default("all_or_nothing").describe("all_or_nothing: any failure cancels every row; best_effort: keep the rows that succeed"),
+});
+
+/**
+ * Creates many contacts in a single transaction with a per-row report
+ */
+async function bulkCreateContacts(
+  params: z.infer<typeof BulkCreateContactsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table name
+    if (!isValidTable("sales") || !isValidTable("contacts")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Validate every row with the create_contact schema
+    const parsed = params.rows.map((row) => CreateContactSchema.safeParse(row));
+    const report: { row: number; success: boolean; id?: unknown; error?: string }[] = parsed.map((result, index) => (
+      result.success
+        ? { row: index, success: false }
+        : { row: index, success: false, error: result.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ") }
+    ));
+    const validIndexes = parsed.flatMap((result, index) => (result.success ? [index] : []));
+
+    if (params.mode === "all_or_nothing" && validIndexes.length < params.rows.length) {
+      return {
+        success: false,
+        data: {
+          mode: params.mode,
+          committed: false,
+          created: 0,
+          failed: params.rows.length - validIndexes.length,
+          rows: report.filter((row) => row.error),
+        },
+        error: "Some rows are invalid, nothing was created",
+      };
+    }
+
+    // Get the sales_id once for every row
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const salesId = salesResult.data[0].id;
+
+    const statements: BatchStatement[] = validIndexes.map((index) => {
+      const row = parsed[index] as { success: true; data: z.infer<typeof CreateContactSchema> };
+      return buildContactInsert(row.data, salesId);
+    });
+
+    const batch = await executeParameterizedBatch(statements, context, params.mode);
+
+    batch.results.forEach((result, position) => {
+      const index = validIndexes[position];
+      report[index] = result.success
+        ? { row: index, success: batch.committed, id: result.rows?.[0]?.id, ...(batch.committed ? {} : { error: "Rolled back" }) }
+        : { row: index, success: false, error: result.error };
+    });
+    for (const index of validIndexes.slice(batch.results.length)) {
+      report[index] = { row: index, success: false, error: "Not attempted, batch rolled back" };
+    }
+
+    const created = batch.committed ? report.filter((row) => row.success).length : 0;
+
+    console.log(`Bulk contacts created: ${created}/${params.rows.length} by user ${context.authInfo.userId}`);
+
+    return {
+      success: batch.committed,
+      data: {
+        mode: params.mode,
+        committed: batch.committed,
+        created,
+        failed: params.rows.length - created,
+        rows: report,
+      },
+      error: batch.committed ? undefined : batch.error,
+    };
+  } catch (error) {
+    console.error("Bulk create contacts error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const bulk_create_contacts = {
+  definition: {
+    description: `Create many contacts in the Atomic CRM in one call.
+
+Use this tool instead of calling create_contact repeatedly, e.g. to import a trade-show list. All rows are written in a single transaction.
+
+Required fields:
+- rows: Array of contacts (max 500). Each row takes the same fields as create_contact (first_name, last_name, email, phone, title, company_id, ...)
+
+Optional fields:
+- mode: "all_or_nothing" (default) creates nothing if any row is invalid or fails; "best_effort" creates the rows that succeed and reports the others
+
+The response has one entry per row with its index, success, the new contact id, or the error.
+
+Example:
+- { "rows": [{ "first_name": "Ada", "last_name": "Lovelace", "email": "ada@example.com" }, { "first_name": "Alan", "last_name": "Turing" }], "mode": "best_effort" }`,
+    inputSchema: BulkCreateContactsSchema,
+  },
+  handler: async (params: z.infer<typeof BulkCreateContactsSchema>, context: McpContext) => {
+    const result = await bulkCreateContacts(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Contacts created:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error creating contacts: ${result.error}${result.data ? `\n${JSON.stringify(result.data, null, 2)}` : ""}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
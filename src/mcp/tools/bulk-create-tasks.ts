@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { executeParameterizedQuery, executeParameterizedBatch, isValidTable } from "../../db/query-builder.js";
+import type { BatchStatement } from "../../db/query-builder.js";
+import { CreateTaskSchema, buildTaskInsert } from "./create-task.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for creating tasks in bulk
+ * Rows are validated one by one so a bad row is reported instead of rejecting the call
+ */
+const BulkCreateTasksSchema = z.object({
+  rows: z.array(z.record(z.string(), z.unknown())).min(1).max(500).describe("Tasks to create, each with the same fields as create_task"),
+  mode: z.enum(["all_or_nothing", "best_effort"]).default("all_or_nothing").describe("all_or_nothing: any failure cancels every row; best_effort: keep the rows that succeed"),
+});
+
+/**
+ * Creates many tasks in a single transaction with a per-row report
+ */
+async function bulkCreateTasks(
+  params: z.infer<typeof BulkCreateTasksSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table name
+    if (!isValidTable("sales") || !isValidTable("tasks")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Validate every row with the create_task schema
+    const parsed = params.rows.map((row) => CreateTaskSchema.safeParse(row));
+    const report: { row: number; success: boolean; id?: unknown; error?: string }[] = parsed.map((result, index) => (
+      result.success
+        ? { row: index, success: false }
+        : { row: index, success: false, error: result.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ") }
+    ));
+    const validIndexes = parsed.flatMap((result, index) => (result.success ? [index] : []));
+
+    if (params.mode === "all_or_nothing" && validIndexes.length < params.rows.length) {
+      return {
+        success: false,
+        data: {
+          mode: params.mode,
+          committed: false,
+          created: 0,
+          failed: params.rows.length - validIndexes.length,
+          rows: report.filter((row) => row.error),
+        },
+        error: "Some rows are invalid, nothing was created",
+      };
+    }
+
+    // Get the sales_id once for every row
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const salesId = salesResult.data[0].id;
+
+    const statements: BatchStatement[] = validIndexes.map((index) => {
+      const row = parsed[index] as { success: true; data: z.infer<typeof CreateTaskSchema> };
+      return buildTaskInsert(row.data, salesId);
+    });
+
+    const batch = await executeParameterizedBatch(statements, context, params.mode);
+
+    batch.results.forEach((result, position) => {
+      const index = validIndexes[position];
+      report[index] = result.success
+        ? { row: index, success: batch.committed, id: result.rows?.[0]?.id, ...(batch.committed ? {} : { error: "Rolled back" }) }
+        : { row: index, success: false, error: result.error };
+    });
+    for (const index of validIndexes.slice(batch.results.length)) {
+      report[index] = { row: index, success: false, error: "Not attempted, batch rolled back" };
+    }
+
+    const created = batch.committed ? report.filter((row) => row.success).length : 0;
+
+    console.log(`Bulk tasks created: ${created}/${params.rows.length} by user ${context.authInfo.userId}`);
+
+    return {
+      success: batch.committed,
+      data: {
+        mode: params.mode,
+        committed: batch.committed,
+        created,
+        failed: params.rows.length - created,
+        rows: report,
+      },
+      error: batch.committed ? undefined : batch.error,
+    };
+  } catch (error) {
+    console.error("Bulk create tasks error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const bulk_create_tasks = {
+  definition: {
+    description: `Create many tasks in the Atomic CRM in one call.
+
+Use this tool instead of calling create_task repeatedly, e.g. to schedule follow-ups for every contact met at an event. All rows are written in a single transaction.
+
+Required fields:
+- rows: Array of tasks (max 500). Each row takes the same fields as create_task (title, description, contact_id, company_id, deal_id, due_date, status, priority, type)
+
+Optional fields:
+- mode: "all_or_nothing" (default) creates nothing if any row is invalid or fails; "best_effort" creates the rows that succeed and reports the others
+
+The response has one entry per row with its index, success, the new task id, or the error.
+
+Example:
+- { "rows": [{ "title": "Send brochure", "contact_id": "uuid-here", "due_date": "2026-11-02", "type": "email" }, { "title": "Call back", "deal_id": 42, "type": "call" }] }`,
+    inputSchema: BulkCreateTasksSchema,
+  },
+  handler: async (params: z.infer<typeof BulkCreateTasksSchema>, context: McpContext) => {
+    const result = await bulkCreateTasks(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Tasks created:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error creating tasks: ${result.error}${result.data ? `\n${JSON.stringify(result.data, null, 2)}` : ""}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { executeParameterizedQuery, executeParameterizedBatch, isValidTable } from "../../db/query-builder.js";
+import type { BatchStatement } from "../../db/query-builder.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { UpdateDealSchema, buildDealUpdate } from "./update-deal.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Row schema: the update_deal fields, without contact associations
+ */
+const BulkDealRowSchema = UpdateDealSchema.omit({ contact_ids: true });
+
+/**
+ * Input schema for updating deals in bulk
+ * Rows are validated one by one so a bad row is reported instead of rejecting the call
+ */
+const BulkUpdateDealsSchema = z.object({
+  rows: z.array(z.record(z.string(), z.unknown())).min(1).max(500).describe("Deal updates, each with an id and the update_deal fields to change"),
+  mode: z.enum(["all_or_nothing", "best_effort"]).default("all_or_nothing").describe("all_or_nothing: any failure cancels every row; best_effort: keep the rows that succeed"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the changes first"),
+});
+
+/**
+ * Describes what the valid rows would change: current and new values of each
+ * field, and the contacts, tasks and journey legs attached to each deal
+ */
+async function getBulkUpdateImpact(
+  rows: { row: number; data: z.infer<typeof BulkDealRowSchema> }[],
+  salesId: number,
+  context: McpContext
+) {
+  const result = await executeParameterizedQuery(
+    `SELECT
+       to_jsonb(d) AS deal,
+       coalesce(cardinality(d.contact_ids), 0) AS contacts,
+       (SELECT count(*) FROM tasks t WHERE t.deal_id = d.id)::int AS tasks,
+       (SELECT count(*) FROM deal_journey_legs l WHERE l.deal_id = d.id)::int AS journey_legs
+     FROM deals d
+     WHERE d.id = ANY($1) AND d.sales_id = $2`,
+    [[...new Set(rows.map((row) => row.data.id))], salesId],
+    context
+  );
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to compute update impact");
+  }
+
+  const byId = new Map((result.data || []).map((row: any) => [Number(row.deal.id), row]));
+  return rows.map(({ row, data }) => {
+    const current = byId.get(data.id);
+    if (!current) {
+      return { row, id: data.id, error: "Deal not found or access denied" };
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(data)) {
+      if (field === "id" || value === undefined) continue;
+      changes[field] = { from: current.deal[field] ?? null, to: value };
+    }
+
+    return {
+      row,
+      id: data.id,
+      name: current.deal.name,
+      changes,
+      attached: { contacts: current.contacts, tasks: current.tasks, journey_legs: current.journey_legs },
+    };
+  });
+}
+
+/**
+ * Updates many deals in a single transaction with a per-row report
+ */
+async function bulkUpdateDeals(
+  params: z.infer<typeof BulkUpdateDealsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table name
+    if (!isValidTable("sales") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Validate every row with the update_deal schema; a row must change something
+    const parsed = params.rows.map((row) => BulkDealRowSchema.safeParse(row));
+    const report: { row: number; success: boolean; id?: unknown; error?: string }[] = parsed.map((result, index) => {
+      if (!result.success) {
+        return { row: index, success: false, error: result.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; ") };
+      }
+      if (Object.keys(result.data).every((key) => key === "id" || result.data[key as keyof typeof result.data] === undefined)) {
+        return { row: index, success: false, id: result.data.id, error: "No fields provided to update" };
+      }
+      return { row: index, success: false, id: result.data.id };
+    });
+    const validIndexes = report.flatMap((row, index) => (row.error ? [] : [index]));
+
+    if (params.mode === "all_or_nothing" && validIndexes.length < params.rows.length) {
+      return {
+        success: false,
+        data: {
+          mode: params.mode,
+          committed: false,
+          updated: 0,
+          failed: params.rows.length - validIndexes.length,
+          rows: report.filter((row) => row.error),
+        },
+        error: "Some rows are invalid, nothing was updated",
+      };
+    }
+
+    // Get the sales_id once for every row
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const salesId = salesResult.data[0].id;
+
+    // Two-phase confirmation: preview the changes first, update only with the token
+    if (!params.confirmation_token) {
+      const impact = await getBulkUpdateImpact(
+        validIndexes.map((index) => ({ row: index, data: (parsed[index] as { success: true; data: z.infer<typeof BulkDealRowSchema> }).data })),
+        salesId,
+        context
+      );
+      return {
+        success: true,
+        data: {
+          preview: true,
+          mode: params.mode,
+          deals: impact,
+          invalid_rows: report.filter((row) => row.error),
+          ...(await getConfirmationManager().issue("bulk_update_deals", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "bulk_update_deals", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
+
+    // The update is scoped to the user's deals; no row updated means not found or not owned
+    const statements: BatchStatement[] = validIndexes.map((index) => {
+      const row = parsed[index] as { success: true; data: z.infer<typeof BulkDealRowSchema> };
+      const update = buildDealUpdate(row.data, salesId);
+      return {
+        sql: update.sql,
+        params: update.params,
+        requiredRowError: "Deal not found or access denied",
+      };
+    });
+
+    const batch = await executeParameterizedBatch(statements, context, params.mode);
+
+    batch.results.forEach((result, position) => {
+      const index = validIndexes[position];
+      const id = report[index].id;
+      report[index] = result.success
+        ? { row: index, success: batch.committed, id, ...(batch.committed ? {} : { error: "Rolled back" }) }
+        : { row: index, success: false, id, error: result.error };
+    });
+    for (const index of validIndexes.slice(batch.results.length)) {
+      report[index] = { row: index, success: false, id: report[index].id, error: "Not attempted, batch rolled back" };
+    }
+
+    const updated = batch.committed ? report.filter((row) => row.success).length : 0;
+
+    console.log(`Bulk deals updated: ${updated}/${params.rows.length} by user ${context.authInfo.userId}`);
+
+    return {
+      success: batch.committed,
+      data: {
+        mode: params.mode,
+        committed: batch.committed,
+        updated,
+        failed: params.rows.length - updated,
+        rows: report,
+      },
+      error: batch.committed ? undefined : batch.error,
+    };
+  } catch (error) {
+    console.error("Bulk update deals error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const bulk_update_deals = {
+  definition: {
+    description: `Update many deals in the Atomic CRM in one call.
+
+Use this tool instead of calling update_deal repeatedly, e.g. to move a batch of deals to a new stage or re-date them after a pipeline review. All rows are written in a single transaction.
+
+Required fields:
+- rows: Array of updates (max 500). Each row needs the deal id plus the update_deal fields to change (name, company_id, stage, category, amount, expected_close_date, description, probability). contact_ids is not supported here, use update_deal.
+
+Optional fields:
+- mode: "all_or_nothing" (default) updates nothing if any row is invalid or fails; "best_effort" keeps the rows that succeed and reports the others
+- confirmation_token: Token returned by the preview call
+
+Updating takes two calls:
+1. Call without confirmation_token: returns, for each deal, the current and new value of every changed field and the contacts, tasks and journey legs attached to it, plus a confirmation_token valid for a few minutes. Nothing is changed.
+2. Once the user has confirmed, call again with the same rows and mode and the confirmation_token.
+
+The response has one entry per row with its index, deal id, success, or the error. You can only update deals that belong to you.
+
+Examples:
+- Preview: { "rows": [{ "id": 12, "stage": "negotiation" }, { "id": 15, "amount": 250000, "probability": 60 }] }
+- Confirm: { "rows": [{ "id": 12, "stage": "negotiation" }, { "id": 15, "amount": 250000, "probability": 60 }], "confirmation_token": "token-from-preview" }`,
+    inputSchema: BulkUpdateDealsSchema,
+  },
+  handler: async (params: z.infer<typeof BulkUpdateDealsSchema>, context: McpContext) => {
+    const result = await bulkUpdateDeals(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? result.data?.preview
+              ? `Update preview, nothing changed yet. Check the changes with the user, then call bulk_update_deals again with the same rows and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Deals updated:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error updating deals: ${result.error}${result.data ? `\n${JSON.stringify(result.data, null, 2)}` : ""}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
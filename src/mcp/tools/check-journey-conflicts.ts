@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { findJourneyConflicts } from "../../services/journey-conflicts.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum number of legs scanned in one call
+ */
+const MAX_SCANNED_LEGS = 5000;
+
+/**
+ * Input schema for checking journey conflicts
+ */
+const CheckJourneyConflictsSchema = z.object({
+  from: z.string().optional().describe("Start of the window (ISO 8601, defaults to now)"),
+  to: z.string().optional().describe("End of the window (ISO 8601, defaults to 7 days after from)"),
+  deal_id: z.union([z.string(), z.number()]).optional().describe("Only check this deal (bigint)"),
+  min_gap_minutes: z.number().int().min(0).max(1440).optional().describe("Minimum minutes between consecutive pickups"),
+  strictness: z.enum(["warn", "error"]).optional().describe("warn: report conflicts as warnings; error: report them as errors and fail"),
+});
+
+/**
+ * Checks the journeys with a pickup in a date window for scheduling conflicts
+ * Every leg of those deals is loaded, so conflicts across the window's edges are found too
+ */
+async function checkJourneyConflicts(
+  params: z.infer<typeof CheckJourneyConflictsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table exists
+    if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const from = params.from ? new Date(params.from) : new Date();
+    const to = params.to ? new Date(params.to) : new Date(from.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return {
+        success: false,
+        error: "Invalid from or to: must be ISO 8601 dates or datetimes",
+      };
+    }
+    if (to <= from) {
+      return {
+        success: false,
+        error: "to must be after from",
+      };
+    }
+
+    // Convert deal_id to number if it's a string
+    const dealId = params.deal_id === undefined
+      ? null
+      : typeof params.deal_id === 'string' ? parseInt(params.deal_id, 10) : params.deal_id;
+
+    if (dealId !== null && isNaN(dealId)) {
+      return {
+        success: false,
+        error: "Invalid deal_id: must be a valid number",
+      };
+    }
+
+    const result = await executeParameterizedQuery(
+      `SELECT jl.id, jl.deal_id, d.name AS deal_name, jl.leg_order, jl.leg_type, jl.pickup_datetime
+       FROM deal_journey_legs jl
+       JOIN deals d ON jl.deal_id = d.id
+       WHERE d.sales_id IN (SELECT id FROM sales WHERE user_id = $1)
+         AND ($2::bigint IS NULL OR jl.deal_id = $2)
+         AND jl.deal_id IN (
+           SELECT deal_id FROM deal_journey_legs
+           WHERE pickup_datetime >= $3 AND pickup_datetime < $4
+         )
+       ORDER BY jl.deal_id, jl.leg_order
+       LIMIT ${MAX_SCANNED_LEGS + 1}`,
+      [context.authInfo.userId, dealId, from.toISOString(), to.toISOString()],
+      context
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: "Failed to fetch journey legs",
+      };
+    }
+
+    const legs = result.data || [];
+    if (legs.length > MAX_SCANNED_LEGS) {
+      return {
+        success: false,
+        error: `More than ${MAX_SCANNED_LEGS} legs to check; narrow the window or pass a deal_id`,
+      };
+    }
+
+    const strictness = params.strictness ?? config.journeys.conflictStrictness;
+    const minGapMinutes = params.min_gap_minutes ?? config.journeys.minLegGapMinutes;
+    const byId = new Map<string, any>(legs.map((leg: any) => [leg.id, leg]));
+    const inWindow = (id: string) => {
+      const pickup = new Date(byId.get(id).pickup_datetime);
+      return pickup >= from && pickup < to;
+    };
+
+    // Only report conflicts touching a leg inside the window
+    const conflicts = findJourneyConflicts(legs, { minGapMinutes, strictness })
+      .filter((conflict) => inWindow(conflict.leg_id) || inWindow(conflict.other_leg_id))
+      .map((conflict) => ({
+        ...conflict,
+        deal_name: byId.get(conflict.leg_id).deal_name,
+        leg_type: byId.get(conflict.leg_id).leg_type,
+        other_leg_type: byId.get(conflict.other_leg_id).leg_type,
+      }));
+
+    const data = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      strictness,
+      min_gap_minutes: minGapMinutes,
+      deals_checked: new Set(legs.map((leg: any) => String(leg.deal_id))).size,
+      legs_checked: legs.length,
+      conflict_count: conflicts.length,
+      conflicts,
+    };
+
+    if (strictness === "error" && conflicts.length > 0) {
+      return {
+        success: false,
+        error: `${conflicts.length} journey conflict(s) found`,
+        data,
+      };
+    }
+
+    return {
+      success: true,
+      data,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export const check_journey_conflicts = {
+  definition: {
+    description: `Scans the journeys of your deals with a pickup in a date window (default: the next 7 days) for scheduling conflicts: pickups out of leg_order, consecutive pickups less than min_gap_minutes apart (default: ${config.journeys.minLegGapMinutes}), and legs sharing a leg_order. Conflicts are returned as warnings, or with strictness "error" as errors that fail the call (default strictness: ${config.journeys.conflictStrictness}).`,
+    inputSchema: CheckJourneyConflictsSchema,
+  },
+  handler: checkJourneyConflicts,
+};
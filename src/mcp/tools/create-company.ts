@@ -5,7 +5,7 @@ import type { McpContext } from "../server.js";
 /**
  * Input schema for creating a company
  */
-const CreateCompanySchema = z.object({
+export const CreateCompanySchema = z.object({
   name: z.string().min(1).max(200).describe("Company name"),
   website: z.string().url().max(500).optional().describe("Company website URL"),
   phone: z.string().max(50).optional().describe("Main company phone number"),
@@ -32,6 +32,61 @@ function sanitizeForLog(str: string, maxLength: number = 50): string {
   return sanitized.length < str.length ? `${sanitized}...` : sanitized;
 }
 
+/**
+ * Build the INSERT statement for a company owned by the given sales rep
+ */
+export function buildCompanyInsert(
+  params: z.infer<typeof CreateCompanySchema>,
+  salesId: number
+): { sql: string; params: unknown[] } {
+  const sql = `
+    INSERT INTO companies (
+      name,
+      website,
+      phone,
+      address,
+      city,
+      state,
+      country,
+      zip_code,
+      industry,
+      size,
+      revenue,
+      description,
+      linkedin_url,
+      twitter_url,
+      facebook_url,
+      sales_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW()
+    )
+    RETURNING id, name, website, industry, size, created_at
+  `;
+
+  const insertParams: unknown[] = [
+    params.name,
+    params.website || null,
+    params.phone || null,
+    params.address || null,
+    params.city || null,
+    params.state || null,
+    params.country || null,
+    params.zip_code || null,
+    params.industry || null,
+    params.size || null,
+    params.revenue || null,
+    params.description || null,
+    params.linkedin_url || null,
+    params.twitter_url || null,
+    params.facebook_url || null,
+    salesId,
+  ];
+
+  return { sql, params: insertParams };
+}
+
 /**
  * Creates a new company in the CRM
  */
@@ -65,52 +120,8 @@ async function createCompany(
     const salesId = salesResult.data[0].id;
 
     // Insert the company
-    const insertSql = `
-      INSERT INTO companies (
-        name,
-        website,
-        phone,
-        address,
-        city,
-        state,
-        country,
-        zip_code,
-        industry,
-        size,
-        revenue,
-        description,
-        linkedin_url,
-        twitter_url,
-        facebook_url,
-        sales_id,
-        created_at,
-        updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW(), NOW()
-      )
-      RETURNING id, name, website, industry, size, created_at
-    `;
-
-    const insertParams = [
-      params.name,
-      params.website || null,
-      params.phone || null,
-      params.address || null,
-      params.city || null,
-      params.state || null,
-      params.country || null,
-      params.zip_code || null,
-      params.industry || null,
-      params.size || null,
-      params.revenue || null,
-      params.description || null,
-      params.linkedin_url || null,
-      params.twitter_url || null,
-      params.facebook_url || null,
-      salesId,
-    ];
-
-    const result = await executeParameterizedQuery(insertSql, insertParams, context);
+    const insert = buildCompanyInsert(params, salesId);
+    const result = await executeParameterizedQuery(insert.sql, insert.params, context);
 
     if (!result.success) {
       return {
@@ -1,11 +1,13 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
  * Input schema for creating a contact
  */
-const CreateContactSchema = z.object({
+export const CreateContactSchema = z.object({
   first_name: z.string().min(1).max(100).describe("Contact's first name"),
   last_name: z.string().min(1).max(100).describe("Contact's last name"),
   email: z.string().email().max(255).optional().describe("Primary email address"),
@@ -14,7 +16,7 @@ const CreateContactSchema = z.object({
   company_id: z.number().int().positive().optional().describe("ID of the associated company"),
   linkedin_url: z.string().url().max(500).optional().describe("LinkedIn profile URL"),
   background: z.string().max(5000).optional().describe("Background notes about the contact"),
-  status: z.string().max(50).optional().default("lead").describe("Contact status (lead, active, inactive)"),
+  status: optionEnum(config.fieldOptions.contactStatuses).optional().default(config.fieldOptions.contactStatuses[0]).describe("Contact status"),
   gender: z.string().max(20).optional().describe("Contact's gender"),
   has_newsletter: z.boolean().optional().default(false).describe("Whether subscribed to newsletter"),
   tags: z.array(z.number().int().positive()).max(20).optional().describe("Array of tag IDs to associate"),
@@ -29,10 +31,74 @@ function sanitizeForLog(str: string, maxLength: number = 50): string {
   return sanitized.length < str.length ? `${sanitized}...` : sanitized;
 }
 
+/**
+ * Build the INSERT statement for a contact owned by the given sales rep
+ */
+export function buildContactInsert(
+  params: z.infer<typeof CreateContactSchema>,
+  salesId: number
+): { sql: string; params: unknown[] } {
+  // Build email_jsonb if email provided
+  const emailJsonb = params.email
+    ? JSON.stringify([{ email: params.email, type: "Work" }])
+    : "[]";
+
+  // Build phone_jsonb if phone provided
+  const phoneJsonb = params.phone
+    ? JSON.stringify([{ number: params.phone, type: "Work" }])
+    : "[]";
+
+  // Build tags array
+  const tagsArray = params.tags && params.tags.length > 0
+    ? params.tags
+    : [];
+
+  const sql = `
+    INSERT INTO contacts (
+      first_name,
+      last_name,
+      title,
+      company_id,
+      email_jsonb,
+      phone_jsonb,
+      linkedin_url,
+      background,
+      status,
+      gender,
+      has_newsletter,
+      tags,
+      sales_id,
+      first_seen,
+      last_seen
+    ) VALUES (
+      $1, $2, $3, $4, $5::jsonb, $6::jsonb, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW()
+    )
+    RETURNING id, first_name, last_name, title, status, created_at
+  `;
+
+  const insertParams: unknown[] = [
+    params.first_name,
+    params.last_name,
+    params.title || null,
+    params.company_id || null,
+    emailJsonb,
+    phoneJsonb,
+    params.linkedin_url || null,
+    params.background || null,
+    params.status || config.fieldOptions.contactStatuses[0],
+    params.gender || null,
+    params.has_newsletter ?? false,
+    tagsArray,
+    salesId,
+  ];
+
+  return { sql, params: insertParams };
+}
+
 /**
  * Creates a new contact in the CRM using parameterized queries
  */
-async function createContact(
+export async function createContact(
   params: z.infer<typeof CreateContactSchema>,
   context: McpContext
 ): Promise<{ success: boolean; data?: any; error?: string }> {
@@ -61,62 +127,9 @@ async function createContact(
 
     const salesId = salesResult.data[0].id;
 
-    // Build email_jsonb if email provided
-    const emailJsonb = params.email
-      ? JSON.stringify([{ email: params.email, type: "Work" }])
-      : "[]";
-
-    // Build phone_jsonb if phone provided
-    const phoneJsonb = params.phone
-      ? JSON.stringify([{ number: params.phone, type: "Work" }])
-      : "[]";
-
-    // Build tags array
-    const tagsArray = params.tags && params.tags.length > 0
-      ? params.tags
-      : [];
-
     // Insert the contact using parameterized query
-    const insertSql = `
-      INSERT INTO contacts (
-        first_name,
-        last_name,
-        title,
-        company_id,
-        email_jsonb,
-        phone_jsonb,
-        linkedin_url,
-        background,
-        status,
-        gender,
-        has_newsletter,
-        tags,
-        sales_id,
-        first_seen,
-        last_seen
-      ) VALUES (
-        $1, $2, $3, $4, $5::jsonb, $6::jsonb, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW()
-      )
-      RETURNING id, first_name, last_name, title, status, created_at
-    `;
-
-    const insertParams = [
-      params.first_name,
-      params.last_name,
-      params.title || null,
-      params.company_id || null,
-      emailJsonb,
-      phoneJsonb,
-      params.linkedin_url || null,
-      params.background || null,
-      params.status || "lead",
-      params.gender || null,
-      params.has_newsletter ?? false,
-      tagsArray,
-      salesId,
-    ];
-
-    const result = await executeParameterizedQuery(insertSql, insertParams, context);
+    const insert = buildContactInsert(params, salesId);
+    const result = await executeParameterizedQuery(insert.sql, insert.params, context);
 
     if (!result.success) {
       return {
@@ -158,7 +171,7 @@ Optional fields:
 - company_id: ID of an existing company to associate
 - linkedin_url: LinkedIn profile URL
 - background: Notes about the contact
-- status: Contact status (defaults to 'lead')
+- status: Contact status, one of: ${config.fieldOptions.contactStatuses.join(", ")} (defaults to '${config.fieldOptions.contactStatuses[0]}')
 - gender: Contact's gender
 - has_newsletter: Newsletter subscription status
 - tags: Array of tag IDs to associate
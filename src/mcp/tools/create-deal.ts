@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -9,8 +11,8 @@ const CreateDealSchema = z.object({
   name: z.string().min(1).max(200).describe("Deal name/title"),
   company_id: z.number().int().positive().optional().describe("ID of the associated company"),
   contact_ids: z.array(z.string().uuid()).max(10).optional().describe("Array of contact UUIDs to associate"),
-  stage: z.string().max(50).optional().default("opportunity").describe("Deal stage (opportunity, proposal, negotiation, won, lost)"),
-  category: z.string().max(100).optional().describe("Deal category/type"),
+  stage: optionEnum(config.fieldOptions.dealStages).optional().default(config.fieldOptions.dealStages[0]).describe("Deal stage"),
+  category: optionEnum(config.fieldOptions.dealCategories).optional().describe("Deal category/type"),
   amount: z.number().int().positive().optional().describe("Deal amount in cents (e.g., 10000 = $100.00)"),
   description: z.string().max(5000).optional().describe("Deal description/notes"),
   expected_closing_date: z.string().optional().describe("Expected closing date (ISO format: YYYY-MM-DD)"),
@@ -73,7 +75,7 @@ async function createDeal(
     // Get the max index for this stage to place new deal at the end
     const indexResult = await executeParameterizedQuery(
       `SELECT COALESCE(MAX(index), -1) + 1 as next_index FROM deals WHERE stage = $1 AND sales_id = $2`,
-      [params.stage || "opportunity", salesId],
+      [params.stage || config.fieldOptions.dealStages[0], salesId],
       context
     );
     const nextIndex = indexResult.success ? indexResult.data?.[0]?.next_index ?? 0 : 0;
@@ -104,7 +106,7 @@ async function createDeal(
       params.name,
       params.company_id || null,
       params.contact_ids || [],
-      params.stage || "opportunity",
+      params.stage || config.fieldOptions.dealStages[0],
       params.category || null,
       params.amount || null,
       params.description || null,
@@ -150,13 +152,8 @@ Required fields:
 Optional fields:
 - company_id: ID of an existing company to associate
 - contact_ids: Array of contact UUIDs to associate (max 10)
-- stage: Deal stage (defaults to 'opportunity')
-  - opportunity: Initial stage
-  - proposal: Proposal sent
-  - negotiation: In negotiation
-  - won: Deal closed/won
-  - lost: Deal lost
-- category: Deal category/type
+- stage: Deal stage, one of: ${config.fieldOptions.dealStages.join(", ")} (defaults to '${config.fieldOptions.dealStages[0]}')
+- category: Deal category, one of: ${config.fieldOptions.dealCategories.join(", ")}
 - amount: Deal amount in cents (e.g., 10000 = $100.00)
 - description: Deal description/notes
 - expected_closing_date: Expected closing date (ISO format: YYYY-MM-DD)
@@ -165,6 +162,7 @@ The deal will be created with:
 - sales_id set to the authenticated user
 - created_at and updated_at set to current time
 - index set to place at end of stage column
+- its stage recorded in the deal's stage history (see get_deal_history)
 
 Example:
 - Create a basic deal: { "name": "New Software License" }
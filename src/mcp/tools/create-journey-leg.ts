@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { findLegConflicts } from "../../services/journey-conflicts.js";
+import { isValidTimeZone, parseZonedDateTime } from "../../services/timezone.js";
+import type { JourneyConflict } from "../../services/journey-conflicts.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -27,8 +31,8 @@ const CreateJourneyLegSchema = z.object({
   deal_id: z.union([z.string(), z.number()]).describe("ID of the deal to add journey leg to (bigint)"),
   leg_order: z.number().int().min(1).optional().default(1).describe("Order of the leg in the journey"),
   leg_type: z.enum(LEG_TYPES).describe("Type of journey leg"),
-  pickup_datetime: z.string().describe("Pickup datetime (ISO 8601 format)"),
-  pickup_timezone: z.string().optional().default("Europe/Paris").describe("Timezone for pickup time"),
+  pickup_datetime: z.string().describe("Pickup datetime (ISO 8601 format); without a UTC offset it is local time in pickup_timezone"),
+  pickup_timezone: z.string().max(64).optional().default("Europe/Paris").describe("IANA time zone of the pickup place (e.g. Europe/Paris)"),
   pickup_location_text: z.string().min(1).max(500).describe("Pickup location description"),
   dropoff_location_text: z.string().max(500).optional().describe("Dropoff location description"),
   transport_mode: z.enum(TRANSPORT_MODES).optional().default("none").describe("Mode of transport"),
@@ -42,6 +46,7 @@ const CreateJourneyLegSchema = z.object({
   meet_point_instructions: z.string().max(1000).optional().describe("Meet point instructions"),
   driver_notes: z.string().max(2000).optional().describe("Driver notes"),
   dispatch_notes: z.string().max(2000).optional().describe("Dispatch notes"),
+  strictness: z.enum(["warn", "error"]).optional().describe("warn: save the leg and report conflicts with the deal's other legs; error: reject it when there are any"),
 });
 
 /**
@@ -59,7 +64,7 @@ function sanitizeString(str: string | undefined, maxLength: number): string | nu
 async function createJourneyLeg(
   params: z.infer<typeof CreateJourneyLegSchema>,
   context: McpContext
-): Promise<{ success: boolean; data?: any; error?: string }> {
+): Promise<{ success: boolean; data?: any; error?: string; conflicts?: JourneyConflict[] }> {
   try {
     // Validate table exists
     if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
@@ -79,6 +84,22 @@ async function createJourneyLeg(
       };
     }
 
+    if (!isValidTimeZone(params.pickup_timezone)) {
+      return {
+        success: false,
+        error: `Unknown pickup_timezone: ${params.pickup_timezone} (use an IANA time zone such as Europe/Paris)`,
+      };
+    }
+
+    // A datetime without an offset is wall-clock time at the pickup place
+    const pickup = parseZonedDateTime(params.pickup_datetime, params.pickup_timezone);
+    if (!pickup) {
+      return {
+        success: false,
+        error: "Invalid pickup_datetime: must be an ISO 8601 datetime",
+      };
+    }
+
     // Verify the user has access to this deal
     const dealCheck = await executeParameterizedQuery(
       `SELECT id FROM deals WHERE id = $1 AND sales_id IN (SELECT id FROM sales WHERE user_id = $2)`,
@@ -134,6 +155,35 @@ async function createJourneyLeg(
       legOrder = maxOrderResult.success ? maxOrderResult.data?.[0]?.next_order ?? 1 : 1;
     }
 
+    // Check the pickup against the deal's other legs
+    const otherLegsResult = await executeParameterizedQuery(
+      `SELECT id, deal_id, leg_order, pickup_datetime FROM deal_journey_legs WHERE deal_id = $1`,
+      [dealId],
+      context
+    );
+
+    if (!otherLegsResult.success) {
+      return {
+        success: false,
+        error: "Failed to check the deal's other journey legs",
+      };
+    }
+
+    const strictness = params.strictness ?? config.journeys.conflictStrictness;
+    const conflicts = findLegConflicts(
+      { id: "new", deal_id: dealId, leg_order: Number(legOrder), pickup_datetime: pickup },
+      otherLegsResult.data || [],
+      { minGapMinutes: config.journeys.minLegGapMinutes, strictness }
+    );
+
+    if (strictness === "error" && conflicts.length > 0) {
+      return {
+        success: false,
+        error: `Journey leg conflicts with the deal's other legs: ${conflicts.map((conflict) => conflict.message).join("; ")}`,
+        conflicts,
+      };
+    }
+
     // Build the insert query
     const insertSql = `
       INSERT INTO deal_journey_legs (
@@ -163,7 +213,7 @@ async function createJourneyLeg(
         dealId,
         legOrder,
         params.leg_type,
-        params.pickup_datetime,
+        pickup.toISOString(),
         params.pickup_timezone,
         sanitizeString(params.pickup_location_text, 500),
         sanitizeString(params.dropoff_location_text, 500),
@@ -189,9 +239,19 @@ async function createJourneyLeg(
       };
     }
 
+    const leg = result.data?.[0];
     return {
       success: true,
-      data: result.data?.[0],
+      data: leg,
+      ...(conflicts.length > 0
+        ? {
+            conflicts: conflicts.map((conflict) => ({
+              ...conflict,
+              leg_id: conflict.leg_id === "new" ? leg?.id : conflict.leg_id,
+              other_leg_id: conflict.other_leg_id === "new" ? leg?.id : conflict.other_leg_id,
+            })),
+          }
+        : {}),
     };
   } catch (error) {
     return {
@@ -203,7 +263,7 @@ async function createJourneyLeg(
 
 export const create_deal_journey_leg = {
   definition: {
-    description: "Creates a new journey leg for a deal with pickup/dropoff details",
+    description: `Creates a new journey leg for a deal with pickup/dropoff details. pickup_timezone must be an IANA time zone; a pickup_datetime without a UTC offset is read as local time in that zone. Pickups out of leg_order, less than ${config.journeys.minLegGapMinutes} minutes from the previous or next leg, or sharing a leg_order are reported in conflicts: as warnings (the leg is saved) or, with strictness "error", as errors (the leg is rejected). Default strictness: ${config.journeys.conflictStrictness}.`,
     inputSchema: CreateJourneyLegSchema,
   },
   handler: createJourneyLeg,
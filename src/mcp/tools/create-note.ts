@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -9,7 +11,7 @@ const CreateNoteSchema = z.object({
   content: z.string().min(1).max(10000).describe("Note content/text"),
   contact_id: z.string().uuid().optional().describe("UUID of the contact to associate the note with"),
   deal_id: z.number().int().positive().optional().describe("ID of the deal to associate the note with"),
-  type: z.string().max(50).optional().default("general").describe("Note type (general, call, meeting, email)"),
+  type: optionEnum(config.fieldOptions.noteTypes).optional().default(config.fieldOptions.noteTypes[0]).describe("Note type"),
 });
 
 /**
@@ -62,7 +64,7 @@ async function createNote(
 
       const result = await executeParameterizedQuery(
         insertSql,
-        [params.contact_id, params.content, params.type || "general", salesId],
+        [params.contact_id, params.content, params.type || config.fieldOptions.noteTypes[0], salesId],
         context
       );
 
@@ -96,7 +98,7 @@ async function createNote(
 
       const result = await executeParameterizedQuery(
         insertSql,
-        [params.deal_id, params.content, params.type || "general", salesId],
+        [params.deal_id, params.content, params.type || config.fieldOptions.noteTypes[0], salesId],
         context
       );
 
@@ -142,7 +144,7 @@ Association (at least one required):
 - deal_id: ID of the deal to associate the note with
 
 Optional fields:
-- type: Note type (general, call, meeting, email) - defaults to 'general'
+- type: Note type, one of: ${config.fieldOptions.noteTypes.join(", ")} - defaults to '${config.fieldOptions.noteTypes[0]}'
 
 Examples:
 - Create a contact note: { "content": "Had a great call with the client", "contact_id": "uuid-here", "type": "call" }
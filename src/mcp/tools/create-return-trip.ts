@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { isValidTable, getPool } from "../../db/query-builder.js";
+import { findLegConflicts } from "../../services/journey-conflicts.js";
+import { JOURNEY_LEG_COLUMNS, RETURN_LEG_TYPES, journeyLegValues, mirrorReturnLeg } from "../../services/journey-templates.js";
+import { isValidTimeZone, parseZonedDateTime } from "../../services/timezone.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+import { decodeJwt } from "jose";
+
+/**
+ * Valid transport modes
+ */
+const TRANSPORT_MODES = ["flight", "train", "none"] as const;
+
+/**
+ * Input schema for creating a return trip
+ */
+const CreateReturnTripSchema = z.object({
+  deal_id: z.union([z.string(), z.number()]).describe("ID of the deal (bigint)"),
+  leg_id: z.string().uuid().describe("UUID of the airport_arrival or train_arrival leg to mirror"),
+  pickup_datetime: z.string().describe("Pickup datetime of the return (ISO 8601 format); without a UTC offset it is local time in pickup_timezone"),
+  pickup_timezone: z.string().max(64).optional().describe("IANA time zone of the return pickup (defaults to the arrival leg's zone)"),
+  transport_mode: z.enum(TRANSPORT_MODES).optional().describe("Mode of transport (defaults to the arrival leg's)"),
+  carrier_or_operator: z.string().max(100).optional().describe("Carrier/operator of the return"),
+  transport_number: z.string().max(50).optional().describe("Return flight number or train number"),
+  terminal: z.string().max(20).optional().describe("Departure terminal"),
+  gate: z.string().max(20).optional().describe("Departure gate"),
+  platform: z.string().max(20).optional().describe("Departure platform"),
+  meet_point_instructions: z.string().max(1000).optional().describe("Meet point instructions for the return pickup"),
+  strictness: z.enum(["warn", "error"]).optional().describe("warn: save the return leg and report conflicts with the deal's other legs; error: reject it when there are any"),
+});
+
+/**
+ * Sanitize a string for database
+ */
+function sanitizeString(str: string | undefined, maxLength: number): string | undefined {
+  if (!str) return undefined;
+  const trimmed = str.trim();
+  return trimmed.length > 0 ? trimmed.substring(0, maxLength) : undefined;
+}
+
+/**
+ * Creates the return leg of an arrival, appended to the end of the deal's journey
+ * Uses a single transaction so the new leg_order cannot be taken concurrently
+ */
+async function createReturnTrip(
+  params: z.infer<typeof CreateReturnTripSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string; conflicts?: any[] }> {
+  const pool = getPool();
+  let client = null;
+
+  try {
+    // Validate table exists
+    if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Convert deal_id to number if it's a string
+    const dealId = typeof params.deal_id === 'string' ? parseInt(params.deal_id, 10) : params.deal_id;
+
+    if (isNaN(dealId)) {
+      return {
+        success: false,
+        error: "Invalid deal_id: must be a valid number",
+      };
+    }
+
+    if (params.pickup_timezone !== undefined && !isValidTimeZone(params.pickup_timezone)) {
+      return {
+        success: false,
+        error: `Unknown pickup_timezone: ${params.pickup_timezone} (use an IANA time zone such as Europe/Paris)`,
+      };
+    }
+
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    // Start transaction
+    await client.query("BEGIN");
+
+    // Set RLS role
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    // Set JWT claims for RLS
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // Verify the user has access to this deal; locking it keeps concurrent appends from sharing a leg_order
+    const dealCheck = await client.query(
+      `SELECT id FROM deals WHERE id = $1 AND sales_id IN (SELECT id FROM sales WHERE user_id = $2) FOR UPDATE`,
+      [dealId, context.authInfo.userId]
+    );
+
+    if (!dealCheck.rows.length) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Deal not found or access denied",
+      };
+    }
+
+    // Verify the leg exists and belongs to this deal
+    const legCheck = await client.query(
+      `SELECT id, ${JOURNEY_LEG_COLUMNS.join(", ")} FROM deal_journey_legs WHERE id = $1::uuid AND deal_id = $2`,
+      [params.leg_id, dealId]
+    );
+
+    if (!legCheck.rows.length) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Journey leg not found or does not belong to this deal",
+      };
+    }
+
+    const arrival = legCheck.rows[0];
+    if (!RETURN_LEG_TYPES[arrival.leg_type]) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `Only ${Object.keys(RETURN_LEG_TYPES).join(" and ")} legs can be mirrored; this leg is ${arrival.leg_type}`,
+      };
+    }
+
+    // A datetime without an offset is wall-clock time at the pickup place
+    const pickupTimezone = params.pickup_timezone ?? arrival.pickup_timezone;
+    const pickup = parseZonedDateTime(params.pickup_datetime, isValidTimeZone(pickupTimezone) ? pickupTimezone : "UTC");
+    if (!pickup) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Invalid pickup_datetime: must be an ISO 8601 datetime",
+      };
+    }
+
+    // Validate: transport_number required when transport_mode is flight or train
+    const transportMode = params.transport_mode ?? arrival.transport_mode;
+    const transportNumber = sanitizeString(params.transport_number, 50);
+    if ((transportMode === "flight" || transportMode === "train") && !transportNumber) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `transport_number is required when transport_mode is ${transportMode} (pass the return ${transportMode} number, or transport_mode "none" if it is not known yet)`,
+      };
+    }
+
+    const maxOrderResult = await client.query(
+      `SELECT COALESCE(MAX(leg_order), 0) AS max_order FROM deal_journey_legs WHERE deal_id = $1`,
+      [dealId]
+    );
+
+    const returnLeg = mirrorReturnLeg(arrival, {
+      leg_order: Number(maxOrderResult.rows[0].max_order) + 1,
+      pickup_datetime: pickup,
+      pickup_timezone: pickupTimezone,
+      transport_mode: transportMode,
+      carrier_or_operator: sanitizeString(params.carrier_or_operator, 100),
+      transport_number: transportNumber,
+      terminal: sanitizeString(params.terminal, 20),
+      gate: sanitizeString(params.gate, 20),
+      platform: sanitizeString(params.platform, 20),
+      meet_point_instructions: sanitizeString(params.meet_point_instructions, 1000),
+    });
+
+    // Check the pickup against the deal's other legs
+    const otherLegsResult = await client.query(
+      `SELECT id, deal_id, leg_order, pickup_datetime FROM deal_journey_legs WHERE deal_id = $1`,
+      [dealId]
+    );
+
+    const strictness = params.strictness ?? config.journeys.conflictStrictness;
+    const conflicts = findLegConflicts(
+      { id: "new", deal_id: dealId, leg_order: returnLeg.leg_order, pickup_datetime: pickup },
+      otherLegsResult.rows,
+      { minGapMinutes: config.journeys.minLegGapMinutes, strictness }
+    );
+
+    if (strictness === "error" && conflicts.length > 0) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `Return leg conflicts with the deal's other legs: ${conflicts.map((conflict) => conflict.message).join("; ")}`,
+        conflicts,
+      };
+    }
+
+    const placeholders = JOURNEY_LEG_COLUMNS.map((_, index) => `$${index + 2}`).join(", ");
+    const insertResult = await client.query(
+      `INSERT INTO deal_journey_legs (deal_id, ${JOURNEY_LEG_COLUMNS.join(", ")}, created_at, updated_at)
+       VALUES ($1, ${placeholders}, NOW(), NOW())
+       RETURNING id, deal_id, ${JOURNEY_LEG_COLUMNS.join(", ")}, created_at, updated_at`,
+      [dealId, ...journeyLegValues(returnLeg)]
+    );
+
+    // Commit transaction
+    await client.query("COMMIT");
+
+    const leg = insertResult.rows[0];
+    return {
+      success: true,
+      data: { ...leg, mirrored_leg_id: arrival.id },
+      ...(conflicts.length > 0
+        ? {
+            conflicts: conflicts.map((conflict) => ({
+              ...conflict,
+              leg_id: conflict.leg_id === "new" ? leg.id : conflict.leg_id,
+              other_leg_id: conflict.other_leg_id === "new" ? leg.id : conflict.other_leg_id,
+            })),
+          }
+        : {}),
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+export const create_return_trip = {
+  definition: {
+    description: "Creates the return leg of an airport_arrival (as an airport_departure) or a train_arrival (as a train_departure): pickup and dropoff locations and origin and destination codes are swapped, driver and dispatch notes are kept, and the leg is appended at the end of the deal's leg_order. Give the return pickup_datetime and, for a flight or train, the return transport_number (or transport_mode \"none\" if not known yet); terminal, gate, platform and meet point are not copied from the arrival. Runs in a single transaction and checks the new pickup for scheduling conflicts like create_deal_journey_leg.",
+    inputSchema: CreateReturnTripSchema,
+  },
+  handler: createReturnTrip,
+};
@@ -1,11 +1,13 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
  * Input schema for creating a task
  */
-const CreateTaskSchema = z.object({
+export const CreateTaskSchema = z.object({
   title: z.string().min(1).max(200).describe("Task title/summary"),
   description: z.string().max(5000).optional().describe("Task description/details"),
   contact_id: z.string().uuid().optional().describe("UUID of the associated contact"),
@@ -14,7 +16,7 @@ const CreateTaskSchema = z.object({
   due_date: z.string().optional().describe("Due date (ISO format: YYYY-MM-DD)"),
   status: z.string().max(50).optional().default("pending").describe("Task status (pending, in_progress, done, cancelled)"),
   priority: z.string().max(20).optional().default("medium").describe("Task priority (low, medium, high, urgent)"),
-  type: z.string().max(50).optional().describe("Task type (call, email, meeting, follow_up, other)"),
+  type: optionEnum(config.fieldOptions.taskTypes).optional().describe("Task type"),
 });
 
 /**
@@ -26,6 +28,49 @@ function sanitizeForLog(str: string, maxLength: number = 50): string {
   return sanitized.length < str.length ? `${sanitized}...` : sanitized;
 }
 
+/**
+ * Build the INSERT statement for a task owned by the given sales rep
+ */
+export function buildTaskInsert(
+  params: z.infer<typeof CreateTaskSchema>,
+  salesId: number
+): { sql: string; params: unknown[] } {
+  const sql = `
+    INSERT INTO tasks (
+      title,
+      description,
+      contact_id,
+      company_id,
+      deal_id,
+      due_date,
+      status,
+      priority,
+      type,
+      sales_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6::date, $7, $8, $9, $10, NOW(), NOW()
+    )
+    RETURNING id, title, status, priority, due_date, created_at
+  `;
+
+  const insertParams: unknown[] = [
+    params.title,
+    params.description || null,
+    params.contact_id || null,
+    params.company_id || null,
+    params.deal_id || null,
+    params.due_date || null,
+    params.status || "pending",
+    params.priority || "medium",
+    params.type || null,
+    salesId,
+  ];
+
+  return { sql, params: insertParams };
+}
+
 /**
  * Creates a new task in the CRM
  */
@@ -59,40 +104,8 @@ async function createTask(
     const salesId = salesResult.data[0].id;
 
     // Insert the task
-    const insertSql = `
-      INSERT INTO tasks (
-        title,
-        description,
-        contact_id,
-        company_id,
-        deal_id,
-        due_date,
-        status,
-        priority,
-        type,
-        sales_id,
-        created_at,
-        updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6::date, $7, $8, $9, $10, NOW(), NOW()
-      )
-      RETURNING id, title, status, priority, due_date, created_at
-    `;
-
-    const insertParams = [
-      params.title,
-      params.description || null,
-      params.contact_id || null,
-      params.company_id || null,
-      params.deal_id || null,
-      params.due_date || null,
-      params.status || "pending",
-      params.priority || "medium",
-      params.type || null,
-      salesId,
-    ];
-
-    const result = await executeParameterizedQuery(insertSql, insertParams, context);
+    const insert = buildTaskInsert(params, salesId);
+    const result = await executeParameterizedQuery(insert.sql, insert.params, context);
 
     if (!result.success) {
       return {
@@ -141,12 +154,7 @@ Optional fields:
   - medium: Medium priority
   - high: High priority
   - urgent: Urgent
-- type: Task type
-  - call: Phone call
-  - email: Email
-  - meeting: Meeting
-  - follow_up: Follow up
-  - other: Other
+- type: Task type, one of: ${config.fieldOptions.taskTypes.join(", ")}
 
 The task will be created with:
 - sales_id set to the authenticated user
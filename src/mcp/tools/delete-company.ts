@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { moveToTrash } from "../../services/trash.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -7,10 +11,42 @@ import type { McpContext } from "../server.js";
  */
 const DeleteCompanySchema = z.object({
   id: z.number().int().positive().describe("ID of the company to delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the impact first"),
 });
 
 /**
- * Deletes a company from the CRM
+ * Describes the company about to be deleted and the tasks linked to it
+ * Contacts and deals block the deletion, so there are none by this point
+ */
+async function getCompanyDeletionImpact(id: number, salesId: number, context: McpContext) {
+  const result = await executeParameterizedQuery(
+    `SELECT
+       co.id, co.name, co.website, co.city, co.industry,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'title', t.title, 'status', t.status)), '[]'::jsonb)
+        FROM tasks t WHERE t.company_id = co.id) AS tasks,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', o.id, 'website', o.website, 'city', o.city)), '[]'::jsonb)
+        FROM companies o
+        WHERE o.id <> co.id AND lower(o.name) = lower(co.name)) AS other_companies_with_same_name
+     FROM companies co
+     WHERE co.id = $1 AND co.sales_id = $2`,
+    [id, salesId],
+    context
+  );
+
+  if (!result.success || !result.data?.length) {
+    throw new Error(result.error || "Failed to compute deletion impact");
+  }
+
+  const { tasks, other_companies_with_same_name, ...company } = result.data[0];
+  return {
+    company,
+    linked_tasks: tasks,
+    other_companies_with_same_name,
+  };
+}
+
+/**
+ * Deletes a company from the CRM (moves it to the trash)
  */
 async function deleteCompany(
   params: z.infer<typeof DeleteCompanySchema>,
@@ -79,20 +115,41 @@ async function deleteCompany(
       };
     }
 
-    // Delete the company
-    const deleteResult = await executeParameterizedQuery(
-      `DELETE FROM companies WHERE id = $1 AND sales_id = $2 RETURNING id`,
-      [params.id, salesId],
-      context
-    );
+    // Two-phase confirmation: preview the impact first, delete only with the token
+    if (!params.confirmation_token) {
+      const impact = await getCompanyDeletionImpact(params.id, salesId, context);
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact,
+          ...(await getConfirmationManager().issue("delete_company", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "delete_company", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
 
-    if (!deleteResult.success) {
+    // Move the company to the trash
+    const trashed = await moveToTrash("companies", params.id, salesId, context);
+
+    if (!trashed) {
       return {
         success: false,
-        error: deleteResult.error || "Failed to delete company",
+        error: "Company not found or access denied",
       };
     }
 
+    logDataEvent("delete", "companies", String(params.id), context.authInfo.userId, {
+      details: { trash_id: trashed.trash_id },
+    });
+
     console.log(`Company deleted: ${params.id} by user ${context.authInfo.userId}`);
 
     return {
@@ -101,6 +158,8 @@ async function deleteCompany(
         id: params.id,
         deleted: true,
         company: companyInfo,
+        trash_id: trashed.trash_id,
+        restorable_until: trashed.restorable_until,
       },
     };
   } catch (error) {
@@ -116,15 +175,25 @@ export const delete_company = {
   definition: {
     description: `Delete a company from the Atomic CRM.
 
-Use this tool when you need to permanently remove a company from the CRM.
+Use this tool when you need to remove a company from the CRM.
 
 Required fields:
 - id: ID of the company to delete
 
+Optional fields:
+- confirmation_token: Token returned by the preview call
+
 Note: You cannot delete a company that has associated contacts or deals. Remove or reassign those first. You can only delete companies that belong to you.
 
+Deletion takes two calls:
+1. Call with the id only: returns the impact (the company, its tasks, and other companies with the same name) and a confirmation_token valid for a few minutes. Nothing is deleted.
+2. Once the user has confirmed it is the right company, call again with the same id and the confirmation_token.
+
+The company is moved to the trash. Use restore_record with the returned trash_id to bring it back within ${config.trash.retentionDays} days; after that it is purged.
+
 Example:
-- Delete a company: { "id": 123 }`,
+- Preview: { "id": 123 }
+- Confirm: { "id": 123, "confirmation_token": "token-from-preview" }`,
     inputSchema: DeleteCompanySchema,
   },
   handler: async (params: z.infer<typeof DeleteCompanySchema>, context: McpContext) => {
@@ -135,7 +204,9 @@ Example:
         {
           type: "text" as const,
           text: result.success
-            ? `Company deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
+            ? result.data?.preview
+              ? `Deletion preview, nothing deleted yet. Check the impact with the user, then call delete_company again with the same id and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Company deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
             : `Error deleting company: ${result.error}`,
         },
       ],
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { moveToTrash } from "../../services/trash.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -7,10 +11,83 @@ import type { McpContext } from "../server.js";
  */
 const DeleteContactSchema = z.object({
   id: z.string().uuid().describe("UUID of the contact to delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the impact first"),
 });
 
+/**
+ * Maximum number of rows in each related-row list of the impact
+ */
+const MAX_IMPACT_ROWS = 20;
+
+/**
+ * Characters of a note's text shown in the impact
+ */
+const NOTE_PREVIEW_LENGTH = 120;
+
+/**
+ * Describes what deleting a contact affects, including other contacts with the
+ * same name so the right one can be picked
+ */
+async function getContactDeletionImpact(id: string, salesId: number, context: McpContext) {
+  const result = await executeParameterizedQuery(
+    `SELECT
+       c.id, c.first_name, c.last_name, c.title, co.name AS company_name,
+       (SELECT coalesce(jsonb_agg(e->>'email'), '[]'::jsonb)
+        FROM jsonb_array_elements(coalesce(c.email_jsonb, '[]'::jsonb)) AS e) AS emails,
+       (SELECT count(*) FROM contactNotes n WHERE n.contact_id = c.id)::int AS notes_total,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'id', n.id, 'type', n.type, 'created_at', n.created_at, 'preview', left(n.text, ${NOTE_PREVIEW_LENGTH})
+        ) ORDER BY n.created_at DESC), '[]'::jsonb)
+        FROM (SELECT * FROM contactNotes n WHERE n.contact_id = c.id ORDER BY n.created_at DESC LIMIT $3) n) AS notes,
+       (SELECT count(*) FROM tasks t WHERE t.contact_id = c.id)::int AS tasks_total,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'title', t.title, 'status', t.status)), '[]'::jsonb)
+        FROM (SELECT * FROM tasks t WHERE t.contact_id = c.id ORDER BY t.id LIMIT $3) t) AS tasks,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', d.id, 'name', d.name, 'stage', d.stage)), '[]'::jsonb)
+        FROM (
+          SELECT * FROM deals d
+          WHERE c.id = ANY(d.contact_ids)
+             OR d.id IN (SELECT dc.deal_id FROM deal_contacts dc WHERE dc.contact_id = c.id)
+          ORDER BY d.id
+          LIMIT $3
+        ) d) AS deals,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'id', o.id, 'company_name', o.company_name, 'email', o.email_jsonb->0->>'email', 'title', o.title
+        )), '[]'::jsonb)
+        FROM (
+          SELECT o.*, oc.name AS company_name
+          FROM contacts o
+          LEFT JOIN companies oc ON o.company_id = oc.id
+          WHERE o.id <> c.id
+            AND lower(o.first_name) = lower(c.first_name)
+            AND lower(o.last_name) = lower(c.last_name)
+          LIMIT $3
+        ) o) AS other_contacts_with_same_name
+     FROM contacts c
+     LEFT JOIN companies co ON c.company_id = co.id
+     WHERE c.id = $1 AND c.sales_id = $2`,
+    [id, salesId, MAX_IMPACT_ROWS],
+    context
+  );
+
+  if (!result.success || !result.data?.length) {
+    throw new Error(result.error || "Failed to compute deletion impact");
+  }
+
+  const { notes_total, notes, tasks_total, tasks, deals, other_contacts_with_same_name, ...contact } = result.data[0];
+  return {
+    contact,
+    deleted_with_it: {
+      notes: { total: notes_total, items: notes },
+      tasks: { total: tasks_total, items: tasks },
+    },
+    removed_from_deals: deals,
+    other_contacts_with_same_name,
+  };
+}
+
 /**
  * Deletes a contact from the CRM
+ * The contact, its notes, tasks and deal associations are moved to the trash
  */
 async function deleteContact(
   params: z.infer<typeof DeleteContactSchema>,
@@ -49,34 +126,41 @@ async function deleteContact(
 
     const contactInfo = checkResult.data[0];
 
-    // Delete associated notes first
-    await executeParameterizedQuery(
-      `DELETE FROM contactNotes WHERE contact_id = $1`,
-      [params.id],
-      context
-    );
+    // Two-phase confirmation: preview the impact first, delete only with the token
+    if (!params.confirmation_token) {
+      const impact = await getContactDeletionImpact(params.id, salesId, context);
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact,
+          ...(await getConfirmationManager().issue("delete_contact", context.authInfo.userId, params)),
+        },
+      };
+    }
 
-    // Delete associated deal contacts
-    await executeParameterizedQuery(
-      `DELETE FROM deal_contacts WHERE contact_id = $1`,
-      [params.id],
-      context
-    );
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "delete_contact", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
 
-    // Delete the contact
-    const deleteResult = await executeParameterizedQuery(
-      `DELETE FROM contacts WHERE id = $1 AND sales_id = $2 RETURNING id`,
-      [params.id, salesId],
-      context
-    );
+    // Move the contact and everything deleted with it to the trash
+    const trashed = await moveToTrash("contacts", params.id, salesId, context);
 
-    if (!deleteResult.success) {
+    if (!trashed) {
       return {
         success: false,
-        error: deleteResult.error || "Failed to delete contact",
+        error: "Contact not found or access denied",
       };
     }
 
+    logDataEvent("delete", "contacts", params.id, context.authInfo.userId, {
+      details: { trash_id: trashed.trash_id, related: trashed.related },
+    });
+
     console.log(`Contact deleted: ${params.id} by user ${context.authInfo.userId}`);
 
     return {
@@ -85,6 +169,9 @@ async function deleteContact(
         id: params.id,
         deleted: true,
         contact: contactInfo,
+        trash_id: trashed.trash_id,
+        removed_with_it: trashed.related,
+        restorable_until: trashed.restorable_until,
       },
     };
   } catch (error) {
@@ -100,15 +187,25 @@ export const delete_contact = {
   definition: {
     description: `Delete a contact from the Atomic CRM.
 
-Use this tool when you need to permanently remove a contact from the CRM.
+Use this tool when you need to remove a contact from the CRM.
 
 Required fields:
 - id: UUID of the contact to delete
 
-Note: This will also delete all associated notes and remove the contact from any deals. You can only delete contacts that belong to you.
+Optional fields:
+- confirmation_token: Token returned by the preview call
+
+Note: This will also delete all associated notes and tasks and remove the contact from any deals. You can only delete contacts that belong to you.
+
+Deletion takes two calls:
+1. Call with the id only: returns the impact (the contact's details, the notes and tasks deleted with it with each note's id and a preview of its text, the deals it is removed from, and other contacts with the same name; each list shows at most ${MAX_IMPACT_ROWS} rows, with the total for notes and tasks) and a confirmation_token valid for a few minutes. Nothing is deleted.
+2. Once the user has confirmed it is the right contact, call again with the same id and the confirmation_token.
+
+The contact is moved to the trash, with everything deleted along with it. Use restore_record with the returned trash_id to bring it back within ${config.trash.retentionDays} days; after that it is purged.
 
 Example:
-- Delete a contact: { "id": "uuid-here" }`,
+- Preview: { "id": "uuid-here" }
+- Confirm: { "id": "uuid-here", "confirmation_token": "token-from-preview" }`,
     inputSchema: DeleteContactSchema,
   },
   handler: async (params: z.infer<typeof DeleteContactSchema>, context: McpContext) => {
@@ -119,7 +216,9 @@ Example:
         {
           type: "text" as const,
           text: result.success
-            ? `Contact deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
+            ? result.data?.preview
+              ? `Deletion preview, nothing deleted yet. Check the impact with the user, then call delete_contact again with the same id and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Contact deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
             : `Error deleting contact: ${result.error}`,
         },
       ],
@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { moveToTrash } from "../../services/trash.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -7,10 +11,77 @@ import type { McpContext } from "../server.js";
  */
 const DeleteDealSchema = z.object({
   id: z.number().int().positive().describe("ID of the deal to delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the impact first"),
 });
 
+/**
+ * Maximum number of rows in each related-row list of the impact
+ */
+const MAX_IMPACT_ROWS = 20;
+
+/**
+ * Characters of a note's text shown in the impact
+ */
+const NOTE_PREVIEW_LENGTH = 120;
+
+/**
+ * Describes what deleting a deal affects
+ */
+async function getDealDeletionImpact(id: number, salesId: number, context: McpContext) {
+  const result = await executeParameterizedQuery(
+    `SELECT
+       d.id, d.name, d.stage, d.amount, d.company_name,
+       (SELECT count(*) FROM dealNotes n WHERE n.deal_id = d.id)::int AS notes_total,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'id', n.id, 'type', n.type, 'created_at', n.created_at, 'preview', left(n.text, ${NOTE_PREVIEW_LENGTH})
+        ) ORDER BY n.created_at DESC), '[]'::jsonb)
+        FROM (SELECT * FROM dealNotes n WHERE n.deal_id = d.id ORDER BY n.created_at DESC LIMIT $3) n) AS notes,
+       (SELECT count(*)
+        FROM contacts c
+        WHERE c.id = ANY(d.contact_ids)
+           OR c.id IN (SELECT dc.contact_id FROM deal_contacts dc WHERE dc.deal_id = d.id))::int AS contacts_total,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', c.id, 'name', concat_ws(' ', c.first_name, c.last_name))), '[]'::jsonb)
+        FROM (
+          SELECT * FROM contacts c
+          WHERE c.id = ANY(d.contact_ids)
+             OR c.id IN (SELECT dc.contact_id FROM deal_contacts dc WHERE dc.deal_id = d.id)
+          ORDER BY c.id
+          LIMIT $3
+        ) c) AS contacts,
+       (SELECT count(*) FROM deal_journey_legs l WHERE l.deal_id = d.id)::int AS journey_legs_total,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'id', l.id, 'leg_order', l.leg_order, 'leg_type', l.leg_type,
+          'pickup_datetime', l.pickup_datetime, 'pickup_location_text', l.pickup_location_text
+        ) ORDER BY l.leg_order), '[]'::jsonb)
+        FROM (SELECT * FROM deal_journey_legs l WHERE l.deal_id = d.id ORDER BY l.leg_order LIMIT $3) l) AS journey_legs,
+       (SELECT coalesce(jsonb_agg(jsonb_build_object('id', t.id, 'title', t.title, 'status', t.status)), '[]'::jsonb)
+        FROM (SELECT * FROM tasks t WHERE t.deal_id = d.id ORDER BY t.id LIMIT $3) t) AS tasks
+     FROM deals d
+     WHERE d.id = $1 AND d.sales_id = $2`,
+    [id, salesId, MAX_IMPACT_ROWS],
+    context
+  );
+
+  if (!result.success || !result.data?.length) {
+    throw new Error(result.error || "Failed to compute deletion impact");
+  }
+
+  const { notes_total, notes, contacts_total, contacts, journey_legs_total, journey_legs, tasks, ...deal } = result.data[0];
+  return {
+    deal,
+    deleted_with_it: {
+      notes: { total: notes_total, items: notes },
+      contact_associations: contacts_total,
+      journey_legs: { total: journey_legs_total, items: journey_legs },
+    },
+    contacts_unlinked: contacts,
+    linked_tasks: tasks,
+  };
+}
+
 /**
  * Deletes a deal from the CRM
+ * The deal, its notes, contact associations and journey legs are moved to the trash
  */
 async function deleteDeal(
   params: z.infer<typeof DeleteDealSchema>,
@@ -49,34 +120,41 @@ async function deleteDeal(
 
     const dealInfo = checkResult.data[0];
 
-    // Delete associated notes first
-    await executeParameterizedQuery(
-      `DELETE FROM dealNotes WHERE deal_id = $1`,
-      [params.id],
-      context
-    );
+    // Two-phase confirmation: preview the impact first, delete only with the token
+    if (!params.confirmation_token) {
+      const impact = await getDealDeletionImpact(params.id, salesId, context);
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact,
+          ...(await getConfirmationManager().issue("delete_deal", context.authInfo.userId, params)),
+        },
+      };
+    }
 
-    // Delete associated contact associations
-    await executeParameterizedQuery(
-      `DELETE FROM deal_contacts WHERE deal_id = $1`,
-      [params.id],
-      context
-    );
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "delete_deal", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
 
-    // Delete the deal
-    const deleteResult = await executeParameterizedQuery(
-      `DELETE FROM deals WHERE id = $1 AND sales_id = $2 RETURNING id`,
-      [params.id, salesId],
-      context
-    );
+    // Move the deal and everything deleted with it to the trash
+    const trashed = await moveToTrash("deals", params.id, salesId, context);
 
-    if (!deleteResult.success) {
+    if (!trashed) {
       return {
         success: false,
-        error: deleteResult.error || "Failed to delete deal",
+        error: "Deal not found or access denied",
       };
     }
 
+    logDataEvent("delete", "deals", String(params.id), context.authInfo.userId, {
+      details: { trash_id: trashed.trash_id, related: trashed.related },
+    });
+
     console.log(`Deal deleted: ${params.id} by user ${context.authInfo.userId}`);
 
     return {
@@ -85,6 +163,9 @@ async function deleteDeal(
         id: params.id,
         deleted: true,
         deal: dealInfo,
+        trash_id: trashed.trash_id,
+        removed_with_it: trashed.related,
+        restorable_until: trashed.restorable_until,
       },
     };
   } catch (error) {
@@ -100,15 +181,25 @@ export const delete_deal = {
   definition: {
     description: `Delete a deal from the Atomic CRM.
 
-Use this tool when you need to permanently remove a deal from the CRM.
+Use this tool when you need to remove a deal from the CRM.
 
 Required fields:
 - id: ID of the deal to delete
 
-Note: This will also delete all associated notes and contact associations. You can only delete deals that belong to you.
+Optional fields:
+- confirmation_token: Token returned by the preview call
+
+Note: This will also delete all associated notes, contact associations and journey legs. You can only delete deals that belong to you.
+
+Deletion takes two calls:
+1. Call with the id only: returns the impact (the deal; the notes deleted with it, with each note's id and a preview of its text; its journey legs, contacts and tasks; each list shows at most ${MAX_IMPACT_ROWS} rows, with the total for notes and journey legs) and a confirmation_token valid for a few minutes. Nothing is deleted.
+2. Once the user has confirmed it is the right deal, call again with the same id and the confirmation_token.
+
+The deal is moved to the trash, with everything deleted along with it. Use restore_record with the returned trash_id to bring it back within ${config.trash.retentionDays} days; after that it is purged.
 
 Example:
-- Delete a deal: { "id": 123 }`,
+- Preview: { "id": 123 }
+- Confirm: { "id": 123, "confirmation_token": "token-from-preview" }`,
     inputSchema: DeleteDealSchema,
   },
   handler: async (params: z.infer<typeof DeleteDealSchema>, context: McpContext) => {
@@ -119,7 +210,9 @@ Example:
         {
           type: "text" as const,
           text: result.success
-            ? `Deal deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
+            ? result.data?.preview
+              ? `Deletion preview, nothing deleted yet. Check the impact with the user, then call delete_deal again with the same id and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Deal deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
             : `Error deleting deal: ${result.error}`,
         },
       ],
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -7,6 +8,7 @@ import type { McpContext } from "../server.js";
  */
 const DeleteJourneyLegSchema = z.object({
   id: z.string().uuid().describe("UUID of the journey leg to delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the leg first"),
 });
 
 /**
@@ -27,7 +29,9 @@ async function deleteJourneyLeg(
 
     // Verify the journey leg exists and user has access to the deal
     const legCheck = await executeParameterizedQuery(
-      `SELECT jl.id 
+      `SELECT jl.id, jl.deal_id, d.name AS deal_name, jl.leg_order, jl.leg_type,
+              jl.pickup_datetime, jl.pickup_location_text, jl.dropoff_location_text,
+              (SELECT count(*) FROM deal_journey_legs other WHERE other.deal_id = jl.deal_id)::int AS deal_leg_count
        FROM deal_journey_legs jl
        JOIN deals d ON jl.deal_id = d.id
        WHERE jl.id = $1 AND d.sales_id IN (SELECT id FROM sales WHERE user_id = $2)`,
@@ -42,6 +46,27 @@ async function deleteJourneyLeg(
       };
     }
 
+    // Two-phase confirmation: preview the leg first, delete only with the token
+    if (!params.confirmation_token) {
+      const { deal_leg_count, ...leg } = legCheck.data[0];
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact: { journey_leg: leg, legs_left_on_deal: deal_leg_count - 1 },
+          ...(await getConfirmationManager().issue("delete_deal_journey_leg", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "delete_deal_journey_leg", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
+
     // Delete the journey leg
     const result = await executeParameterizedQuery(
       `DELETE FROM deal_journey_legs WHERE id = $1 RETURNING id`,
@@ -70,7 +95,7 @@ async function deleteJourneyLeg(
 
 export const delete_deal_journey_leg = {
   definition: {
-    description: "Deletes a journey leg",
+    description: "Deletes a journey leg. Call first with the id only to preview the leg and get a confirmation_token, then again with the id and confirmation_token to delete it.",
     inputSchema: DeleteJourneyLegSchema,
   },
   handler: deleteJourneyLeg,
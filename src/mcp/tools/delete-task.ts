@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { moveToTrash } from "../../services/trash.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -7,10 +11,37 @@ import type { McpContext } from "../server.js";
  */
 const DeleteTaskSchema = z.object({
   id: z.number().int().positive().describe("ID of the task to delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the impact first"),
 });
 
 /**
- * Deletes a task from the CRM
+ * Describes the task about to be deleted and what it relates to
+ */
+async function getTaskDeletionImpact(id: number, salesId: number, context: McpContext) {
+  const result = await executeParameterizedQuery(
+    `SELECT
+       t.id, t.title, t.status, t.priority, t.due_date,
+       NULLIF(concat_ws(' ', c.first_name, c.last_name), '') AS contact_name,
+       co.name AS company_name,
+       d.name AS deal_name
+     FROM tasks t
+     LEFT JOIN contacts c ON t.contact_id = c.id
+     LEFT JOIN companies co ON t.company_id = co.id
+     LEFT JOIN deals d ON t.deal_id = d.id
+     WHERE t.id = $1 AND t.sales_id = $2`,
+    [id, salesId],
+    context
+  );
+
+  if (!result.success || !result.data?.length) {
+    throw new Error(result.error || "Failed to compute deletion impact");
+  }
+
+  return { task: result.data[0] };
+}
+
+/**
+ * Deletes a task from the CRM (moves it to the trash)
  */
 async function deleteTask(
   params: z.infer<typeof DeleteTaskSchema>,
@@ -49,20 +80,41 @@ async function deleteTask(
 
     const taskInfo = checkResult.data[0];
 
-    // Delete the task
-    const deleteResult = await executeParameterizedQuery(
-      `DELETE FROM tasks WHERE id = $1 AND sales_id = $2 RETURNING id`,
-      [params.id, salesId],
-      context
-    );
+    // Two-phase confirmation: preview the impact first, delete only with the token
+    if (!params.confirmation_token) {
+      const impact = await getTaskDeletionImpact(params.id, salesId, context);
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact,
+          ...(await getConfirmationManager().issue("delete_task", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    const rejection = await getConfirmationManager().verify(params.confirmation_token, "delete_task", context.authInfo.userId, params);
+    if (rejection) {
+      return {
+        success: false,
+        error: rejection,
+      };
+    }
 
-    if (!deleteResult.success) {
+    // Move the task to the trash
+    const trashed = await moveToTrash("tasks", params.id, salesId, context);
+
+    if (!trashed) {
       return {
         success: false,
-        error: deleteResult.error || "Failed to delete task",
+        error: "Task not found or access denied",
       };
     }
 
+    logDataEvent("delete", "tasks", String(params.id), context.authInfo.userId, {
+      details: { trash_id: trashed.trash_id },
+    });
+
     console.log(`Task deleted: ${params.id} by user ${context.authInfo.userId}`);
 
     return {
@@ -71,6 +123,8 @@ async function deleteTask(
         id: params.id,
         deleted: true,
         task: taskInfo,
+        trash_id: trashed.trash_id,
+        restorable_until: trashed.restorable_until,
       },
     };
   } catch (error) {
@@ -86,15 +140,25 @@ export const delete_task = {
   definition: {
     description: `Delete a task from the Atomic CRM.
 
-Use this tool when you need to permanently remove a task from the CRM.
+Use this tool when you need to remove a task from the CRM.
 
 Required fields:
 - id: ID of the task to delete
 
+Optional fields:
+- confirmation_token: Token returned by the preview call
+
 Note: You can only delete tasks that belong to you.
 
+Deletion takes two calls:
+1. Call with the id only: returns the impact (the task and the contact, company and deal it relates to) and a confirmation_token valid for a few minutes. Nothing is deleted.
+2. Once the user has confirmed it is the right task, call again with the same id and the confirmation_token.
+
+The task is moved to the trash. Use restore_record with the returned trash_id to bring it back within ${config.trash.retentionDays} days; after that it is purged.
+
 Example:
-- Delete a task: { "id": 123 }`,
+- Preview: { "id": 123 }
+- Confirm: { "id": 123, "confirmation_token": "token-from-preview" }`,
     inputSchema: DeleteTaskSchema,
   },
   handler: async (params: z.infer<typeof DeleteTaskSchema>, context: McpContext) => {
@@ -105,7 +169,9 @@ Example:
         {
           type: "text" as const,
           text: result.success
-            ? `Task deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
+            ? result.data?.preview
+              ? `Deletion preview, nothing deleted yet. Check the impact with the user, then call delete_task again with the same id and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Task deleted successfully:\n${JSON.stringify(result.data, null, 2)}`
             : `Error deleting task: ${result.error}`,
         },
       ],
@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { isValidTable, getPool } from "../../db/query-builder.js";
+import { findJourneyConflicts } from "../../services/journey-conflicts.js";
+import { JOURNEY_LEG_COLUMNS, journeyLegValues, planLegCopies } from "../../services/journey-templates.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+import { decodeJwt } from "jose";
+
+/**
+ * Input schema for duplicating journey legs
+ */
+const DuplicateJourneyLegsSchema = z.object({
+  deal_id: z.union([z.string(), z.number()]).describe("ID of the deal to copy legs from (bigint)"),
+  target_deal_id: z.union([z.string(), z.number()]).optional().describe("ID of the deal to copy legs to (bigint, defaults to deal_id)"),
+  offset_days: z.number().int().min(-365).max(365).optional().default(0).describe("Days to move each pickup by, keeping its local time"),
+  leg_ids: z.array(z.string().uuid()).min(1).max(100).optional().describe("UUIDs of the legs to copy (defaults to all legs of the deal)"),
+  strictness: z.enum(["warn", "error"]).optional().describe("warn: save the copies and report conflicts with the target deal's legs; error: copy nothing when there are any"),
+});
+
+/**
+ * Copies a deal's journey legs to another deal or to other dates
+ * Uses a single transaction so either every copy is created or none
+ */
+async function duplicateJourneyLegs(
+  params: z.infer<typeof DuplicateJourneyLegsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string; conflicts?: any[] }> {
+  const pool = getPool();
+  let client = null;
+
+  try {
+    // Validate table exists
+    if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Convert deal ids to numbers if they're strings
+    const toId = (id: string | number) => typeof id === 'string' ? parseInt(id, 10) : id;
+    const dealId = toId(params.deal_id);
+    const targetDealId = params.target_deal_id === undefined ? dealId : toId(params.target_deal_id);
+
+    if (isNaN(dealId) || isNaN(targetDealId)) {
+      return {
+        success: false,
+        error: "Invalid deal_id or target_deal_id: must be a valid number",
+      };
+    }
+
+    if (targetDealId === dealId && params.offset_days === 0) {
+      return {
+        success: false,
+        error: "Copying legs onto the same deal and dates would duplicate them: pass a target_deal_id or a non-zero offset_days",
+      };
+    }
+
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    // Start transaction
+    await client.query("BEGIN");
+
+    // Set RLS role
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    // Set JWT claims for RLS
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // Verify the user has access to both deals; locking them keeps concurrent copies from sharing a leg_order
+    const dealCheck = await client.query(
+      `SELECT id FROM deals
+       WHERE id = ANY($1::bigint[]) AND sales_id IN (SELECT id FROM sales WHERE user_id = $2)
+       ORDER BY id
+       FOR UPDATE`,
+      [[dealId, targetDealId], context.authInfo.userId]
+    );
+
+    if (dealCheck.rows.length !== new Set([dealId, targetDealId]).size) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Deal not found or access denied",
+      };
+    }
+
+    const sourceResult = await client.query(
+      `SELECT id, ${JOURNEY_LEG_COLUMNS.join(", ")}
+       FROM deal_journey_legs
+       WHERE deal_id = $1 AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))
+       ORDER BY leg_order ASC`,
+      [dealId, params.leg_ids ?? null]
+    );
+
+    if (params.leg_ids) {
+      const found = new Set(sourceResult.rows.map((leg: any) => leg.id));
+      const missing = params.leg_ids.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        await client.query("ROLLBACK");
+        return {
+          success: false,
+          error: `Journey legs not found or not belonging to this deal: ${missing.join(", ")}`,
+        };
+      }
+    }
+
+    if (!sourceResult.rows.length) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "The deal has no journey legs to copy",
+      };
+    }
+
+    // Copies are appended after the target deal's existing legs
+    const maxOrderResult = await client.query(
+      `SELECT COALESCE(MAX(leg_order), 0) AS max_order FROM deal_journey_legs WHERE deal_id = $1`,
+      [targetDealId]
+    );
+    const copies = planLegCopies(sourceResult.rows, {
+      startOrder: Number(maxOrderResult.rows[0].max_order) + 1,
+      offsetDays: params.offset_days,
+    });
+
+    const placeholders = JOURNEY_LEG_COLUMNS.map((_, index) => `$${index + 2}`).join(", ");
+    const createdIds: string[] = [];
+    for (const copy of copies) {
+      const insertResult = await client.query(
+        `INSERT INTO deal_journey_legs (deal_id, ${JOURNEY_LEG_COLUMNS.join(", ")}, created_at, updated_at)
+         VALUES ($1, ${placeholders}, NOW(), NOW())
+         RETURNING id`,
+        [targetDealId, ...journeyLegValues(copy)]
+      );
+      createdIds.push(insertResult.rows[0].id);
+    }
+
+    // Check the copies against the target deal's legs
+    const targetLegsResult = await client.query(
+      `SELECT id, ${JOURNEY_LEG_COLUMNS.join(", ")}, deal_id, created_at, updated_at
+       FROM deal_journey_legs
+       WHERE deal_id = $1
+       ORDER BY leg_order ASC`,
+      [targetDealId]
+    );
+
+    const strictness = params.strictness ?? config.journeys.conflictStrictness;
+    const created = new Set(createdIds);
+    const conflicts = findJourneyConflicts(targetLegsResult.rows, {
+      minGapMinutes: config.journeys.minLegGapMinutes,
+      strictness,
+    }).filter((conflict) => created.has(conflict.leg_id) || created.has(conflict.other_leg_id));
+
+    if (strictness === "error" && conflicts.length > 0) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `Copied legs conflict with the target deal's legs: ${conflicts.map((conflict) => conflict.message).join("; ")}`,
+        conflicts,
+      };
+    }
+
+    // Commit transaction
+    await client.query("COMMIT");
+
+    return {
+      success: true,
+      data: {
+        source_deal_id: dealId,
+        target_deal_id: targetDealId,
+        offset_days: params.offset_days,
+        copied: createdIds.length,
+        legs: targetLegsResult.rows.filter((leg: any) => created.has(leg.id)),
+      },
+      ...(conflicts.length > 0 ? { conflicts } : {}),
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+export const duplicate_journey_legs = {
+  definition: {
+    description: "Copies a deal's journey legs (all of them, or the ones in leg_ids) to another deal (target_deal_id) and/or moves their pickups by offset_days, keeping each pickup's local time in its zone. Copies keep every field, including notes, and are appended after the target deal's existing legs in their original order. Runs in a single transaction: either every leg is copied or none. Copies are checked for scheduling conflicts with the target deal's legs, reported as warnings or, with strictness \"error\", cancelling the copy.",
+    inputSchema: DuplicateJourneyLegsSchema,
+  },
+  handler: duplicateJourneyLegs,
+};
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { streamParameterizedQuery, buildFilterClause, isValidTable } from "../../db/query-builder.js";
+import { formatCsvRow } from "../../services/csv.js";
+import { formatVCard } from "../../services/vcard.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { config } from "../../config.js";
+import { FilterNodeSchema } from "./list-records.js";
+import { prepareReadOnlyQuery, checkQueryCost } from "./query.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for exporting records
+ */
+export const ExportRecordsSchema = z.object({
+  source: z.enum(["contacts", "companies", "deals", "query"]).describe("What to export"),
+  format: z.enum(["csv", "ndjson", "vcard"]).default("csv").describe("Output format (vcard is only available for contacts)"),
+  filter: FilterNodeSchema.optional().describe("Structured filter on the exported columns (same syntax as list_records)"),
+  sql: z.string().min(1).max(10000).optional().describe("SELECT query to export when source is \"query\""),
+});
+
+/**
+ * Columns exported for each table
+ * Filters apply to these output columns, so company_name can be filtered on for contacts
+ */
+const SOURCE_QUERIES: Record<"contacts" | "companies" | "deals", string> = {
+  contacts: `
+    SELECT
+      c.id, c.first_name, c.last_name, c.title, c.email_jsonb, c.phone_jsonb,
+      c.status, c.company_id, co.name AS company_name, c.linkedin_url,
+      c.background, c.tags, c.has_newsletter, c.first_seen, c.last_seen
+    FROM contacts c
+    LEFT JOIN companies co ON c.company_id = co.id`,
+  companies: `
+    SELECT
+      id, name, website, phone, address, city, state, country, zip_code,
+      industry, size, revenue, description, linkedin_url, created_at
+    FROM companies`,
+  deals: `
+    SELECT
+      id, name, company_id, company_name, contact_ids, stage, category, amount,
+      expected_closing_date, description, created_at, updated_at, archived_at
+    FROM deals`,
+};
+
+/**
+ * Content type and file extension of each format
+ */
+export const EXPORT_FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" },
+  vcard: { contentType: "text/vcard; charset=utf-8", extension: "vcf" },
+} as const;
+
+/**
+ * Exports records, writing the output chunk by chunk as rows are read
+ * Rows come from a server-side cursor, so nothing is built in memory here; the
+ * caller decides what to do with each chunk (collect it, or stream it to a response)
+ * @param params - What to export and how
+ * @param context - Authentication context
+ * @param write - Receives each chunk of output; may return a promise for backpressure
+ * @param options - Row cap and channel recorded in the audit log
+ */
+export async function exportRecords(
+  params: z.infer<typeof ExportRecordsSchema>,
+  context: McpContext,
+  write: (chunk: string) => Promise<void> | void,
+  options: { maxRows?: number; channel: "mcp" | "http" }
+): Promise<{ success: boolean; data?: { row_count: number; truncated: boolean }; error?: string; details?: Record<string, unknown> }> {
+  try {
+    if (params.format === "vcard" && params.source !== "contacts") {
+      return {
+        success: false,
+        error: "The vcard format is only available for contacts",
+      };
+    }
+
+    let sql: string;
+    let queryParams: unknown[] = [];
+
+    if (params.source === "query") {
+      if (!params.sql) {
+        return {
+          success: false,
+          error: "sql is required when source is \"query\"",
+        };
+      }
+      if (params.filter) {
+        return {
+          success: false,
+          error: "filter cannot be combined with a query export, put the conditions in the SQL",
+        };
+      }
+
+      const prepared = prepareReadOnlyQuery(params.sql);
+      if (!prepared.success || !prepared.sql) {
+        return {
+          success: false,
+          error: prepared.error,
+        };
+      }
+
+      // The whole query will be read, so the cost guard looks at the unpaged statement
+      const costCheck = await checkQueryCost(prepared.sql, context);
+      if (!costCheck.success) {
+        return costCheck;
+      }
+      sql = prepared.sql;
+    } else {
+      if (!isValidTable(params.source)) {
+        return {
+          success: false,
+          error: "Invalid table configuration",
+        };
+      }
+
+      let whereClause = "";
+      if (params.filter) {
+        const filter = buildFilterClause(params.filter, 1);
+        if (filter.clause) {
+          whereClause = `WHERE ${filter.clause}`;
+          queryParams = filter.params;
+        }
+      }
+      sql = `SELECT * FROM (${SOURCE_QUERIES[params.source]}\n) AS export_source ${whereClause} ORDER BY id`;
+    }
+
+    const maxRows = options.maxRows ?? Infinity;
+    let written = 0;
+    let truncated = false;
+
+    const result = await streamParameterizedQuery(
+      sql,
+      queryParams,
+      context,
+      async (rows, columns) => {
+        if (written === 0 && params.format === "csv") {
+          await write(formatCsvRow(columns));
+        }
+
+        const remaining = maxRows - written;
+        const batch = rows.length > remaining ? rows.slice(0, remaining) : rows;
+        if (batch.length < rows.length) truncated = true;
+
+        let chunk = "";
+        for (const row of batch) {
+          if (params.format === "csv") {
+            chunk += formatCsvRow(columns.map((column) => row[column]));
+          } else if (params.format === "ndjson") {
+            chunk += JSON.stringify(row) + "\n";
+          } else {
+            chunk += formatVCard(row);
+          }
+        }
+        if (chunk) await write(chunk);
+
+        written += batch.length;
+
+        // Stop reading once a row beyond the cap has been seen
+        if (truncated) return false;
+      },
+      { batchSize: config.export.batchSize }
+    );
+
+    logDataEvent("export", params.source, undefined, context.authInfo.userId, {
+      details: {
+        format: params.format,
+        channel: options.channel,
+        row_count: written,
+        truncated,
+        filtered: Boolean(params.filter || params.sql),
+      },
+      success: result.success,
+      errorMessage: result.error,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Export failed",
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        row_count: written,
+        truncated,
+      },
+    };
+  } catch (error) {
+    console.error("Export records error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const export_records = {
+  definition: {
+    description: `Export contacts, companies, deals or the result of a query as CSV, JSON Lines (NDJSON) or vCard.
+
+Use this tool when the user wants a file to hand over (e.g. a contact list for marketing) rather than an answer. No SQL knowledge is needed for table exports.
+
+Parameters:
+- source (required): "contacts", "companies", "deals" or "query"
+- format (optional): "csv" (default), "ndjson" (one JSON object per line) or "vcard" (vCard 4.0, contacts only, for address books)
+- filter (optional): Filter on the exported columns, same syntax as list_records, e.g. { "column": "status", "op": "eq", "value": "hot" }
+- sql (required when source is "query"): A SELECT query, validated exactly like the query tool
+
+Exported columns:
+- contacts: id, first_name, last_name, title, email_jsonb, phone_jsonb, status, company_id, company_name, linkedin_url, background, tags, has_newsletter, first_seen, last_seen
+- companies: id, name, website, phone, address, city, state, country, zip_code, industry, size, revenue, description, linkedin_url, created_at
+- deals: id, name, company_id, company_name, contact_ids, stage, category, amount (in cents), expected_closing_date, description, created_at, updated_at, archived_at
+
+In CSV, lists of emails and phone numbers are joined with "; ". This tool returns at most ${config.export.maxToolRows} rows; "truncated": true means more rows matched. For larger exports, POST the same parameters to the server's /export endpoint, which streams the complete file.
+
+Every export is recorded in the audit log. Row Level Security applies.
+
+Examples:
+- Newsletter list: { "source": "contacts", "format": "csv", "filter": { "column": "has_newsletter", "op": "eq", "value": true } }
+- Address book: { "source": "contacts", "format": "vcard", "filter": { "column": "company_name", "op": "ilike", "value": "acme" } }
+- Won deals: { "source": "query", "format": "ndjson", "sql": "SELECT name, amount, company_name FROM deals WHERE stage = 'won'" }`,
+    inputSchema: ExportRecordsSchema,
+  },
+  handler: async (params: z.infer<typeof ExportRecordsSchema>, context: McpContext) => {
+    const chunks: string[] = [];
+    const result = await exportRecords(params, context, (chunk) => {
+      chunks.push(chunk);
+    }, { maxRows: config.export.maxToolRows, channel: "mcp" });
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Exported ${result.data?.row_count} ${params.source} as ${params.format}${result.data?.truncated ? ` (truncated to ${config.export.maxToolRows} rows, use the /export endpoint for the full file)` : ""}:\n\n${chunks.join("")}`
+            : `Error exporting records: ${result.error}${result.details ? `\n${JSON.stringify(result.details, null, 2)}` : ""}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
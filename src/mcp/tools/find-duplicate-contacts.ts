@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for finding duplicate contacts
+ */
+const FindDuplicateContactsSchema = z.object({
+  contact_id: z.string().uuid().optional().describe("Only look for duplicates of this contact"),
+  min_name_similarity: z.number().min(0.3).max(1).default(0.6).describe("Minimum name similarity (0-1) for a name-only match"),
+  limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of candidate pairs to return"),
+});
+
+/**
+ * Finds pairs of contacts that are likely the same person
+ * A pair matches on a shared email, a shared phone number (compared on digits),
+ * or a similar name; a shared company raises the score of name matches
+ */
+async function findDuplicateContacts(
+  params: z.infer<typeof FindDuplicateContactsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("contacts") || !isValidTable("companies")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const queryParams: unknown[] = [params.min_name_similarity, params.limit];
+    let pairCondition = "a.id < b.id";
+    if (params.contact_id) {
+      queryParams.push(params.contact_id);
+      pairCondition = `a.id = $${queryParams.length} AND b.id <> a.id`;
+    }
+
+    const sql = `
+      WITH contact_keys AS (
+        SELECT
+          c.id,
+          c.first_name,
+          c.last_name,
+          c.title,
+          c.company_id,
+          c.last_seen,
+          lower(concat_ws(' ', c.first_name, c.last_name)) AS full_name,
+          ARRAY(
+            SELECT lower(trim(e->>'email'))
+            FROM jsonb_array_elements(coalesce(c.email_jsonb, '[]'::jsonb)) AS e
+            WHERE coalesce(trim(e->>'email'), '') <> ''
+          ) AS emails,
+          ARRAY(
+            SELECT right(regexp_replace(p->>'number', '\\D', '', 'g'), 9)
+            FROM jsonb_array_elements(coalesce(c.phone_jsonb, '[]'::jsonb)) AS p
+            WHERE length(regexp_replace(p->>'number', '\\D', '', 'g')) >= 6
+          ) AS phones
+        FROM contacts c
+      ),
+      pairs AS (
+        SELECT
+          a.id AS a_id, a.first_name AS a_first_name, a.last_name AS a_last_name,
+          a.title AS a_title, a.company_id AS a_company_id, a.last_seen AS a_last_seen,
+          b.id AS b_id, b.first_name AS b_first_name, b.last_name AS b_last_name,
+          b.title AS b_title, b.company_id AS b_company_id, b.last_seen AS b_last_seen,
+          similarity(a.full_name, b.full_name) AS name_similarity,
+          a.emails && b.emails AS same_email,
+          a.phones && b.phones AS same_phone,
+          (a.company_id IS NOT NULL AND a.company_id = b.company_id) AS same_company
+        FROM contact_keys a
+        JOIN contact_keys b ON ${pairCondition}
+        WHERE a.emails && b.emails
+          OR a.phones && b.phones
+          OR similarity(a.full_name, b.full_name) >= $1
+      )
+      SELECT
+        pairs.*,
+        co_a.name AS a_company_name,
+        co_b.name AS b_company_name,
+        LEAST(1, GREATEST(
+          CASE WHEN pairs.same_email THEN 1 ELSE 0 END,
+          CASE WHEN pairs.same_phone THEN 0.95 ELSE 0 END,
+          pairs.name_similarity * 0.9 + CASE WHEN pairs.same_company THEN 0.1 ELSE 0 END
+        )) AS score
+      FROM pairs
+      LEFT JOIN companies co_a ON pairs.a_company_id = co_a.id
+      LEFT JOIN companies co_b ON pairs.b_company_id = co_b.id
+      ORDER BY score DESC, pairs.name_similarity DESC
+      LIMIT $2
+    `;
+
+    const result = await executeParameterizedQuery(sql, queryParams, context);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to find duplicate contacts",
+      };
+    }
+
+    const describeContact = (row: any, prefix: "a" | "b") => ({
+      id: row[`${prefix}_id`],
+      name: `${row[`${prefix}_first_name`]} ${row[`${prefix}_last_name`]}`,
+      title: row[`${prefix}_title`],
+      company: row[`${prefix}_company_id`] ? {
+        id: row[`${prefix}_company_id`],
+        name: row[`${prefix}_company_name`],
+      } : null,
+      last_seen: row[`${prefix}_last_seen`],
+    });
+
+    const candidates = (result.data || []).map((row: any) => {
+      const reasons: string[] = [];
+      if (row.same_email) reasons.push("same email");
+      if (row.same_phone) reasons.push("same phone number");
+      if (parseFloat(row.name_similarity) >= params.min_name_similarity) reasons.push("similar name");
+      if (row.same_company) reasons.push("same company");
+
+      return {
+        score: Math.round(parseFloat(row.score) * 1000) / 1000,
+        name_similarity: Math.round(parseFloat(row.name_similarity) * 1000) / 1000,
+        reasons,
+        contacts: [describeContact(row, "a"), describeContact(row, "b")],
+      };
+    });
+
+    return {
+      success: true,
+      data: {
+        total: candidates.length,
+        candidates,
+      },
+    };
+  } catch (error) {
+    console.error("Find duplicate contacts error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const find_duplicate_contacts = {
+  definition: {
+    description: `Find contacts in the Atomic CRM that are probably the same person.
+
+Use this tool to clean up the CRM, or before merge_contacts to pick which records to merge.
+
+Parameters:
+- contact_id (optional): Only look for duplicates of this contact (UUID)
+- min_name_similarity (optional): How close names must be to match on name alone (default: 0.6, min: 0.3)
+- limit (optional): Maximum number of candidate pairs (default: 20, max: 100)
+
+Two contacts are candidates when they share an email address, share a phone number (formatting is ignored), or have similar names. Each pair has a score between 0 and 1 and the reasons it matched. Nothing is changed: review the pairs, then call merge_contacts.
+
+Examples:
+- Scan the whole CRM: {}
+- Duplicates of one contact: { "contact_id": "uuid-here" }`,
+    inputSchema: FindDuplicateContactsSchema,
+  },
+  handler: async (params: z.infer<typeof FindDuplicateContactsSchema>, context: McpContext) => {
+    const result = await findDuplicateContacts(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error finding duplicate contacts: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
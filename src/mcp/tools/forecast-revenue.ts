@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { buildForecast, closedStages, forecastRange } from "../../services/forecast.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for the revenue forecast
+ */
+const ForecastRevenueSchema = z.object({
+  group_by: z.enum(["month", "quarter"]).default("month").describe("Period to group deals by"),
+  periods: z.number().int().min(1).max(24).default(6).describe("Number of periods to forecast, starting with the current one"),
+  history_periods: z.number().int().min(0).max(24).default(6).describe("Number of past periods to compare forecasts with actual wins"),
+  sales_id: z.number().int().positive().optional().describe("Only include deals owned by this sales rep"),
+  category: z.string().max(100).optional().describe("Only include deals of this category"),
+  stage_probabilities: z.record(z.string(), z.number().min(0).max(100)).optional().describe("Win probability (0-100) per stage, overriding the configured ones"),
+});
+
+/**
+ * Builds the revenue forecast for the deals the user can see
+ */
+async function forecastRevenue(
+  params: z.infer<typeof ForecastRevenueSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("deals") || !isValidTable("deal_stage_history")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const probabilities = { ...config.forecast.stageProbabilities, ...params.stage_probabilities };
+    const stages = closedStages(probabilities);
+    if (stages.won.length === 0) {
+      return {
+        success: false,
+        error: "No won stage: give at least one stage a probability of 100",
+      };
+    }
+
+    const options = {
+      unit: params.group_by,
+      periods: params.periods,
+      historyPeriods: params.history_periods,
+      probabilities,
+      commitProbability: config.forecast.commitProbability,
+      bestCaseProbability: config.forecast.bestCaseProbability,
+    };
+    const range = forecastRange(options);
+
+    // $1 and $2 filter on the owner and category in every query
+    const filters = `($1::bigint IS NULL OR d.sales_id = $1) AND ($2::text IS NULL OR d.category = $2)`;
+    const filterParams = [params.sales_id ?? null, params.category ?? null];
+
+    // Open deals: not archived, in neither a won nor a lost stage
+    const openResult = await executeParameterizedQuery(
+      `SELECT d.id, d.stage, coalesce(d.amount, 0) AS amount,
+        to_char(d.expected_closing_date, 'YYYY-MM-DD') AS expected_closing_date
+      FROM deals d
+      WHERE ${filters}
+        AND d.archived_at IS NULL
+        AND NOT (coalesce(d.stage, '') = ANY($3))`,
+      [...filterParams, [...stages.won, ...stages.lost]],
+      context
+    );
+
+    if (!openResult.success) {
+      return {
+        success: false,
+        error: openResult.error || "Failed to fetch open deals",
+      };
+    }
+
+    // Won deals, dated by their last move into a won stage (archived ones included)
+    const wonResult = await executeParameterizedQuery(
+      `SELECT d.id, coalesce(d.amount, 0) AS amount,
+        to_char(coalesce(w.won_at, d.updated_at) AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS won_on
+      FROM deals d
+      LEFT JOIN LATERAL (
+        SELECT max(h.changed_at) AS won_at
+        FROM deal_stage_history h
+        WHERE h.deal_id = d.id AND h.to_stage = ANY($3)
+      ) w ON true
+      WHERE ${filters}
+        AND d.stage = ANY($3)
+        AND coalesce(w.won_at, d.updated_at) >= $4::date
+        AND coalesce(w.won_at, d.updated_at) < $5::date`,
+      [...filterParams, stages.won, range.historyStart, range.end],
+      context
+    );
+
+    if (!wonResult.success) {
+      return {
+        success: false,
+        error: wonResult.error || "Failed to fetch won deals",
+      };
+    }
+
+    // Every deal that was expected to close in a past period, whatever happened to it
+    const expectedResult = await executeParameterizedQuery(
+      `SELECT d.id, coalesce(d.amount, 0) AS amount,
+        to_char(d.expected_closing_date, 'YYYY-MM-DD') AS expected_closing_date
+      FROM deals d
+      WHERE ${filters}
+        AND d.expected_closing_date >= $3::date
+        AND d.expected_closing_date < $4::date`,
+      [...filterParams, range.historyStart, range.currentStart],
+      context
+    );
+
+    if (!expectedResult.success) {
+      return {
+        success: false,
+        error: expectedResult.error || "Failed to fetch past expected deals",
+      };
+    }
+
+    const forecast = buildForecast(
+      {
+        open: (openResult.data || []).map((row: any) => ({
+          id: Number(row.id),
+          stage: row.stage,
+          amount: Number(row.amount),
+          expected_closing_date: row.expected_closing_date,
+        })),
+        won: (wonResult.data || []).map((row: any) => ({
+          id: Number(row.id),
+          amount: Number(row.amount),
+          won_on: row.won_on,
+        })),
+        expected: (expectedResult.data || []).map((row: any) => ({
+          id: Number(row.id),
+          amount: Number(row.amount),
+          expected_closing_date: row.expected_closing_date,
+        })),
+      },
+      options
+    );
+
+    return {
+      success: true,
+      data: {
+        group_by: params.group_by,
+        amounts: "cents",
+        filters: { sales_id: params.sales_id ?? null, category: params.category ?? null },
+        stage_probabilities: probabilities,
+        won_stages: stages.won,
+        lost_stages: stages.lost,
+        commit_probability: options.commitProbability,
+        best_case_probability: options.bestCaseProbability,
+        ...forecast,
+      },
+    };
+  } catch (error) {
+    console.error("Forecast revenue error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const forecast_revenue = {
+  definition: {
+    description: `Forecast revenue from the Atomic CRM pipeline, by month or quarter.
+
+Use this tool for forecast meetings and revenue questions ("what will we close this quarter?"). Open deals are grouped by expected_closing_date and weighted by the win probability of their stage.
+
+Optional fields:
+- group_by: "month" (default) or "quarter"
+- periods: Periods to forecast, starting with the current one (default: 6, max 24)
+- history_periods: Past periods to compare expected and won amounts (default: 6, max 24)
+- sales_id: Only include deals owned by this sales rep
+- category: Only include deals of this category
+- stage_probabilities: Win probability per stage, overriding the configured ones, e.g. { "proposal": 40 }
+
+Configured stage probabilities: ${Object.entries(config.forecast.stageProbabilities).map(([stage, probability]) => `${stage} ${probability}%`).join(", ")}. A stage at 100% is won, a stage at 0% is lost.
+
+All amounts are in cents, like deal amounts (e.g. 500000 = $5,000.00). Each forecast period returns:
+- won: Amount won in the period
+- commit: won + open deals at or above ${config.forecast.commitProbability}%
+- best_case: won + open deals at or above ${config.forecast.bestCaseProbability}%
+- pipeline: All open deals expected to close in the period, unweighted
+- weighted: won + open deals weighted by their stage's probability
+
+Also returned:
+- overdue: Open deals whose expected closing date has passed (included in totals)
+- later: Open deals expected after the last period
+- undated: Open deals without an expected closing date
+- history: For each past period, the amount of deals expected to close in it, the amount actually won in it, and the attainment (won / expected); historical_attainment is the overall ratio
+- unmapped_stages: Stages of open deals without a probability (weighted at 0%)
+
+Won dates come from the deal stage history. The forecast covers every deal you can see, not only your own; use sales_id to narrow it.
+
+Examples:
+- Next six months: {}
+- Next four quarters for one rep: { "group_by": "quarter", "periods": 4, "sales_id": 3 }`,
+    inputSchema: ForecastRevenueSchema,
+  },
+  handler: async (params: z.infer<typeof ForecastRevenueSchema>, context: McpContext) => {
+    const result = await forecastRevenue(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error forecasting revenue: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { formatItinerary, formatSmsItinerary } from "../../services/itinerary.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for generating an itinerary
+ */
+const GenerateItinerarySchema = z.object({
+  deal_id: z.union([z.string(), z.number()]).describe("ID of the deal to build the itinerary for (bigint)"),
+  format: z.enum(["markdown", "html", "sms"]).default("markdown").describe("Output format"),
+  variant: z.enum(["driver", "dispatcher"]).default("driver").describe("driver: for the chauffeur; dispatcher: also includes dispatch notes"),
+});
+
+/**
+ * Builds a formatted itinerary from a deal's journey legs
+ */
+async function generateItinerary(
+  params: z.infer<typeof GenerateItinerarySchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table exists
+    if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Convert deal_id to number if it's a string
+    const dealId = typeof params.deal_id === 'string' ? parseInt(params.deal_id, 10) : params.deal_id;
+
+    if (isNaN(dealId)) {
+      return {
+        success: false,
+        error: "Invalid deal_id: must be a valid number",
+      };
+    }
+
+    // Get the deal with its company and primary (first) contact, checking the user has access
+    const dealResult = await executeParameterizedQuery(
+      `SELECT d.id, d.name, co.name AS company_name,
+        nullif(trim(concat_ws(' ', c.first_name, c.last_name)), '') AS contact_name,
+        c.phone_jsonb->0->>'number' AS contact_phone
+      FROM deals d
+      LEFT JOIN companies co ON co.id = d.company_id
+      LEFT JOIN contacts c ON c.id = d.contact_ids[1]
+      WHERE d.id = $1 AND d.sales_id IN (SELECT id FROM sales WHERE user_id = $2)`,
+      [dealId, context.authInfo.userId],
+      context
+    );
+
+    if (!dealResult.success || !dealResult.data?.length) {
+      return {
+        success: false,
+        error: "Deal not found or access denied",
+      };
+    }
+
+    const legsResult = await executeParameterizedQuery(
+      `SELECT
+        leg_order, leg_type,
+        pickup_datetime, pickup_timezone,
+        pickup_location_text, dropoff_location_text,
+        transport_mode, carrier_or_operator, transport_number,
+        origin_code, destination_code,
+        terminal, gate, platform,
+        meet_point_instructions, driver_notes, dispatch_notes
+      FROM deal_journey_legs
+      WHERE deal_id = $1
+      ORDER BY leg_order ASC`,
+      [dealId],
+      context
+    );
+
+    if (!legsResult.success) {
+      return {
+        success: false,
+        error: "Failed to fetch journey legs",
+      };
+    }
+
+    const deal = dealResult.data[0];
+    const legs = legsResult.data || [];
+    const options = { format: params.format, variant: params.variant };
+
+    return {
+      success: true,
+      data: {
+        deal_id: deal.id,
+        deal_name: deal.name,
+        format: params.format,
+        variant: params.variant,
+        leg_count: legs.length,
+        itinerary: formatItinerary(deal, legs, options),
+        // SMS messages are also returned one by one, ready to send
+        ...(params.format === "sms" ? { messages: formatSmsItinerary(legs, params.variant) } : {}),
+      },
+    };
+  } catch (error) {
+    console.error("Generate itinerary error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export const generate_itinerary = {
+  definition: {
+    description: `Generates a formatted itinerary from a deal's journey legs, in leg order, to send to a driver or customer.
+
+Each leg shows the pickup time in local time at the pickup place (with its time zone and UTC offset), the pickup and dropoff locations, the flight or train number with carrier and route, terminal, gate and platform, meet point instructions and driver notes.
+
+Fields:
+- deal_id: The deal (required)
+- format: "markdown" (default), "html" (a standalone page) or "sms" (one message per leg of at most 160 characters; meet point and notes are shortened to fit, and the messages are also returned as a list)
+- variant: "driver" (default) or "dispatcher", which also includes the dispatch notes`,
+    inputSchema: GenerateItinerarySchema,
+  },
+  handler: generateItinerary,
+};
@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for getting a deal's stage history
+ */
+const GetDealHistorySchema = z.object({
+  deal_id: z.union([z.string(), z.number()]).describe("ID of the deal (bigint)"),
+});
+
+/**
+ * Gets the stage transitions of a deal, oldest first, with the time spent in each stage
+ * Transitions are recorded by the trg_deals_stage_history trigger on deals
+ */
+async function getDealHistory(
+  params: z.infer<typeof GetDealHistorySchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("deal_stage_history") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const dealId = typeof params.deal_id === 'string' ? parseInt(params.deal_id, 10) : params.deal_id;
+
+    if (isNaN(dealId)) {
+      return {
+        success: false,
+        error: "Invalid deal_id: must be a valid number",
+      };
+    }
+
+    const dealResult = await executeParameterizedQuery(
+      `SELECT id, name, stage, amount, archived_at, created_at
+       FROM deals
+       WHERE id = $1`,
+      [dealId],
+      context
+    );
+
+    if (!dealResult.success || !dealResult.data?.length) {
+      return {
+        success: false,
+        error: "Deal not found or access denied",
+      };
+    }
+
+    // Each stay lasts until the next transition, or until now for the current stage
+    const historyResult = await executeParameterizedQuery(
+      `SELECT
+        h.id,
+        h.from_stage,
+        h.to_stage,
+        h.changed_at,
+        lead(h.changed_at) OVER w AS left_at,
+        ROUND((EXTRACT(EPOCH FROM (coalesce(lead(h.changed_at) OVER w, NOW()) - h.changed_at)) / 86400)::numeric, 1) AS days_in_stage,
+        s.first_name AS changed_by_first_name,
+        s.last_name AS changed_by_last_name
+      FROM deal_stage_history h
+      LEFT JOIN sales s ON s.user_id = h.changed_by
+      WHERE h.deal_id = $1
+      WINDOW w AS (ORDER BY h.changed_at, h.id)
+      ORDER BY h.changed_at, h.id`,
+      [dealId],
+      context
+    );
+
+    if (!historyResult.success) {
+      return {
+        success: false,
+        error: historyResult.error || "Failed to fetch deal history",
+      };
+    }
+
+    const transitions = (historyResult.data || []).map((row: any) => ({
+      id: Number(row.id),
+      from_stage: row.from_stage,
+      to_stage: row.to_stage,
+      changed_at: row.changed_at,
+      left_at: row.left_at,
+      days_in_stage: parseFloat(row.days_in_stage),
+      changed_by: row.changed_by_first_name
+        ? `${row.changed_by_first_name} ${row.changed_by_last_name}`
+        : null,
+    }));
+
+    const deal = dealResult.data[0];
+    const current = transitions[transitions.length - 1];
+
+    return {
+      success: true,
+      data: {
+        deal: {
+          id: deal.id,
+          name: deal.name,
+          stage: deal.stage,
+          amount: deal.amount,
+          archived_at: deal.archived_at,
+          created_at: deal.created_at,
+        },
+        current_stage: {
+          stage: deal.stage,
+          since: current?.changed_at ?? null,
+          days_in_stage: current?.days_in_stage ?? null,
+        },
+        transitions,
+      },
+    };
+  } catch (error) {
+    console.error("Get deal history error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const get_deal_history = {
+  definition: {
+    description: `Get the stage history of a deal in the Atomic CRM.
+
+Use this tool to see how a deal moved through the pipeline: when it entered each stage, who moved it, and how long it stayed there.
+
+Required fields:
+- deal_id: ID of the deal
+
+Returns:
+- deal: The deal's name, current stage, amount and creation date
+- current_stage: The current stage, since when, and the days spent in it so far
+- transitions: Every stage change, oldest first, with from_stage, to_stage, changed_at, left_at, days_in_stage and changed_by (sales rep name)
+
+Stage changes are recorded automatically whenever a deal is created or its stage changes (create_deal, update_deal, bulk_update_deals or the Atomic CRM UI). Deals that existed before history was recorded start with a single entry at their creation date. from_stage is empty for the first entry and after a deal is restored from the trash.
+
+Example:
+- Get history: { "deal_id": 123 }`,
+    inputSchema: GetDealHistorySchema,
+  },
+  handler: async (params: z.infer<typeof GetDealHistorySchema>, context: McpContext) => {
+    const result = await getDealHistory(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error getting deal history: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { pickupTimes } from "../../services/timezone.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -74,9 +75,13 @@ async function getDealJourneyLegs(
       };
     }
 
+    // Each pickup in UTC and as local time at the pickup place
     return {
       success: true,
-      data: result.data || [],
+      data: (result.data || []).map((leg: any) => ({
+        ...leg,
+        ...pickupTimes(leg.pickup_datetime, leg.pickup_timezone),
+      })),
     };
   } catch (error) {
     return {
@@ -88,7 +93,7 @@ async function getDealJourneyLegs(
 
 export const get_deal_journey_legs = {
   definition: {
-    description: "Gets all journey legs for a specific deal, ordered by leg order",
+    description: "Gets all journey legs for a specific deal, ordered by leg order. Each pickup is returned in UTC (pickup_utc) and as local wall-clock time in its pickup_timezone (pickup_local, e.g. 2026-03-29T09:30:00) with the UTC offset in effect that day (pickup_utc_offset, e.g. +02:00).",
     inputSchema: GetDealJourneyLegsSchema,
   },
   handler: getDealJourneyLegs,
@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { addDays, buildDispatchSchedule, dispatchQueryWindow, isCalendarDate } from "../../services/dispatch-schedule.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Valid leg types
+ */
+const LEG_TYPES = [
+  "airport_arrival",
+  "airport_departure",
+  "train_arrival",
+  "train_departure",
+  "point_to_point",
+  "hourly",
+  "tour_stop",
+] as const;
+
+/**
+ * Valid transport modes
+ */
+const TRANSPORT_MODES = ["flight", "train", "none"] as const;
+
+/**
+ * Maximum number of days in one schedule
+ */
+const MAX_SCHEDULE_DAYS = 31;
+
+/**
+ * Maximum number of legs in one schedule
+ */
+const MAX_SCHEDULE_LEGS = 2000;
+
+/**
+ * Input schema for the dispatch schedule
+ */
+const GetDispatchScheduleSchema = z.object({
+  from: z.string().optional().describe("First day (YYYY-MM-DD, defaults to tomorrow)"),
+  to: z.string().optional().describe("Last day, included (YYYY-MM-DD, defaults to from)"),
+  leg_type: z.array(z.enum(LEG_TYPES)).min(1).optional().describe("Only include these leg types"),
+  transport_mode: z.array(z.enum(TRANSPORT_MODES)).min(1).optional().describe("Only include these transport modes"),
+});
+
+/**
+ * Gets the journey legs of every visible deal for a range of days, grouped by local pickup day
+ */
+async function getDispatchSchedule(
+  params: z.infer<typeof GetDispatchScheduleSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table exists
+    if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const from = params.from ?? addDays(new Date().toISOString().slice(0, 10), 1);
+    const to = params.to ?? from;
+
+    if (!isCalendarDate(from) || !isCalendarDate(to)) {
+      return {
+        success: false,
+        error: "Invalid from or to: must be dates in YYYY-MM-DD format",
+      };
+    }
+    if (to < from) {
+      return {
+        success: false,
+        error: "to must not be before from",
+      };
+    }
+    if (addDays(from, MAX_SCHEDULE_DAYS) <= to) {
+      return {
+        success: false,
+        error: `The schedule covers at most ${MAX_SCHEDULE_DAYS} days`,
+      };
+    }
+
+    // Fetch a wider UTC window, then keep the legs whose local pickup day is in range
+    const window = dispatchQueryWindow(from, to);
+    const result = await executeParameterizedQuery(
+      `SELECT
+        jl.id, jl.deal_id, d.name AS deal_name, d.stage AS deal_stage,
+        co.name AS company_name,
+        nullif(trim(concat_ws(' ', c.first_name, c.last_name)), '') AS contact_name,
+        c.phone_jsonb->0->>'number' AS contact_phone,
+        jl.leg_order, jl.leg_type,
+        jl.pickup_datetime, jl.pickup_timezone,
+        jl.pickup_location_text, jl.dropoff_location_text,
+        jl.transport_mode, jl.carrier_or_operator, jl.transport_number,
+        jl.origin_code, jl.destination_code,
+        jl.terminal, jl.gate, jl.platform,
+        jl.meet_point_instructions, jl.driver_notes, jl.dispatch_notes
+      FROM deal_journey_legs jl
+      JOIN deals d ON jl.deal_id = d.id
+      LEFT JOIN companies co ON co.id = d.company_id
+      LEFT JOIN contacts c ON c.id = d.contact_ids[1]
+      WHERE jl.pickup_datetime >= $1 AND jl.pickup_datetime < $2
+        AND ($3::text[] IS NULL OR jl.leg_type = ANY($3))
+        AND ($4::text[] IS NULL OR jl.transport_mode = ANY($4))
+      ORDER BY jl.pickup_datetime
+      LIMIT ${MAX_SCHEDULE_LEGS + 1}`,
+      [window.start, window.end, params.leg_type ?? null, params.transport_mode ?? null],
+      context
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: "Failed to fetch journey legs",
+      };
+    }
+
+    const legs = result.data || [];
+    if (legs.length > MAX_SCHEDULE_LEGS) {
+      return {
+        success: false,
+        error: `More than ${MAX_SCHEDULE_LEGS} legs in range; narrow the dates or filter by leg_type or transport_mode`,
+      };
+    }
+
+    const days = buildDispatchSchedule(legs, { from, to });
+
+    return {
+      success: true,
+      data: {
+        from,
+        to,
+        filters: { leg_type: params.leg_type ?? null, transport_mode: params.transport_mode ?? null },
+        leg_count: days.reduce((total, day) => total + day.leg_count, 0),
+        days,
+      },
+    };
+  } catch (error) {
+    console.error("Get dispatch schedule error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export const get_dispatch_schedule = {
+  definition: {
+    description: `Gets the journey legs of every deal you can see for a range of days, as a dispatch board for planning drivers.
+
+Legs are grouped by pickup day and sorted by pickup time, both in local time at the pickup place (pickup_local, pickup_time, with pickup_timezone and pickup_utc_offset; pickup_utc is the same instant in UTC). Each leg includes the deal name and stage, the company, the primary contact (the deal's first contact) with their phone, and all leg details including dispatch notes. Every day in the range is listed, with an empty legs array when nothing is scheduled.
+
+Fields:
+- from: First day, YYYY-MM-DD (default: tomorrow)
+- to: Last day, included (default: same as from; at most ${MAX_SCHEDULE_DAYS} days)
+- leg_type: Only these leg types, e.g. ["airport_arrival", "airport_departure"]
+- transport_mode: Only these transport modes, e.g. ["flight"]
+
+Examples:
+- Tomorrow's board: {}
+- A week of airport pickups: { "from": "2026-03-23", "to": "2026-03-29", "leg_type": ["airport_arrival"] }`,
+    inputSchema: GetDispatchScheduleSchema,
+  },
+  handler: getDispatchSchedule,
+};
@@ -1,5 +1,7 @@
 import { z } from "zod";
 import { executeRawQuery } from "../../db/query-builder.js";
+import { formatFieldOptions } from "../../services/field-options.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -112,9 +114,12 @@ async function getSchemaData(
       })
       .join("\n\n");
 
+    // Free-text columns whose values the create/update tools restrict
+    const optionsText = `Allowed values (enforced by the create/update tools, see list_field_options):\n${formatFieldOptions(config.fieldOptions)}`;
+
     return {
       success: true,
-      data: schemaText || "No tables found in the public schema.",
+      data: schemaText ? `${schemaText}\n\n${optionsText}` : "No tables found in the public schema.",
     };
   } catch (error) {
     console.error("Schema retrieval error:", error instanceof Error ? error.message : "Unknown error");
@@ -135,6 +140,7 @@ Returns information about:
 - All tables and views in the database (views are clearly labeled)
 - Column names and data types for each table/view
 - Foreign key relationships between tables
+- Allowed values of deal stages and categories, contact statuses, task types and note types
 
 Views (like contacts_summary, companies_summary) are read-only and often provide aggregated or pre-joined data for easier querying.
 
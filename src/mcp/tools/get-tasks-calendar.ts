@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { formatICalendar } from "../../services/icalendar.js";
+import { createCalendarFeedToken } from "../../services/calendar-feed.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for rendering pending tasks as a calendar
+ */
+export const GetTasksCalendarSchema = z.object({
+  component: z.enum(["todo", "event"]).default("todo").describe("Render tasks as to-dos (VTODO) or all-day events on their due date (VEVENT)"),
+  include_feed_url: z.boolean().default(false).describe("Also issue a subscription URL for calendar apps"),
+});
+
+/**
+ * Maximum number of tasks in a calendar
+ */
+const MAX_CALENDAR_TASKS = 1000;
+
+/**
+ * Renders the authenticated user's pending tasks (not done or cancelled) as iCalendar text
+ * Shared by the get_tasks_calendar tool and the /calendar feed route
+ */
+export async function getTasksCalendar(
+  params: { component: "todo" | "event" },
+  context: McpContext
+): Promise<{ success: boolean; data?: { calendar: string; task_count: number }; error?: string }> {
+  try {
+    if (!isValidTable("tasks")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const result = await executeParameterizedQuery(
+      `SELECT
+         t.id, t.title, t.description, to_char(t.due_date, 'YYYY-MM-DD') AS due_date,
+         t.status, t.priority, t.type, t.updated_at,
+         NULLIF(concat_ws(' ', c.first_name, c.last_name), '') AS contact_name,
+         co.name AS company_name,
+         d.name AS deal_name
+       FROM tasks t
+       LEFT JOIN contacts c ON t.contact_id = c.id
+       LEFT JOIN companies co ON t.company_id = co.id
+       LEFT JOIN deals d ON t.deal_id = d.id
+       WHERE t.sales_id IN (SELECT id FROM sales WHERE user_id = $1)
+         AND coalesce(t.status, 'pending') NOT IN ('done', 'cancelled')
+       ORDER BY t.due_date NULLS LAST, t.id
+       LIMIT $2`,
+      [context.authInfo.userId, MAX_CALENDAR_TASKS],
+      context
+    );
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to fetch tasks",
+      };
+    }
+
+    const tasks = result.data || [];
+
+    return {
+      success: true,
+      data: {
+        calendar: formatICalendar(tasks, { component: params.component, name: "Atomic CRM tasks" }),
+        task_count: tasks.length,
+      },
+    };
+  } catch (error) {
+    console.error("Get tasks calendar error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const get_tasks_calendar = {
+  definition: {
+    description: `Render the authenticated user's pending tasks as an iCalendar (.ics) file, and optionally issue a subscription URL for calendar apps.
+
+Use this tool when the user wants their CRM tasks in Google Calendar, Outlook or Apple Calendar, either as a one-off file or as a feed that stays up to date.
+
+Optional fields:
+- component: "todo" (default) renders VTODO entries with a due date, status and priority; "event" renders all-day VEVENT entries on the due date. Use "event" for apps that ignore to-dos (e.g. Google Calendar); tasks without a due date are left out.
+- include_feed_url: true to also return a read-only subscription URL (default: false)
+
+Pending means any status other than done or cancelled. At most ${MAX_CALENDAR_TASKS} tasks are included, earliest due first. Related contact, company and deal names are added to each entry's description.
+
+The subscription URL contains a token that grants read access to the user's pending tasks only, until it expires (${config.calendar.feedTtlDays} days). Treat it like a password; add ?component=event to it for event mode.
+
+Examples:
+- Download tasks: {}
+- Subscribe from Google Calendar: { "component": "event", "include_feed_url": true }`,
+    inputSchema: GetTasksCalendarSchema,
+  },
+  handler: async (params: z.infer<typeof GetTasksCalendarSchema>, context: McpContext) => {
+    const result = await getTasksCalendar(params, context);
+
+    let feed: { url: string; expires_at: string } | undefined;
+    let feedError: string | undefined;
+    if (result.success && params.include_feed_url) {
+      try {
+        const { token, expiresAt } = await createCalendarFeedToken(context.authInfo.userId);
+        const query = params.component === "event" ? "?component=event" : "";
+        feed = { url: `${config.mcpServerUrl}/calendar/${token}.ics${query}`, expires_at: expiresAt.toISOString() };
+      } catch (error) {
+        feedError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? [
+                feed ? `Subscription URL (expires ${feed.expires_at}):\n${feed.url}\n` : null,
+                feedError ? `Could not issue a subscription URL: ${feedError}\n` : null,
+                `Calendar with ${result.data?.task_count} pending tasks:\n\n${result.data?.calendar}`,
+              ].filter(Boolean).join("\n")
+            : `Error rendering tasks calendar: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,502 @@
+import { z } from "zod";
+import { executeParameterizedQuery, executeParameterizedBatch, isValidTable } from "../../db/query-builder.js";
+import type { BatchStatement } from "../../db/query-builder.js";
+import { parseCsv, normalizeHeader } from "../../services/csv.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { CreateContactSchema, buildContactInsert } from "./create-contact.js";
+import { CreateCompanySchema, buildCompanyInsert } from "./create-company.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum size of the CSV text, in characters
+ */
+const MAX_CSV_LENGTH = 2_000_000;
+
+/**
+ * Maximum number of data rows imported in one call
+ */
+const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Number of mapped records shown in a dry-run preview
+ */
+const PREVIEW_ROWS = 5;
+
+/**
+ * Input schema for importing CSV data
+ */
+export const ImportCsvSchema = z.object({
+  csv: z.string().min(1).max(MAX_CSV_LENGTH).describe("CSV text, with a header row"),
+  entity: z.enum(["contacts", "companies"]).describe("What each row describes"),
+  mapping: z.record(z.string(), z.string()).optional().describe("CSV column name -> field name, overriding the automatic mapping (\"\" ignores a column)"),
+  dry_run: z.boolean().default(false).describe("Validate and preview without writing anything"),
+});
+
+/**
+ * Column names recognized for each field, in normalized form
+ * "company" and "name" are not contact columns: "company" links the contact to an
+ * existing company and "name" is split into first and last name
+ */
+const FIELD_ALIASES: Record<"contacts" | "companies", Record<string, string[]>> = {
+  contacts: {
+    first_name: ["first_name", "firstname", "first", "given_name", "prenom"],
+    last_name: ["last_name", "lastname", "last", "surname", "family_name", "nom"],
+    name: ["name", "full_name", "contact_name", "contact"],
+    email: ["email", "e_mail", "email_address", "e_mail_address", "mail", "work_email"],
+    phone: ["phone", "phone_number", "mobile", "mobile_phone", "telephone", "tel", "work_phone"],
+    title: ["title", "job_title", "position", "role", "job"],
+    company: ["company", "company_name", "organization", "organisation", "account", "account_name", "employer"],
+    company_id: ["company_id"],
+    linkedin_url: ["linkedin_url", "linkedin", "linkedin_profile"],
+    background: ["background", "notes", "note", "comments", "description"],
+    status: ["status", "lead_status"],
+    gender: ["gender"],
+    has_newsletter: ["has_newsletter", "newsletter", "subscribed"],
+  },
+  companies: {
+    name: ["name", "company", "company_name", "organization", "organisation", "account", "account_name"],
+    website: ["website", "url", "domain", "site", "web", "homepage"],
+    phone: ["phone", "phone_number", "telephone", "tel"],
+    address: ["address", "street", "street_address", "address_line_1"],
+    city: ["city", "town"],
+    state: ["state", "province", "region"],
+    country: ["country"],
+    zip_code: ["zip_code", "zip", "postal_code", "postcode"],
+    industry: ["industry", "sector"],
+    size: ["size", "company_size", "employees", "headcount"],
+    revenue: ["revenue", "annual_revenue"],
+    description: ["description", "about", "notes"],
+    linkedin_url: ["linkedin_url", "linkedin"],
+    twitter_url: ["twitter_url", "twitter", "x"],
+    facebook_url: ["facebook_url", "facebook"],
+  },
+};
+
+/**
+ * Fields holding URLs; bare domains get an https:// prefix
+ */
+const URL_FIELDS = ["website", "linkedin_url", "twitter_url", "facebook_url"];
+
+/**
+ * Legal suffixes ignored when comparing company names
+ */
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|sa|sas|sarl|bv|ag|plc|pty)\b/g;
+
+/**
+ * Normalize a company name for matching ("Acme, Inc." and "ACME" both become "acme")
+ */
+function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(COMPANY_SUFFIXES, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Extract the host of a website or the domain of an email, without "www."
+ */
+function extractDomain(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  const host = trimmed.includes("@")
+    ? trimmed.split("@").pop()
+    : trimmed.replace(/^[a-z]+:\/\//, "").split(/[/?#:]/)[0];
+  return host ? host.replace(/^www\./, "") || null : null;
+}
+
+/**
+ * Resolve which field each CSV column feeds
+ */
+function resolveMapping(
+  headers: string[],
+  entity: "contacts" | "companies",
+  overrides: Record<string, string> = {}
+): { mapping: Record<string, string | null>; errors: string[] } {
+  const aliases = FIELD_ALIASES[entity];
+  const mapping: Record<string, string | null> = {};
+  const errors: string[] = [];
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    if (header in overrides) {
+      const field = overrides[header];
+      if (field !== "" && !(field in aliases)) {
+        errors.push(`Unknown field '${field}' for column '${header}'. Valid fields: ${Object.keys(aliases).join(", ")}`);
+      }
+      mapping[header] = field || null;
+    } else {
+      const normalized = normalizeHeader(header);
+      const field = Object.keys(aliases).find((candidate) => aliases[candidate].includes(normalized));
+      mapping[header] = field && !used.has(field) ? field : null;
+    }
+    if (mapping[header]) used.add(mapping[header] as string);
+  }
+
+  for (const header of Object.keys(overrides)) {
+    if (!headers.includes(header)) {
+      errors.push(`Column '${header}' in mapping is not in the CSV header`);
+    }
+  }
+
+  return { mapping, errors };
+}
+
+/**
+ * Turn a CSV row into input for the create schema of the entity
+ */
+function buildRecord(
+  headers: string[],
+  values: string[],
+  mapping: Record<string, string | null>
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    const value = (values[index] ?? "").trim();
+    if (!field || value === "" || record[field] !== undefined) return;
+
+    if (field === "company_id" || field === "revenue") {
+      const numeric = Number(value.replace(/[\s,$€£]/g, ""));
+      record[field] = Number.isFinite(numeric) ? Math.round(numeric) : value;
+    } else if (field === "has_newsletter") {
+      record[field] = /^(true|yes|y|1|oui|x)$/i.test(value);
+    } else if (URL_FIELDS.includes(field) && !/^[a-z]+:\/\//i.test(value)) {
+      record[field] = `https://${value}`;
+    } else {
+      record[field] = value;
+    }
+  });
+
+  return record;
+}
+
+type RowReport = {
+  line: number;
+  status: "invalid" | "duplicate" | "failed";
+  errors?: string[];
+  duplicate_of?: string;
+};
+
+/**
+ * Imports contacts or companies from CSV text
+ * Rows are validated with the create_contact / create_company schemas, duplicates of
+ * existing records or of earlier rows are skipped, contacts are linked to existing
+ * companies by name or email domain, and valid rows are created in one transaction
+ */
+export async function importCsv(
+  params: z.infer<typeof ImportCsvSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("sales") || !isValidTable("contacts") || !isValidTable("companies")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const parsed = parseCsv(params.csv);
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      return {
+        success: false,
+        error: "CSV must contain a header row and at least one data row",
+      };
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      return {
+        success: false,
+        error: `CSV has ${parsed.rows.length} rows, the maximum is ${MAX_IMPORT_ROWS} per import`,
+      };
+    }
+
+    const { mapping, errors: mappingErrors } = resolveMapping(parsed.headers, params.entity, params.mapping);
+    if (mappingErrors.length > 0) {
+      return {
+        success: false,
+        data: { mapping },
+        error: mappingErrors.join("; "),
+      };
+    }
+
+    // Existing companies, for linking contacts and detecting duplicate companies
+    const companiesResult = await executeParameterizedQuery(
+      `SELECT id, name, website FROM companies`,
+      [],
+      context
+    );
+    if (!companiesResult.success) {
+      return {
+        success: false,
+        error: companiesResult.error || "Failed to load companies",
+      };
+    }
+
+    const companiesByName = new Map<string, any>();
+    const companiesByDomain = new Map<string, any>();
+    for (const company of companiesResult.data || []) {
+      if (company.name) companiesByName.set(normalizeCompanyName(company.name), company);
+      const domain = extractDomain(company.website);
+      if (domain) companiesByDomain.set(domain, company);
+    }
+
+    const schema = params.entity === "contacts" ? CreateContactSchema : CreateCompanySchema;
+    const issues: RowReport[] = [];
+    const accepted: { line: number; record: any; link?: { id: number; name: string; matched_by: string } }[] = [];
+    const seenKeys = new Map<string, number>();
+
+    // Validate and map every row
+    parsed.rows.forEach((values, index) => {
+      const line = index + 2;
+      const record = buildRecord(parsed.headers, values, mapping);
+      let companyName: string | null = null;
+      if (params.entity === "contacts") {
+        // Split a full name when first/last name columns are missing
+        if (typeof record.name === "string" && record.first_name === undefined && record.last_name === undefined) {
+          const parts = record.name.split(/\s+/);
+          record.first_name = parts.length > 1 ? parts.slice(0, -1).join(" ") : parts[0];
+          record.last_name = parts.length > 1 ? parts[parts.length - 1] : "";
+        }
+        companyName = typeof record.company === "string" ? record.company : null;
+        delete record.name;
+        delete record.company;
+      }
+
+      const result = schema.safeParse(record);
+      if (!result.success) {
+        issues.push({
+          line,
+          status: "invalid",
+          errors: result.error.issues.map((issue) => `${issue.path.join(".") || "row"}: ${issue.message}`),
+        });
+        return;
+      }
+
+      const data: any = result.data;
+      let link: { id: number; name: string; matched_by: string } | undefined;
+      let key: string;
+
+      if (params.entity === "contacts") {
+        // Link to an existing company by name, then by email domain
+        if (!data.company_id) {
+          const byName = companyName ? companiesByName.get(normalizeCompanyName(companyName)) : undefined;
+          const byDomain = !byName ? companiesByDomain.get(extractDomain(data.email) || "") : undefined;
+          const company = byName || byDomain;
+          if (company) {
+            data.company_id = Number(company.id);
+            link = { id: Number(company.id), name: company.name, matched_by: byName ? "name" : "email_domain" };
+          }
+        }
+        key = data.email
+          ? `email:${data.email.toLowerCase()}`
+          : `name:${data.first_name.toLowerCase()} ${data.last_name.toLowerCase()}|${data.company_id ?? ""}`;
+      } else {
+        const existing = companiesByName.get(normalizeCompanyName(data.name))
+          || companiesByDomain.get(extractDomain(data.website) || "");
+        if (existing) {
+          issues.push({ line, status: "duplicate", duplicate_of: `existing company ${existing.id} (${existing.name})` });
+          return;
+        }
+        key = `name:${normalizeCompanyName(data.name)}`;
+        const domain = extractDomain(data.website);
+        if (domain && seenKeys.has(`domain:${domain}`)) {
+          issues.push({ line, status: "duplicate", duplicate_of: `line ${seenKeys.get(`domain:${domain}`)}` });
+          return;
+        }
+        if (domain) seenKeys.set(`domain:${domain}`, line);
+      }
+
+      if (seenKeys.has(key)) {
+        issues.push({ line, status: "duplicate", duplicate_of: `line ${seenKeys.get(key)}` });
+        return;
+      }
+      seenKeys.set(key, line);
+      accepted.push({ line, record: data, link });
+    });
+
+    // Contacts whose email already exists in the CRM are duplicates
+    let toCreate = accepted;
+    if (params.entity === "contacts") {
+      const emails = accepted.map((row) => row.record.email?.toLowerCase()).filter(Boolean);
+      if (emails.length > 0) {
+        const existingResult = await executeParameterizedQuery(
+          `SELECT c.id, lower(e->>'email') AS email
+           FROM contacts c, jsonb_array_elements(coalesce(c.email_jsonb, '[]'::jsonb)) AS e
+           WHERE lower(e->>'email') = ANY($1)`,
+          [emails],
+          context
+        );
+        if (!existingResult.success) {
+          return {
+            success: false,
+            error: existingResult.error || "Failed to check existing contacts",
+          };
+        }
+        const existingByEmail = new Map((existingResult.data || []).map((row: any) => [row.email, row.id]));
+        toCreate = accepted.filter((row) => {
+          const existingId = row.record.email ? existingByEmail.get(row.record.email.toLowerCase()) : undefined;
+          if (existingId) {
+            issues.push({ line: row.line, status: "duplicate", duplicate_of: `existing contact ${existingId}` });
+            return false;
+          }
+          return true;
+        });
+      }
+    }
+
+    issues.sort((a, b) => a.line - b.line);
+    const unmappedColumns = parsed.headers.filter((header) => !mapping[header]);
+    const linked = toCreate.filter((row) => row.link).map((row) => ({ line: row.line, company: row.link }));
+    const summary = {
+      entity: params.entity,
+      dry_run: params.dry_run,
+      total_rows: parsed.rows.length,
+      mapping,
+      unmapped_columns: unmappedColumns,
+      invalid: issues.filter((row) => row.status === "invalid").length,
+      duplicates: issues.filter((row) => row.status === "duplicate").length,
+      linked_to_companies: linked.length,
+    };
+
+    if (params.dry_run) {
+      return {
+        success: true,
+        data: {
+          ...summary,
+          would_create: toCreate.length,
+          preview: toCreate.slice(0, PREVIEW_ROWS).map((row) => ({ line: row.line, record: row.record })),
+          company_links: linked,
+          skipped: issues,
+        },
+      };
+    }
+
+    // Get the sales_id once for every row
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const salesId = salesResult.data[0].id;
+
+    const statements: BatchStatement[] = toCreate.map((row) => (
+      params.entity === "contacts"
+        ? buildContactInsert(row.record, salesId)
+        : buildCompanyInsert(row.record, salesId)
+    ));
+
+    const batch = statements.length > 0
+      ? await executeParameterizedBatch(statements, context, "best_effort")
+      : { success: true, committed: true, results: [], error: undefined };
+
+    if (!batch.committed) {
+      return {
+        success: false,
+        error: batch.error || "Import failed, nothing was written",
+      };
+    }
+
+    const createdIds: unknown[] = [];
+    batch.results.forEach((result, position) => {
+      if (result.success) {
+        createdIds.push(result.rows?.[0]?.id);
+      } else {
+        issues.push({ line: toCreate[position].line, status: "failed", errors: [result.error || "Insert failed"] });
+      }
+    });
+    issues.sort((a, b) => a.line - b.line);
+
+    const failed = issues.filter((row) => row.status === "failed").length;
+
+    logDataEvent("import", params.entity, undefined, context.authInfo.userId, {
+      details: {
+        format: "csv",
+        total_rows: parsed.rows.length,
+        created: createdIds.length,
+        duplicates: summary.duplicates,
+        invalid: summary.invalid,
+        failed,
+        created_ids: createdIds,
+      },
+    });
+
+    console.log(`CSV import: ${createdIds.length}/${parsed.rows.length} ${params.entity} created by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: {
+        ...summary,
+        created: createdIds.length,
+        failed,
+        created_ids: createdIds,
+        company_links: linked,
+        skipped: issues,
+      },
+    };
+  } catch (error) {
+    console.error("Import CSV error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const import_csv = {
+  definition: {
+    description: `Import contacts or companies into the Atomic CRM from CSV text.
+
+Use this tool when the user pastes or attaches a spreadsheet export (trade-show list, another CRM's export, ...). Always run with dry_run first and show the mapping and skipped rows before importing.
+
+Required fields:
+- csv: CSV text with a header row (comma, semicolon or tab separated; max ${MAX_IMPORT_ROWS} rows)
+- entity: "contacts" or "companies"
+
+Optional fields:
+- mapping: Override how columns map to fields, e.g. { "Société": "company", "Fonction": "title" }. Map a column to "" to ignore it.
+- dry_run: true to validate and preview without writing (default: false)
+
+Columns are mapped automatically from common names (First Name, E-mail, Job Title, Company, Website, Zip, ...).
+- Contact fields: first_name, last_name, name (split into first/last), email, phone, title, company (links to an existing company), company_id, linkedin_url, background, status, gender, has_newsletter
+- Company fields: name, website, phone, address, city, state, country, zip_code, industry, size, revenue, description, linkedin_url, twitter_url, facebook_url
+
+Contacts are linked to an existing company by company name ("Acme Inc." matches "ACME"), or else by their email domain matching a company website. Companies are never created from a contact import.
+
+Skipped rows are reported with their CSV line number:
+- invalid: failed validation (e.g. missing last name, malformed email)
+- duplicate: same email as an existing contact, same name or website as an existing company, or repeats an earlier line
+- failed: rejected by the database
+
+Rows are created in one transaction; a failing row does not cancel the others. The import is recorded in the audit log.
+
+Examples:
+- Preview: { "csv": "First Name,Last Name,Email,Company\\nAda,Lovelace,ada@example.com,Analytical Engines", "entity": "contacts", "dry_run": true }
+- Import companies: { "csv": "Company,Website,City\\nAcme,acme.com,Paris", "entity": "companies" }`,
+    inputSchema: ImportCsvSchema,
+  },
+  handler: async (params: z.infer<typeof ImportCsvSchema>, context: McpContext) => {
+    const result = await importCsv(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `${result.data?.dry_run ? "Import preview (nothing saved)" : "Import completed"}:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error importing CSV: ${result.error}${result.data ? `\n${JSON.stringify(result.data, null, 2)}` : ""}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,318 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { parseVCards } from "../../services/vcard.js";
+import type { ParsedVCard } from "../../services/vcard.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { CreateContactSchema, createContact } from "./create-contact.js";
+import { UpdateContactSchema, updateContact } from "./update-contact.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum size of the vCard text, in characters
+ */
+const MAX_VCF_LENGTH = 2_000_000;
+
+/**
+ * Maximum number of cards imported in one call
+ */
+const MAX_IMPORT_CARDS = 500;
+
+/**
+ * Input schema for importing vCards
+ */
+export const ImportVCardSchema = z.object({
+  vcf: z.string().min(1).max(MAX_VCF_LENGTH).describe("Content of a .vcf file (one or more vCards)"),
+  dry_run: z.boolean().default(false).describe("Plan the create_contact/update_contact calls without running them"),
+});
+
+interface PlannedCard {
+  card: number;
+  name: string;
+  action: "create" | "update" | "unchanged" | "invalid" | "duplicate";
+  call?: { tool: "create_contact" | "update_contact"; arguments: Record<string, unknown> };
+  company?: { name: string; company_id: number | null };
+  duplicate_of?: string;
+  errors?: string[];
+}
+
+/**
+ * Pick the entry to store: preferred first, then work, then the first one
+ */
+function pickEntry(entries: { value: string; types: string[] }[]): string | undefined {
+  return (
+    entries.find((entry) => entry.types.includes("pref")) ||
+    entries.find((entry) => entry.types.includes("work")) ||
+    entries[0]
+  )?.value;
+}
+
+/**
+ * First and last name from N, or else by splitting FN on its last space
+ */
+function splitName(card: ParsedVCard): { first_name?: string; last_name?: string } {
+  if (card.first_name || card.last_name) {
+    return { first_name: card.first_name, last_name: card.last_name };
+  }
+  const parts = (card.full_name || "").split(/\s+/).filter(Boolean);
+  if (parts.length <= 1) return { first_name: parts[0] };
+  return { first_name: parts.slice(0, -1).join(" "), last_name: parts[parts.length - 1] };
+}
+
+/**
+ * Drop undefined values so planned calls only show the fields they set
+ */
+function compact(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Imports contacts from vCards
+ * Each card becomes an update_contact call when one of its emails matches an
+ * existing contact (only filling fields that are empty in the CRM), or a
+ * create_contact call otherwise. ORG links to an existing company with the same name.
+ */
+export async function importVCard(
+  params: z.infer<typeof ImportVCardSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("contacts") || !isValidTable("companies")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const cards = parseVCards(params.vcf);
+    if (cards.length === 0) {
+      return {
+        success: false,
+        error: "No vCard found (expected BEGIN:VCARD ... END:VCARD)",
+      };
+    }
+    if (cards.length > MAX_IMPORT_CARDS) {
+      return {
+        success: false,
+        error: `Too many vCards (${cards.length}), the maximum is ${MAX_IMPORT_CARDS} per import`,
+      };
+    }
+
+    // Existing contacts sharing an email with any card
+    const emails = [...new Set(cards.flatMap((card) => card.emails.map((email) => email.value.toLowerCase())))];
+    const existingByEmail = new Map<string, any>();
+    if (emails.length > 0) {
+      const existingResult = await executeParameterizedQuery(
+        `SELECT DISTINCT ON (lower(e->>'email'))
+           lower(e->>'email') AS email, c.id, c.title, c.company_id, c.linkedin_url, c.background,
+           jsonb_array_length(coalesce(c.phone_jsonb, '[]'::jsonb)) AS phone_count
+         FROM contacts c, jsonb_array_elements(coalesce(c.email_jsonb, '[]'::jsonb)) AS e
+         WHERE lower(e->>'email') = ANY($1)
+         ORDER BY lower(e->>'email'), c.id`,
+        [emails],
+        context
+      );
+      if (!existingResult.success) {
+        return {
+          success: false,
+          error: existingResult.error || "Failed to look up existing contacts",
+        };
+      }
+      for (const row of existingResult.data || []) existingByEmail.set(row.email, row);
+    }
+
+    // Companies named in ORG, matched case-insensitively
+    const organizations = [...new Set(cards.map((card) => card.organization?.toLowerCase()).filter(Boolean))];
+    const companiesByName = new Map<string, number>();
+    if (organizations.length > 0) {
+      const companyResult = await executeParameterizedQuery(
+        `SELECT DISTINCT ON (lower(name)) lower(name) AS name, id
+         FROM companies
+         WHERE lower(name) = ANY($1)
+         ORDER BY lower(name), id`,
+        [organizations],
+        context
+      );
+      if (!companyResult.success) {
+        return {
+          success: false,
+          error: companyResult.error || "Failed to look up companies",
+        };
+      }
+      for (const row of companyResult.data || []) companiesByName.set(row.name, Number(row.id));
+    }
+
+    const seen = new Map<string, number>();
+    const planned: PlannedCard[] = cards.map((card, index) => {
+      const number = index + 1;
+      const name = splitName(card);
+      const cardEmails = card.emails.map((email) => email.value.toLowerCase());
+      const companyId = card.organization ? companiesByName.get(card.organization.toLowerCase()) ?? null : null;
+      const plan: PlannedCard = {
+        card: number,
+        name: card.full_name || [name.first_name, name.last_name].filter(Boolean).join(" ") || "(no name)",
+        action: "create",
+        ...(card.organization ? { company: { name: card.organization, company_id: companyId } } : {}),
+      };
+
+      const earlier = cardEmails.map((email) => seen.get(email)).find((value) => value !== undefined);
+      if (earlier !== undefined) {
+        return { ...plan, action: "duplicate", duplicate_of: `card ${earlier}` };
+      }
+      cardEmails.forEach((email) => seen.set(email, number));
+
+      const values = {
+        email: pickEntry(card.emails),
+        phone: pickEntry(card.phones),
+        title: card.title,
+        company_id: companyId ?? undefined,
+        linkedin_url: card.urls.find((url) => /linkedin\.com/i.test(url)),
+        background: card.note,
+      };
+
+      const existing = cardEmails.map((email) => existingByEmail.get(email)).find(Boolean);
+      if (existing) {
+        // Only fill what the CRM is missing, so richer CRM data is never overwritten
+        const updates = compact({
+          phone: Number(existing.phone_count) === 0 ? values.phone : undefined,
+          title: existing.title ? undefined : values.title,
+          company_id: existing.company_id ? undefined : values.company_id,
+          linkedin_url: existing.linkedin_url ? undefined : values.linkedin_url,
+          background: existing.background ? undefined : values.background,
+        });
+        if (Object.keys(updates).length === 0) {
+          return { ...plan, action: "unchanged", duplicate_of: `existing contact ${existing.id}` };
+        }
+
+        const args = { id: existing.id, ...updates };
+        const validation = UpdateContactSchema.safeParse(args);
+        if (!validation.success) {
+          return { ...plan, action: "invalid", errors: validation.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`) };
+        }
+        return { ...plan, action: "update", call: { tool: "update_contact", arguments: args } };
+      }
+
+      const args = compact({ ...name, ...values });
+      const validation = CreateContactSchema.safeParse(args);
+      if (!validation.success) {
+        return { ...plan, action: "invalid", errors: validation.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`) };
+      }
+      return { ...plan, call: { tool: "create_contact", arguments: args } };
+    });
+
+    const count = (action: PlannedCard["action"]) => planned.filter((plan) => plan.action === action).length;
+    const summary = {
+      dry_run: params.dry_run,
+      total_cards: cards.length,
+      to_create: count("create"),
+      to_update: count("update"),
+      unchanged: count("unchanged"),
+      invalid: count("invalid"),
+      duplicates: count("duplicate"),
+    };
+
+    if (params.dry_run) {
+      return {
+        success: true,
+        data: { ...summary, cards: planned },
+      };
+    }
+
+    // Run the calls one by one; a failing card does not stop the others
+    const results: Array<PlannedCard & { status?: string; id?: unknown; error?: string }> = [];
+    for (const plan of planned) {
+      if (!plan.call) {
+        results.push(plan);
+        continue;
+      }
+
+      const result = plan.call.tool === "create_contact"
+        ? await createContact(CreateContactSchema.parse(plan.call.arguments), context)
+        : await updateContact(UpdateContactSchema.parse(plan.call.arguments), context);
+
+      results.push(result.success
+        ? { ...plan, status: plan.action === "create" ? "created" : "updated", id: result.data?.id }
+        : { ...plan, status: "failed", error: result.error });
+    }
+
+    const created = results.filter((row) => row.status === "created");
+    const updated = results.filter((row) => row.status === "updated");
+    const failed = results.filter((row) => row.status === "failed").length;
+
+    logDataEvent("import", "contacts", undefined, context.authInfo.userId, {
+      details: {
+        format: "vcard",
+        total_cards: cards.length,
+        created: created.length,
+        updated: updated.length,
+        duplicates: summary.duplicates,
+        invalid: summary.invalid,
+        failed,
+        created_ids: created.map((row) => row.id),
+        updated_ids: updated.map((row) => row.id),
+      },
+    });
+
+    console.log(`vCard import: ${created.length} created, ${updated.length} updated of ${cards.length} cards by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: {
+        ...summary,
+        created: created.length,
+        updated: updated.length,
+        failed,
+        cards: results,
+      },
+    };
+  } catch (error) {
+    console.error("Import vCard error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const import_vcard = {
+  definition: {
+    description: `Import contacts into the Atomic CRM from a vCard (.vcf) file, as create_contact / update_contact calls.
+
+Use this tool when the user shares contacts exported from a phone, Outlook, Google Contacts or another address book. Run with dry_run first to show the planned calls.
+
+Required fields:
+- vcf: Content of the .vcf file, one or more cards (vCard 2.1, 3.0 or 4.0; max ${MAX_IMPORT_CARDS} cards)
+
+Optional fields:
+- dry_run: true to return the planned calls without running them (default: false)
+
+Each card is mapped to contact fields: N (or FN) to first_name/last_name, EMAIL to email, TEL to phone, TITLE to title, NOTE to background, a linkedin.com URL to linkedin_url, and ORG to company_id when a company with that name exists. The preferred, else work, email and phone are used.
+
+Each card is reported with its action:
+- create: no contact has any of the card's emails, so create_contact is called
+- update: a contact has one of the card's emails; update_contact only fills its empty fields (phone, title, company, LinkedIn, background), nothing is overwritten
+- unchanged: matches a contact that already has everything the card provides
+- invalid: failed validation (e.g. no last name)
+- duplicate: shares an email with an earlier card
+
+Each call runs separately; a failing card does not stop the others. The import is recorded in the audit log.
+
+Example:
+- Preview: { "vcf": "BEGIN:VCARD\\nVERSION:3.0\\nN:Lovelace;Ada;;;\\nEMAIL;TYPE=work:ada@example.com\\nORG:Analytical Engines\\nEND:VCARD", "dry_run": true }`,
+    inputSchema: ImportVCardSchema,
+  },
+  handler: async (params: z.infer<typeof ImportVCardSchema>, context: McpContext) => {
+    const result = await importVCard(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `${result.data?.dry_run ? "vCard import plan (nothing saved)" : "vCard import completed"}:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error importing vCard: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { executeParameterizedQuery } from "../../db/query-builder.js";
+import { listTrash, TRASH_RESOURCES } from "../../services/trash.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for listing deleted records
+ */
+const ListDeletedSchema = z.object({
+  resource: z.enum(TRASH_RESOURCES).optional().describe("Only list this kind of record"),
+  limit: z.number().int().min(1).max(200).default(50).describe("Maximum number of entries to return"),
+});
+
+/**
+ * Lists the authenticated user's deleted records that can still be restored
+ */
+async function listDeleted(
+  params: z.infer<typeof ListDeletedSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Get the sales_id from the authenticated user
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const entries = await listTrash(salesResult.data[0].id, context, {
+      resource: params.resource,
+      limit: params.limit,
+    });
+
+    return {
+      success: true,
+      data: {
+        retention_days: config.trash.retentionDays,
+        count: entries.length,
+        entries,
+      },
+    };
+  } catch (error) {
+    console.error("List deleted error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const list_deleted = {
+  definition: {
+    description: `List deleted contacts, companies, deals and tasks that can still be restored.
+
+Use this tool when the user asks what was deleted, or wants to undo a deletion and you need its trash_id.
+
+Optional fields:
+- resource: "contacts", "companies", "deals" or "tasks"
+- limit: Maximum number of entries (default 50, max 200)
+
+Each entry has its trash_id, the resource and original record_id, a label (name or title), how many related rows were deleted with it (notes, deal contacts, tasks, journey legs), when it was deleted and until when it can be restored. Deleted records are purged after ${config.trash.retentionDays} days.
+
+Only records you deleted from your own data are listed.
+
+Examples:
+- Everything recently deleted: {}
+- Deleted deals: { "resource": "deals" }`,
+    inputSchema: ListDeletedSchema,
+  },
+  handler: async (params: z.infer<typeof ListDeletedSchema>, context: McpContext) => {
+    const result = await listDeleted(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Deleted records (${result.data?.count}):\n${JSON.stringify(result.data, null, 2)}`
+            : `Error listing deleted records: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { executeRawQuery, isValidTable } from "../../db/query-builder.js";
+import { describeFieldOptions, FIELD_OPTION_DEFINITIONS } from "../../services/field-options.js";
+import type { FieldOptionKey } from "../../services/field-options.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+const FIELD_NAMES = Object.values(FIELD_OPTION_DEFINITIONS).map((definition) => definition.name) as [string, ...string[]];
+
+/**
+ * Input schema for listing field options
+ */
+const ListFieldOptionsSchema = z.object({
+  field: z.enum(FIELD_NAMES).optional().describe("Only list this field's values"),
+  include_usage: z.boolean().default(false).describe("Count how many records use each value, including values that are not allowed"),
+});
+
+/**
+ * Count the records per value of a column
+ */
+async function countValues(column: string, context: McpContext): Promise<Map<string, number>> {
+  const [table, name] = column.split(".");
+  if (!isValidTable(table)) {
+    throw new Error("Invalid table configuration");
+  }
+
+  const result = await executeRawQuery(
+    `SELECT ${name} AS value, COUNT(*) AS count FROM ${table} WHERE ${name} IS NOT NULL GROUP BY ${name}`,
+    context
+  );
+  if (!result.success) {
+    throw new Error(result.error || `Failed to count ${column} values`);
+  }
+
+  return new Map((result.data || []).map((row: any) => [row.value, parseInt(row.count)]));
+}
+
+/**
+ * Lists the allowed values of the configurable fields, optionally with their usage
+ */
+async function listFieldOptions(
+  params: z.infer<typeof ListFieldOptionsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    const options = describeFieldOptions(config.fieldOptions).filter(
+      (option) => !params.field || option.name === params.field
+    );
+
+    if (!params.include_usage) {
+      return {
+        success: true,
+        data: options,
+      };
+    }
+
+    const withUsage = [];
+    for (const option of options) {
+      const counts = new Map<string, number>();
+      for (const column of option.columns) {
+        for (const [value, count] of await countValues(column, context)) {
+          counts.set(value, (counts.get(value) || 0) + count);
+        }
+      }
+
+      withUsage.push({
+        ...option,
+        usage: option.values.map((value) => ({ value, count: counts.get(value) || 0 })),
+        // Values stored before the list was configured, or written outside the tools
+        not_allowed: [...counts.entries()]
+          .filter(([value]) => !option.values.includes(value))
+          .map(([value, count]) => ({ value, count }))
+          .sort((a, b) => b.count - a.count),
+      });
+    }
+
+    return {
+      success: true,
+      data: withUsage,
+    };
+  } catch (error) {
+    console.error("List field options error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const list_field_options = {
+  definition: {
+    description: `List the allowed values of the Atomic CRM's configurable fields.
+
+Use this tool before creating or updating deals, contacts, tasks or notes when you are unsure which stage, category, status or type to use. The create/update tools reject any other value.
+
+Fields:
+${(Object.keys(FIELD_OPTION_DEFINITIONS) as FieldOptionKey[])
+  .map((key) => `- ${FIELD_OPTION_DEFINITIONS[key].name}: ${FIELD_OPTION_DEFINITIONS[key].columns.join(", ")}`)
+  .join("\n")}
+
+Optional fields:
+- field: Only list one of the fields above
+- include_usage: true to count the records using each value, and list values found in the data that are not allowed (e.g. typos, or values from before the list was configured) (default: false)
+
+Each field is returned with its allowed values, its default (the value used when a create tool is called without it, if any), the environment variable configuring it and the tools validating it.
+
+Examples:
+- All fields: {}
+- Deal stages with usage: { "field": "deal_stages", "include_usage": true }`,
+    inputSchema: ListFieldOptionsSchema,
+  },
+  handler: async (params: z.infer<typeof ListFieldOptionsSchema>, context: McpContext) => {
+    const result = await listFieldOptions(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error listing field options: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
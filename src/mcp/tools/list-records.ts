@@ -0,0 +1,235 @@
+import { z } from "zod";
+import {
+  executeParameterizedQuery,
+  isValidTable,
+  isValidColumn,
+  buildFilterClause,
+  buildKeysetClause,
+  buildOrderByClause,
+  encodeCursor,
+  decodeCursor,
+} from "../../db/query-builder.js";
+import type { FilterNode, SortKey } from "../../db/query-builder.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Leaf filter conditions
+ */
+const FilterConditionSchema = z.discriminatedUnion("op", [
+  z.object({
+    column: z.string().max(63),
+    op: z.literal("eq"),
+    value: z.union([z.string(), z.number(), z.boolean()]),
+  }),
+  z.object({
+    column: z.string().max(63),
+    op: z.literal("in"),
+    values: z.array(z.union([z.string(), z.number()])).max(100),
+  }),
+  z.object({
+    column: z.string().max(63),
+    op: z.literal("range"),
+    gt: z.union([z.string(), z.number()]).optional(),
+    gte: z.union([z.string(), z.number()]).optional(),
+    lt: z.union([z.string(), z.number()]).optional(),
+    lte: z.union([z.string(), z.number()]).optional(),
+  }),
+  z.object({
+    column: z.string().max(63),
+    op: z.literal("ilike"),
+    value: z.string().max(200),
+  }),
+  z.object({
+    column: z.string().max(63),
+    op: z.literal("is_null"),
+    value: z.boolean().optional().describe("true for IS NULL (default), false for IS NOT NULL"),
+  }),
+]);
+
+/**
+ * Recursive filter tree: a condition, or an and/or group of filters
+ */
+export const FilterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.union([
+    FilterConditionSchema,
+    z.object({ and: z.array(FilterNodeSchema).min(1).max(20) }),
+    z.object({ or: z.array(FilterNodeSchema).min(1).max(20) }),
+  ])
+);
+
+/**
+ * Input schema for listing records
+ */
+const ListRecordsSchema = z.object({
+  table: z.string().max(63).describe("Table or view to list (e.g. contacts, companies, deals, tasks)"),
+  columns: z.array(z.string().max(63)).max(50).optional().describe("Columns to return (default: all columns)"),
+  filter: FilterNodeSchema.optional().describe("Structured filter tree"),
+  sort: z.array(z.object({
+    column: z.string().max(63),
+    direction: z.enum(["asc", "desc"]).default("asc"),
+  })).max(5).optional().describe("Sort keys, applied in order (id is always appended as a tie-breaker)"),
+  limit: z.number().int().min(1).max(100).default(25).describe("Maximum number of records to return"),
+  cursor: z.string().max(2000).optional().describe("next_cursor value from a previous call, to fetch the next page"),
+});
+
+/**
+ * Lists records from a whitelisted table with structured filters and keyset pagination
+ */
+async function listRecords(
+  params: z.infer<typeof ListRecordsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    // Validate table name against the whitelist
+    if (!isValidTable(params.table)) {
+      return {
+        success: false,
+        error: `Table '${params.table}' is not allowed`,
+      };
+    }
+
+    const table = params.table.toLowerCase();
+
+    // Validate requested columns
+    const invalidColumns = (params.columns || []).filter((column) => !isValidColumn(column));
+    if (invalidColumns.length > 0) {
+      return {
+        success: false,
+        error: `Invalid column names: ${invalidColumns.join(", ")}`,
+      };
+    }
+
+    // Build sort keys, always ending with id so the keyset is unique
+    const sort: SortKey[] = (params.sort || []).filter((key) => key.column !== "id");
+    const invalidSortColumns = sort.filter((key) => !isValidColumn(key.column));
+    if (invalidSortColumns.length > 0) {
+      return {
+        success: false,
+        error: `Invalid sort columns: ${invalidSortColumns.map((key) => key.column).join(", ")}`,
+      };
+    }
+    const idDirection = params.sort?.find((key) => key.column === "id")?.direction || "asc";
+    sort.push({ column: "id", direction: idDirection });
+
+    // Sort columns must be selected so the next cursor can be built
+    let selectList = "*";
+    if (params.columns?.length) {
+      const selected = new Set(params.columns);
+      for (const key of sort) {
+        selected.add(key.column);
+      }
+      selectList = [...selected].join(", ");
+    }
+
+    const conditions: string[] = [];
+    const queryParams: unknown[] = [];
+
+    if (params.filter) {
+      const filter = buildFilterClause(params.filter, 1);
+      if (filter.clause) {
+        conditions.push(`(${filter.clause})`);
+        queryParams.push(...filter.params);
+      }
+    }
+
+    if (params.cursor) {
+      const cursorValues = decodeCursor(params.cursor);
+      if (!cursorValues) {
+        return {
+          success: false,
+          error: "Invalid cursor",
+        };
+      }
+      const keyset = buildKeysetClause(sort, cursorValues, queryParams.length + 1);
+      conditions.push(`(${keyset.clause})`);
+      queryParams.push(...keyset.params);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // Fetch one extra row to know whether another page exists
+    queryParams.push(params.limit + 1);
+    const sql = `
+      SELECT ${selectList}
+      FROM ${table}
+      ${whereClause}
+      ORDER BY ${buildOrderByClause(sort)}
+      LIMIT $${queryParams.length}
+    `;
+
+    const result = await executeParameterizedQuery(sql, queryParams, context);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Failed to list records",
+      };
+    }
+
+    const rows = result.data || [];
+    const hasMore = rows.length > params.limit;
+    const records = hasMore ? rows.slice(0, params.limit) : rows;
+    const lastRecord = records[records.length - 1];
+
+    return {
+      success: true,
+      data: {
+        table,
+        count: records.length,
+        records,
+        next_cursor: hasMore && lastRecord
+          ? encodeCursor(sort.map((key) => lastRecord[key.column] ?? null))
+          : null,
+      },
+    };
+  } catch (error) {
+    console.error("List records error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const list_records = {
+  definition: {
+    description: `List records from a CRM table with structured filters, sorting and cursor pagination.
+
+Prefer this tool over the query tool for plain listings: no SQL is needed and every column is validated. Call get_schema first if you are unsure of column names.
+
+Parameters:
+- table (required): One of the allowed tables or views (contacts, companies, deals, tasks, sales, tags, contacts_summary, companies_summary, ...)
+- columns (optional): Columns to return (default: all)
+- filter (optional): Filter tree. A node is either a condition or a group:
+  - { "column": "stage", "op": "eq", "value": "proposal" }
+  - { "column": "stage", "op": "in", "values": ["proposal", "negotiation"] }
+  - { "column": "amount", "op": "range", "gte": 100000, "lt": 500000 }
+  - { "column": "name", "op": "ilike", "value": "acme" } (substring match, case-insensitive)
+  - { "column": "archived_at", "op": "is_null" } (use "value": false for IS NOT NULL)
+  - { "and": [ ...nodes ] } or { "or": [ ...nodes ] }
+- sort (optional): [{ "column": "amount", "direction": "desc" }]. id is appended as a tie-breaker.
+- limit (optional): Page size (default: 25, max: 100)
+- cursor (optional): Pass next_cursor from the previous response to get the next page
+
+Returns the records and a next_cursor (null on the last page). Row Level Security is enforced.
+
+Example:
+- Open deals over $1,000 by amount: { "table": "deals", "filter": { "and": [{ "column": "archived_at", "op": "is_null" }, { "column": "amount", "op": "range", "gt": 100000 }] }, "sort": [{ "column": "amount", "direction": "desc" }] }`,
+    inputSchema: ListRecordsSchema,
+  },
+  handler: async (params: z.infer<typeof ListRecordsSchema>, context: McpContext) => {
+    const result = await listRecords(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error listing records: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
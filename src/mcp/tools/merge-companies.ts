@@ -0,0 +1,275 @@
+import { z } from "zod";
+import { isValidTable, getPool } from "../../db/query-builder.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import type { McpContext } from "../server.js";
+import { decodeJwt } from "jose";
+
+/**
+ * Input schema for merging companies
+ */
+const MergeCompaniesSchema = z.object({
+  survivor_id: z.number().int().positive().describe("ID of the company to keep"),
+  duplicate_ids: z.array(z.number().int().positive()).min(1).max(10).describe("IDs of the companies to merge into the survivor and delete"),
+  dry_run: z.boolean().default(false).describe("Preview the merge without saving anything"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call, required to merge"),
+});
+
+/**
+ * Fields copied from a duplicate when the survivor has no value
+ */
+const FILL_FIELDS = [
+  "website",
+  "phone",
+  "address",
+  "city",
+  "state",
+  "country",
+  "zip_code",
+  "industry",
+  "size",
+  "revenue",
+  "description",
+  "linkedin_url",
+  "twitter_url",
+  "facebook_url",
+] as const;
+
+/**
+ * Merges duplicate companies into a surviving company
+ * Contacts, deals and tasks are re-parented, empty fields are filled from the
+ * duplicates and the duplicates are deleted in a single transaction.
+ * A dry run, or a call without a confirmation token, performs the same steps and
+ * rolls them back.
+ */
+async function mergeCompanies(
+  params: z.infer<typeof MergeCompaniesSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const pool = getPool();
+  let client = null;
+
+  try {
+    // Validate tables exist
+    if (!isValidTable("companies") || !isValidTable("contacts") || !isValidTable("deals") || !isValidTable("tasks")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const duplicateIds = [...new Set(params.duplicate_ids)];
+    if (duplicateIds.includes(params.survivor_id)) {
+      return {
+        success: false,
+        error: "survivor_id cannot also be listed in duplicate_ids",
+      };
+    }
+
+    // Two-phase confirmation: without a token the merge is only previewed
+    const preview = params.dry_run || !params.confirmation_token;
+    if (!preview) {
+      const rejection = await getConfirmationManager().verify(params.confirmation_token!, "merge_companies", context.authInfo.userId, params);
+      if (rejection) {
+        return {
+          success: false,
+          error: rejection,
+        };
+      }
+    }
+
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    // Start transaction
+    await client.query("BEGIN");
+
+    // Set RLS role
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    // Set JWT claims for RLS
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // Lock every company involved; all of them must belong to the user
+    const companiesResult = await client.query(
+      `SELECT * FROM companies
+       WHERE id = ANY($1::bigint[])
+         AND sales_id IN (SELECT id FROM sales WHERE user_id = $2)
+       FOR UPDATE`,
+      [[params.survivor_id, ...duplicateIds], context.authInfo.userId]
+    );
+
+    const byId = new Map(companiesResult.rows.map((row: any) => [Number(row.id), row]));
+    const missing = [params.survivor_id, ...duplicateIds].filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `Companies not found or access denied: ${missing.join(", ")}`,
+      };
+    }
+
+    const survivorBefore = byId.get(params.survivor_id);
+    const duplicatesBefore = duplicateIds.map((id) => byId.get(id));
+
+    // Fill empty fields on the survivor, duplicates are consulted in order
+    const filled: Record<string, { value: unknown; from: number }> = {};
+    for (const field of FILL_FIELDS) {
+      if (survivorBefore[field] !== null && survivorBefore[field] !== "") continue;
+      const source = duplicatesBefore.find((company) => company[field] !== null && company[field] !== "");
+      if (source) {
+        filled[field] = { value: source[field], from: Number(source.id) };
+      }
+    }
+
+    const filledFields = Object.keys(filled);
+    let survivorAfter = survivorBefore;
+    if (filledFields.length > 0) {
+      const setClauses = filledFields.map((field, index) => `${field} = $${index + 1}`);
+      const updateResult = await client.query(
+        `UPDATE companies SET ${setClauses.join(", ")} WHERE id = $${filledFields.length + 1} RETURNING *`,
+        [...filledFields.map((field) => filled[field].value), params.survivor_id]
+      );
+      survivorAfter = updateResult.rows[0];
+    }
+
+    // Re-parent contacts, deals and tasks
+    const contactsResult = await client.query(
+      `UPDATE contacts SET company_id = $1 WHERE company_id = ANY($2::bigint[]) RETURNING id`,
+      [params.survivor_id, duplicateIds]
+    );
+
+    // deals.company_name is denormalized by create_deal, keep it in sync
+    const dealsResult = await client.query(
+      `UPDATE deals SET company_id = $1, company_name = $2, updated_at = NOW()
+       WHERE company_id = ANY($3::bigint[])
+       RETURNING id`,
+      [params.survivor_id, survivorAfter.name, duplicateIds]
+    );
+
+    const tasksResult = await client.query(
+      `UPDATE tasks SET company_id = $1 WHERE company_id = ANY($2::bigint[]) RETURNING id`,
+      [params.survivor_id, duplicateIds]
+    );
+
+    // Delete the duplicates
+    await client.query(
+      `DELETE FROM companies WHERE id = ANY($1::bigint[])`,
+      [duplicateIds]
+    );
+
+    const summary = {
+      survivor: survivorAfter,
+      deleted: duplicatesBefore.map((company) => ({ id: company.id, name: company.name })),
+      filled_fields: filled,
+      moved: {
+        contacts: contactsResult.rows.map((row: any) => row.id),
+        deals: dealsResult.rows.map((row: any) => row.id),
+        tasks: tasksResult.rows.map((row: any) => row.id),
+      },
+    };
+
+    if (preview) {
+      await client.query("ROLLBACK");
+      return {
+        success: true,
+        data: {
+          dry_run: true,
+          ...summary,
+          ...(await getConfirmationManager().issue("merge_companies", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    // Commit transaction
+    await client.query("COMMIT");
+
+    logDataEvent("merge", "companies", String(params.survivor_id), context.authInfo.userId, {
+      details: {
+        merged_ids: duplicateIds,
+        before: {
+          survivor: survivorBefore,
+          duplicates: duplicatesBefore,
+        },
+        after: survivorAfter,
+        moved: summary.moved,
+      },
+    });
+
+    console.log(`Companies merged: ${duplicateIds.join(", ")} into ${params.survivor_id} by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: { dry_run: false, ...summary },
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    console.error("Merge companies error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+export const merge_companies = {
+  definition: {
+    description: `Merge duplicate companies (e.g. "Acme" and "Acme Inc.") into one company in the Atomic CRM.
+
+Use this tool when the same company was created more than once. delete_company refuses to delete a company that still has contacts or deals; merging moves them first.
+
+Required fields:
+- survivor_id: ID of the company to keep
+- duplicate_ids: IDs of the companies to merge into it (max 10)
+
+Optional fields:
+- dry_run: true to preview the result without saving anything (default: false)
+- confirmation_token: Token returned by the preview call
+
+Merging takes two calls:
+1. Call without confirmation_token (or with dry_run): the merge is simulated and rolled back, returning the survivor as it would be, the companies that would be deleted, the contacts, deals and tasks that would move, and a confirmation_token valid for a few minutes.
+2. Once the user has confirmed, call again with the same survivor_id, duplicate_ids and the confirmation_token.
+
+What happens, in a single transaction:
+- Contacts, deals and tasks of the duplicates move to the survivor
+- Moved deals get the survivor's name as company_name
+- Empty fields on the survivor (website, phone, address, industry, ...) are filled from the duplicates
+- The duplicates are deleted
+
+The survivor's existing values are never overwritten. You can only merge companies that belong to you.
+
+Examples:
+- Preview: { "survivor_id": 12, "duplicate_ids": [34] }
+- Merge: { "survivor_id": 12, "duplicate_ids": [34], "confirmation_token": "token-from-preview" }`,
+    inputSchema: MergeCompaniesSchema,
+  },
+  handler: async (params: z.infer<typeof MergeCompaniesSchema>, context: McpContext) => {
+    const result = await mergeCompanies(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `${result.data?.dry_run ? "Merge preview (nothing saved). Check it with the user, then call merge_companies again with the same companies and the confirmation_token" : "Companies merged successfully"}:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error merging companies: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,319 @@
+import { z } from "zod";
+import { isValidTable, getPool } from "../../db/query-builder.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { getConfirmationManager } from "../../services/confirmation.js";
+import { moveContactLinks } from "../../services/contact-merge.js";
+import type { McpContext } from "../server.js";
+import { decodeJwt } from "jose";
+
+/**
+ * Input schema for merging contacts
+ */
+const MergeContactsSchema = z.object({
+  survivor_id: z.string().uuid().describe("UUID of the contact to keep"),
+  duplicate_ids: z.array(z.string().uuid()).min(1).max(10).describe("UUIDs of the contacts to merge into the survivor and delete"),
+  confirmation_token: z.string().optional().describe("Token returned by the preview call; omit it to preview the merge first"),
+});
+
+/**
+ * Scalar fields copied from a duplicate when the survivor has no value
+ */
+const FILL_FIELDS = ["title", "background", "linkedin_url", "company_id", "gender", "status"] as const;
+
+/**
+ * Combine the survivor with its duplicates
+ * The survivor's values win; empty fields are filled from the duplicates in order,
+ * emails, phones and tags are unioned, and first/last seen are widened
+ */
+function mergeContactFields(survivor: any, duplicates: any[]) {
+  const merged: Record<string, any> = {};
+
+  for (const field of FILL_FIELDS) {
+    merged[field] = survivor[field];
+    for (const duplicate of duplicates) {
+      if ((merged[field] === null || merged[field] === "") && duplicate[field] !== null && duplicate[field] !== "") {
+        merged[field] = duplicate[field];
+      }
+    }
+  }
+
+  const all = [survivor, ...duplicates];
+
+  const seenEmails = new Set<string>();
+  merged.email_jsonb = all
+    .flatMap((contact) => contact.email_jsonb || [])
+    .filter((entry: any) => {
+      const key = String(entry?.email || "").trim().toLowerCase();
+      if (!key || seenEmails.has(key)) return false;
+      seenEmails.add(key);
+      return true;
+    });
+
+  const seenPhones = new Set<string>();
+  merged.phone_jsonb = all
+    .flatMap((contact) => contact.phone_jsonb || [])
+    .filter((entry: any) => {
+      const key = String(entry?.number || "").replace(/\D/g, "");
+      if (!key || seenPhones.has(key)) return false;
+      seenPhones.add(key);
+      return true;
+    });
+
+  merged.tags = [...new Set(all.flatMap((contact) => contact.tags || []))];
+  merged.has_newsletter = all.some((contact) => contact.has_newsletter === true);
+
+  const times = (field: string) => all
+    .map((contact) => contact[field])
+    .filter((value) => value)
+    .map((value) => new Date(value).getTime());
+  const firstSeen = times("first_seen");
+  const lastSeen = times("last_seen");
+  merged.first_seen = firstSeen.length ? new Date(Math.min(...firstSeen)).toISOString() : null;
+  merged.last_seen = lastSeen.length ? new Date(Math.max(...lastSeen)).toISOString() : null;
+
+  return merged;
+}
+
+/**
+ * Merges duplicate contacts into a surviving contact
+ * Notes, tasks, deal links and deal references are moved, fields are combined and the
+ * duplicates are deleted in a single transaction. Without a confirmation token
+ * the same steps run and are rolled back, giving an exact preview.
+ */
+async function mergeContacts(
+  params: z.infer<typeof MergeContactsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const pool = getPool();
+  let client = null;
+
+  try {
+    // Validate tables exist
+    if (
+      !isValidTable("contacts") ||
+      !isValidTable("contactnotes") ||
+      !isValidTable("tasks") ||
+      !isValidTable("deals") ||
+      !isValidTable("deal_contacts")
+    ) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    const duplicateIds = [...new Set(params.duplicate_ids)];
+    if (duplicateIds.includes(params.survivor_id)) {
+      return {
+        success: false,
+        error: "survivor_id cannot also be listed in duplicate_ids",
+      };
+    }
+
+    const preview = !params.confirmation_token;
+    if (params.confirmation_token) {
+      const rejection = await getConfirmationManager().verify(params.confirmation_token, "merge_contacts", context.authInfo.userId, params);
+      if (rejection) {
+        return {
+          success: false,
+          error: rejection,
+        };
+      }
+    }
+
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    // Start transaction
+    await client.query("BEGIN");
+
+    // Set RLS role
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    // Set JWT claims for RLS
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // Lock every contact involved; all of them must belong to the user
+    const contactsResult = await client.query(
+      `SELECT * FROM contacts
+       WHERE id = ANY($1::uuid[])
+         AND sales_id IN (SELECT id FROM sales WHERE user_id = $2)
+       FOR UPDATE`,
+      [[params.survivor_id, ...duplicateIds], context.authInfo.userId]
+    );
+
+    const byId = new Map(contactsResult.rows.map((row: any) => [String(row.id), row]));
+    const missing = [params.survivor_id, ...duplicateIds].filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: `Contacts not found or access denied: ${missing.join(", ")}`,
+      };
+    }
+
+    const survivorBefore = byId.get(params.survivor_id);
+    const duplicatesBefore = duplicateIds.map((id) => byId.get(id));
+
+    // Move notes, tasks and deal links onto the survivor
+    const moved = await moveContactLinks(client, params.survivor_id, duplicateIds);
+
+    // Combine fields onto the survivor
+    const merged = mergeContactFields(survivorBefore, duplicatesBefore);
+    const survivorResult = await client.query(
+      `UPDATE contacts
+       SET title = $1,
+           background = $2,
+           linkedin_url = $3,
+           company_id = $4,
+           gender = $5,
+           status = $6,
+           email_jsonb = $7::jsonb,
+           phone_jsonb = $8::jsonb,
+           tags = $9,
+           has_newsletter = $10,
+           first_seen = $11,
+           last_seen = $12
+       WHERE id = $13
+       RETURNING *`,
+      [
+        merged.title,
+        merged.background,
+        merged.linkedin_url,
+        merged.company_id,
+        merged.gender,
+        merged.status,
+        JSON.stringify(merged.email_jsonb),
+        JSON.stringify(merged.phone_jsonb),
+        merged.tags,
+        merged.has_newsletter,
+        merged.first_seen,
+        merged.last_seen,
+        params.survivor_id,
+      ]
+    );
+
+    // Delete the duplicates
+    await client.query(
+      `DELETE FROM contacts WHERE id = ANY($1::uuid[])`,
+      [duplicateIds]
+    );
+
+    if (preview) {
+      await client.query("ROLLBACK");
+      return {
+        success: true,
+        data: {
+          preview: true,
+          impact: {
+            survivor_after: survivorResult.rows[0],
+            contacts_deleted: duplicatesBefore.map((contact: any) => ({
+              id: contact.id,
+              first_name: contact.first_name,
+              last_name: contact.last_name,
+              emails: (contact.email_jsonb || []).map((entry: any) => entry?.email).filter(Boolean),
+            })),
+            moved,
+          },
+          ...(await getConfirmationManager().issue("merge_contacts", context.authInfo.userId, params)),
+        },
+      };
+    }
+
+    // Commit transaction
+    await client.query("COMMIT");
+
+    logDataEvent("merge", "contacts", params.survivor_id, context.authInfo.userId, {
+      details: {
+        merged_ids: duplicateIds,
+        before: {
+          survivor: survivorBefore,
+          duplicates: duplicatesBefore,
+        },
+        after: survivorResult.rows[0],
+        moved,
+      },
+    });
+
+    console.log(`Contacts merged: ${duplicateIds.join(", ")} into ${params.survivor_id} by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: {
+        survivor: survivorResult.rows[0],
+        deleted_ids: duplicateIds,
+        moved,
+      },
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    console.error("Merge contacts error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+export const merge_contacts = {
+  definition: {
+    description: `Merge duplicate contacts into one contact in the Atomic CRM.
+
+Use this tool after find_duplicate_contacts, once the user has confirmed which contact to keep.
+
+Required fields:
+- survivor_id: UUID of the contact to keep
+- duplicate_ids: UUIDs of the contacts to merge into it (max 10)
+
+Optional fields:
+- confirmation_token: Token returned by the preview call
+
+Merging takes two calls:
+1. Call without confirmation_token: the merge is simulated and rolled back, returning the survivor as it would be, the contacts that would be deleted, the notes, tasks, deals and deal links that would move, and a confirmation_token valid for a few minutes.
+2. Once the user has confirmed, call again with the same survivor_id, duplicate_ids and the confirmation_token.
+
+What happens, in a single transaction:
+- Notes and tasks of the duplicates move to the survivor
+- Deals that list a duplicate now list the survivor instead, in contact_ids and in the deal_contacts links (moved.deal_contacts.moved); links the survivor already has are removed instead of doubled (moved.deal_contacts.removed)
+- Emails, phone numbers and tags are combined; empty fields on the survivor (title, background, LinkedIn, company, gender, status) are filled from the duplicates
+- The duplicates are deleted
+
+The survivor's existing values are never overwritten. You can only merge contacts that belong to you. The merge is recorded in the audit log with the full before and after state.
+
+Examples:
+- Preview: { "survivor_id": "uuid-to-keep", "duplicate_ids": ["uuid-to-merge"] }
+- Confirm: { "survivor_id": "uuid-to-keep", "duplicate_ids": ["uuid-to-merge"], "confirmation_token": "token-from-preview" }`,
+    inputSchema: MergeContactsSchema,
+  },
+  handler: async (params: z.infer<typeof MergeContactsSchema>, context: McpContext) => {
+    const result = await mergeContacts(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? result.data?.preview
+              ? `Merge preview, nothing saved. Check the impact with the user, then call merge_contacts again with the same contacts and this confirmation_token:\n${JSON.stringify(result.data, null, 2)}`
+              : `Contacts merged successfully:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error merging contacts: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,225 @@
+import { z } from "zod";
+import { isValidTable, getPool } from "../../db/query-builder.js";
+import { planDealMove } from "../../services/deal-board.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
+import type { McpContext } from "../server.js";
+import { decodeJwt } from "jose";
+
+/**
+ * Input schema for moving a deal on the board
+ */
+const MoveDealSchema = z.object({
+  id: z.union([z.string(), z.number()]).describe("ID of the deal to move (bigint)"),
+  stage: optionEnum(config.fieldOptions.dealStages).optional().describe("Stage to move the deal to (defaults to its current stage)"),
+  position: z.number().int().min(0).optional().describe("0-based position in the stage column (defaults to the end)"),
+});
+
+/**
+ * Moves a deal to a stage and position on the board
+ * Uses a single transaction to renumber the source and target stage columns atomically
+ */
+async function moveDeal(
+  params: z.infer<typeof MoveDealSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  const pool = getPool();
+  let client = null;
+
+  try {
+    // Validate table exists
+    if (!isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Convert id to number if it's a string
+    const dealId = typeof params.id === 'string' ? parseInt(params.id, 10) : params.id;
+
+    if (isNaN(dealId)) {
+      return {
+        success: false,
+        error: "Invalid id: must be a valid number",
+      };
+    }
+
+    if (params.stage === undefined && params.position === undefined) {
+      return {
+        success: false,
+        error: "Provide a stage, a position, or both",
+      };
+    }
+
+    client = await pool.connect();
+    const jwtClaims = decodeJwt(context.userToken);
+
+    // Start transaction
+    await client.query("BEGIN");
+
+    // Set RLS role
+    await client.query(`SET LOCAL role = 'authenticated'`);
+
+    // Set JWT claims for RLS
+    const claimsJson = JSON.stringify(jwtClaims)
+      .replace(/\\/g, "\\\\")
+      .replace(/'/g, "''");
+    await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+
+    // Verify the user owns this deal
+    const dealCheck = await client.query(
+      `SELECT id, stage, index, sales_id, archived_at FROM deals
+       WHERE id = $1 AND sales_id IN (SELECT id FROM sales WHERE user_id = $2)
+       FOR UPDATE`,
+      [dealId, context.authInfo.userId]
+    );
+
+    if (!dealCheck.rows.length) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Deal not found or access denied",
+      };
+    }
+
+    const deal = dealCheck.rows[0];
+
+    if (deal.archived_at) {
+      await client.query("ROLLBACK");
+      return {
+        success: false,
+        error: "Archived deals are not on the board; unarchive the deal first",
+      };
+    }
+
+    const fromStage: string = deal.stage;
+    const toStage = params.stage ?? fromStage;
+
+    // Lock both columns (the rep's open deals in the two stages, as create_deal indexes them)
+    const columnsResult = await client.query(
+      `SELECT id, stage, index FROM deals
+       WHERE sales_id = $1 AND archived_at IS NULL AND stage = ANY($2)
+       ORDER BY id
+       FOR UPDATE`,
+      [deal.sales_id, [fromStage, toStage]]
+    );
+
+    const column = (stage: string) => columnsResult.rows
+      .filter((row) => row.stage === stage)
+      .map((row) => ({ id: Number(row.id), index: row.index === null ? null : Number(row.index) }));
+
+    const source = column(fromStage);
+    const target = toStage === fromStage ? source : column(toStage);
+    const plan = planDealMove(dealId, source, target, params.position);
+
+    // Renumber the other deals in both columns
+    const others = plan.changes.filter((change) => change.id !== dealId);
+    if (others.length > 0) {
+      await client.query(
+        `UPDATE deals d
+         SET index = v.new_index
+         FROM unnest($1::bigint[], $2::int[]) AS v(id, new_index)
+         WHERE d.id = v.id`,
+        [others.map((change) => change.id), others.map((change) => change.to)]
+      );
+    }
+
+    // Move the deal itself (a stage change is recorded in the deal's stage history)
+    const movedResult = await client.query(
+      `UPDATE deals
+       SET stage = $1, index = $2, updated_at = NOW()
+       WHERE id = $3
+       RETURNING id, name, stage, index, amount, updated_at`,
+      [toStage, plan.index, dealId]
+    );
+
+    // Fetch the resulting columns to return
+    const boardResult = await client.query(
+      `SELECT id, name, stage, index FROM deals
+       WHERE sales_id = $1 AND archived_at IS NULL AND stage = ANY($2)
+       ORDER BY stage, index ASC, id ASC`,
+      [deal.sales_id, [fromStage, toStage]]
+    );
+
+    // Commit transaction
+    await client.query("COMMIT");
+
+    console.log(`Deal moved: ${dealId} from ${fromStage} to ${toStage}[${plan.index}] by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: {
+        deal: movedResult.rows[0],
+        from_stage: fromStage,
+        to_stage: toStage,
+        reindexed: others.length,
+        columns: Object.fromEntries(
+          [...new Set([toStage, fromStage])].map((stage) => [
+            stage,
+            boardResult.rows.filter((row) => row.stage === stage).map(({ id, name, index }) => ({ id, name, index })),
+          ])
+        ),
+      },
+    };
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query("ROLLBACK");
+      } catch (rollbackError) {
+        console.error("Rollback error:", rollbackError);
+      }
+    }
+
+    console.error("Move deal error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  } finally {
+    if (client) {
+      client.release();
+    }
+  }
+}
+
+export const move_deal = {
+  definition: {
+    description: `Move a deal on the Atomic CRM board: to another stage, to another position in its stage, or both.
+
+Use this tool instead of update_deal when the user drags a deal on the board or asks to put it at a given place in a stage column. update_deal changes the stage without touching the board order.
+
+Required fields:
+- id: ID of the deal to move
+- At least one of:
+  - stage: Stage to move the deal to, one of: ${config.fieldOptions.dealStages.join(", ")} (defaults to its current stage)
+  - position: 0-based position in the stage column, 0 being the top (defaults to the end; positions past the end mean the end)
+
+In one transaction, the other deals of the source and target columns are shifted, and both columns are renumbered from 0, which also repairs duplicate or missing indexes. Columns hold your own open (not archived) deals, the same way create_deal places new deals. A stage change is recorded in the deal's stage history.
+
+Note: You can only move deals that belong to you. Archived deals cannot be moved.
+
+Returns the moved deal, the number of other deals reindexed, and the resulting order of the affected columns.
+
+Examples:
+- Move to the top of negotiation: { "id": 123, "stage": "negotiation", "position": 0 }
+- Move to the end of proposal: { "id": 123, "stage": "proposal" }
+- Reorder within its stage: { "id": 123, "position": 2 }`,
+    inputSchema: MoveDealSchema,
+  },
+  handler: async (params: z.infer<typeof MoveDealSchema>, context: McpContext) => {
+    const result = await moveDeal(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Deal moved successfully:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error moving deal: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Maximum number of stalled deals listed
+ */
+const MAX_STALLED_DEALS = 50;
+
+/**
+ * Input schema for the pipeline velocity report
+ */
+const PipelineVelocitySchema = z.object({
+  period_days: z.number().int().min(1).max(730).default(90).describe("Only count stage entries from the last N days"),
+  stalled_after_days: z.number().int().min(1).max(365).default(30).describe("Open deals in the same stage for longer than this are stalled"),
+  closed_stages: z.array(z.string().max(50)).max(20).default(config.pipeline.closedStages).describe("Stages that end a deal (never stalled)"),
+});
+
+/**
+ * Stays in a stage: each history entry lasts until the deal's next transition
+ */
+const STAYS_CTE = `
+  stays AS (
+    SELECT
+      h.deal_id,
+      h.to_stage AS stage,
+      h.changed_at AS entered_at,
+      lead(h.changed_at) OVER w AS left_at,
+      lead(h.to_stage) OVER w AS next_stage
+    FROM deal_stage_history h
+    WINDOW w AS (PARTITION BY h.deal_id ORDER BY h.changed_at, h.id)
+  )`;
+
+/**
+ * Builds the pipeline velocity report from deal_stage_history
+ * Covers every deal the user can see, like get_summary
+ */
+async function pipelineVelocity(
+  params: z.infer<typeof PipelineVelocitySchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("deal_stage_history") || !isValidTable("deals")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    // Average days per stage, over the stays that have ended
+    const stagesResult = await executeParameterizedQuery(
+      `WITH ${STAYS_CTE}
+      SELECT
+        stage,
+        COUNT(*) AS entered,
+        COUNT(left_at) AS exited,
+        COUNT(*) FILTER (WHERE left_at IS NULL) AS current,
+        ROUND((AVG(EXTRACT(EPOCH FROM (left_at - entered_at))) FILTER (WHERE left_at IS NOT NULL) / 86400)::numeric, 1) AS avg_days,
+        ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (left_at - entered_at)))
+          FILTER (WHERE left_at IS NOT NULL) / 86400)::numeric, 1) AS median_days
+      FROM stays
+      WHERE entered_at >= NOW() - make_interval(days => $1)
+      GROUP BY stage
+      ORDER BY entered DESC, stage`,
+      [params.period_days],
+      context
+    );
+
+    if (!stagesResult.success) {
+      return {
+        success: false,
+        error: stagesResult.error || "Failed to compute stage durations",
+      };
+    }
+
+    // Where deals went after each stage
+    const conversionsResult = await executeParameterizedQuery(
+      `WITH ${STAYS_CTE}
+      SELECT stage AS from_stage, next_stage AS to_stage, COUNT(*) AS deals
+      FROM stays
+      WHERE entered_at >= NOW() - make_interval(days => $1)
+        AND next_stage IS NOT NULL
+      GROUP BY stage, next_stage
+      ORDER BY stage, deals DESC, next_stage`,
+      [params.period_days],
+      context
+    );
+
+    if (!conversionsResult.success) {
+      return {
+        success: false,
+        error: conversionsResult.error || "Failed to compute stage conversions",
+      };
+    }
+
+    // Open deals sitting in their current stage for too long
+    // Deals without history count from their creation date
+    const stalledResult = await executeParameterizedQuery(
+      `SELECT
+        d.id,
+        d.name,
+        d.stage,
+        d.amount,
+        s.first_name AS sales_first_name,
+        s.last_name AS sales_last_name,
+        coalesce(last.changed_at, d.created_at) AS in_stage_since,
+        FLOOR(EXTRACT(EPOCH FROM (NOW() - coalesce(last.changed_at, d.created_at))) / 86400) AS days_in_stage,
+        COUNT(*) OVER () AS total
+      FROM deals d
+      LEFT JOIN sales s ON d.sales_id = s.id
+      LEFT JOIN LATERAL (
+        SELECT h.changed_at
+        FROM deal_stage_history h
+        WHERE h.deal_id = d.id
+        ORDER BY h.changed_at DESC, h.id DESC
+        LIMIT 1
+      ) last ON true
+      WHERE d.archived_at IS NULL
+        AND NOT (d.stage = ANY($2))
+        AND coalesce(last.changed_at, d.created_at) < NOW() - make_interval(days => $1)
+      ORDER BY in_stage_since ASC, d.id
+      LIMIT ${MAX_STALLED_DEALS}`,
+      [params.stalled_after_days, params.closed_stages],
+      context
+    );
+
+    if (!stalledResult.success) {
+      return {
+        success: false,
+        error: stalledResult.error || "Failed to find stalled deals",
+      };
+    }
+
+    const stages = (stagesResult.data || []).map((row: any) => ({
+      stage: row.stage,
+      entered: parseInt(row.entered),
+      exited: parseInt(row.exited),
+      current: parseInt(row.current),
+      avg_days: row.avg_days === null ? null : parseFloat(row.avg_days),
+      median_days: row.median_days === null ? null : parseFloat(row.median_days),
+    }));
+
+    // Rates are shares of the deals that left the stage
+    const exitedByStage = new Map<string, number>(stages.map((stage: any) => [stage.stage, stage.exited]));
+    const conversions = (conversionsResult.data || []).map((row: any) => {
+      const deals = parseInt(row.deals);
+      const exited = exitedByStage.get(row.from_stage) || 0;
+      return {
+        from_stage: row.from_stage,
+        to_stage: row.to_stage,
+        deals,
+        rate: exited > 0 ? Math.round((deals / exited) * 1000) / 1000 : null,
+      };
+    });
+
+    const stalled = stalledResult.data || [];
+
+    return {
+      success: true,
+      data: {
+        period_days: params.period_days,
+        stages,
+        conversions,
+        stalled: {
+          threshold_days: params.stalled_after_days,
+          total: stalled.length > 0 ? parseInt(stalled[0].total) : 0,
+          deals: stalled.map((row: any) => ({
+            id: row.id,
+            name: row.name,
+            stage: row.stage,
+            amount: row.amount,
+            owner: row.sales_first_name ? `${row.sales_first_name} ${row.sales_last_name}` : null,
+            in_stage_since: row.in_stage_since,
+            days_in_stage: parseInt(row.days_in_stage),
+          })),
+        },
+      },
+    };
+  } catch (error) {
+    console.error("Pipeline velocity error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const pipeline_velocity = {
+  definition: {
+    description: `Report how fast deals move through the Atomic CRM pipeline, from the recorded stage history.
+
+Use this tool for pipeline and forecast reviews: to see where deals slow down, how often each stage converts, and which open deals are stuck.
+
+Optional fields:
+- period_days: Only count stage entries from the last N days (default: 90, max 730)
+- stalled_after_days: Open deals in the same stage for longer than this are stalled (default: 30)
+- closed_stages: Stages that end a deal and are never stalled (default: ${config.pipeline.closedStages.join(", ") || "none"}; configured with DEAL_CLOSED_STAGES, or else the deal stages at 100% or 0% win probability)
+
+Returns:
+- stages: For each stage, the deals that entered it in the period (entered), have since left it (exited) or are still in it (current), and the average and median days spent there by the deals that left
+- conversions: For each stage, where the deals that left it went, with the rate as a share of the deals that left (e.g. proposal to negotiation 0.6)
+- stalled: Open (not archived, not closed) deals in their current stage for longer than stalled_after_days, longest first (max ${MAX_STALLED_DEALS}), with the total count
+
+Stage changes are recorded automatically whenever a deal is created or its stage changes. The report covers every deal you can see, not only your own.
+
+Examples:
+- Last quarter: {}
+- Last month, stalled after two weeks: { "period_days": 30, "stalled_after_days": 14 }`,
+    inputSchema: PipelineVelocitySchema,
+  },
+  handler: async (params: z.infer<typeof PipelineVelocitySchema>, context: McpContext) => {
+    const result = await pipelineVelocity(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Error getting pipeline velocity: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
@@ -1,15 +1,23 @@
 import { z } from "zod";
-import { executeRawQuery } from "../../db/query-builder.js";
-import { validateSqlQuery } from "../../db/sql-validation.js";
+import { createHash } from "node:crypto";
+import { executeRawQuery, encodeCursor, decodeCursor, ALLOWED_TABLES } from "../../db/query-builder.js";
+import { validateSqlQuery, validateTablesInQuery } from "../../db/sql-validation.js";
+import { assessQueryPlan } from "../../db/query-plan.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
- * Execute a read-only SQL query with validation
+ * Fingerprint of a query, so a cursor cannot be replayed against a different query
  */
-async function executeReadOnlyQuery(
-  sql: string,
-  context: McpContext
-): Promise<{ success: boolean; data?: any[]; error?: string }> {
+function fingerprintQuery(sql: string): string {
+  return createHash("sha256").update(sql).digest("hex").substring(0, 16);
+}
+
+/**
+ * Validate a read-only query and strip its trailing semicolon
+ * Shared by the query and export tools
+ */
+export function prepareReadOnlyQuery(sql: string): { success: boolean; sql?: string; error?: string } {
   // Validate the query first
   const validation = validateSqlQuery(sql);
   if (!validation.valid) {
@@ -19,11 +27,137 @@ async function executeReadOnlyQuery(
     };
   }
 
+  // Only whitelisted tables may be referenced
+  const tableValidation = validateTablesInQuery(sql, ALLOWED_TABLES);
+  if (!tableValidation.valid) {
+    return {
+      success: false,
+      error: `Query references tables that are not allowed: ${tableValidation.invalidTables?.join(", ")}`,
+    };
+  }
+
   // Remove trailing semicolon if present
-  const cleanSql = sql.trim().replace(/;$/, '');
+  return {
+    success: true,
+    sql: sql.trim().replace(/;$/, ''),
+  };
+}
+
+/**
+ * Estimate the cost of a statement under the user's RLS context and reject it
+ * when it exceeds the configured cost guard limits
+ */
+export async function checkQueryCost(
+  sql: string,
+  context: McpContext
+): Promise<{ success: boolean; error?: string; details?: Record<string, unknown> }> {
+  const explainResult = await executeRawQuery(`EXPLAIN (FORMAT JSON) ${sql}`, context);
+
+  if (!explainResult.success) {
+    return { success: false, error: explainResult.error };
+  }
+
+  const assessment = assessQueryPlan(explainResult.data?.[0]?.["QUERY PLAN"], {
+    maxCost: config.query.maxPlanCost,
+    maxRows: config.query.maxPlanRows,
+  });
+
+  if (!assessment.allowed) {
+    return {
+      success: false,
+      error: `Query rejected by cost guard: ${assessment.reasons.join("; ")}. Rewrite the query using the suggestions below.`,
+      details: {
+        estimated_cost: assessment.estimatedCost,
+        max_cost: assessment.limits.maxCost,
+        estimated_rows: assessment.estimatedRows,
+        max_rows: assessment.limits.maxRows,
+        expensive_nodes: assessment.expensiveNodes,
+        suggestions: assessment.suggestions,
+      },
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Execute a read-only SQL query with validation
+ * Results are paged server-side: the query is wrapped with LIMIT/OFFSET and
+ * one extra row is fetched to detect whether more rows are available
+ */
+async function executeReadOnlyQuery(
+  sql: string,
+  options: { limit?: number; cursor?: string },
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string; details?: Record<string, unknown> }> {
+  const prepared = prepareReadOnlyQuery(sql);
+  if (!prepared.success || !prepared.sql) {
+    return {
+      success: false,
+      error: prepared.error,
+    };
+  }
+
+  const cleanSql = prepared.sql;
+  const fingerprint = fingerprintQuery(cleanSql);
+
+  // Resolve the page offset from the continuation token
+  let offset = 0;
+  if (options.cursor) {
+    const cursorValues = decodeCursor(options.cursor);
+    if (
+      !cursorValues ||
+      cursorValues.length !== 2 ||
+      cursorValues[0] !== fingerprint ||
+      !Number.isInteger(cursorValues[1]) ||
+      (cursorValues[1] as number) < 0
+    ) {
+      return {
+        success: false,
+        error: "Invalid cursor: it must come from a previous call with the same SQL",
+      };
+    }
+    offset = cursorValues[1] as number;
+  }
+
+  const maxRows = config.query.maxRows;
+  const limit = Math.min(options.limit ?? maxRows, maxRows);
+
+  // limit and offset are integers computed above, safe to interpolate
+  // The query sits on its own lines so a trailing -- comment cannot swallow the wrapper
+  const pagedSql = `SELECT * FROM (\n${cleanSql}\n) AS query_page LIMIT ${limit + 1} OFFSET ${offset}`;
+
+  // Estimate the cost of the exact statement we are about to run, under the same RLS context
+  const costCheck = await checkQueryCost(pagedSql, context);
+
+  if (!costCheck.success) {
+    return costCheck;
+  }
 
   // Execute the query
-  return executeRawQuery(cleanSql, context);
+  const result = await executeRawQuery(pagedSql, context);
+
+  if (!result.success) {
+    return result;
+  }
+
+  const rows = result.data || [];
+  const truncated = rows.length > limit;
+  const pageRows = truncated ? rows.slice(0, limit) : rows;
+
+  return {
+    success: true,
+    data: {
+      rows: pageRows,
+      row_count: pageRows.length,
+      offset,
+      truncated,
+      next_cursor: truncated ? encodeCursor([fingerprint, offset + limit]) : null,
+      ...(truncated && {
+        notice: `Result truncated to ${limit} rows. Call the query tool again with the same SQL and cursor set to next_cursor to get the next page, or refine the query (aggregate, filter, or select fewer columns).`,
+      }),
+    },
+  };
 }
 
 export const query = {
@@ -32,10 +166,12 @@ export const query = {
 
 IMPORTANT: Before using this tool, you MUST call the get_schema tool first to understand what tables and columns are available in the database.
 
-SECURITY: This tool only accepts SELECT queries. The following operations are forbidden:
+SECURITY: This tool only accepts a single SELECT (or WITH) query. The following are forbidden:
 - INSERT, UPDATE, DELETE, DROP, TRUNCATE
 - ALTER, CREATE, GRANT, REVOKE
-- Any DDL or DML operations
+- Any DDL or DML operations, including data-modifying CTEs and FOR UPDATE
+- Server functions such as pg_sleep, dblink or lo_import
+- Tables outside the CRM (system catalogs, auth schema)
 
 Use this tool when the user asks about their CRM data such as:
 - Contacts, companies, and deals
@@ -46,6 +182,10 @@ Use this tool when the user asks about their CRM data such as:
 
 Row Level Security (RLS) is enforced - queries automatically return only data the authenticated user has permission to access.
 
+LIMITS: Results are capped per call (see the limit parameter). When more rows are available the response has "truncated": true and a next_cursor; call this tool again with the same SQL and that cursor to fetch the next page. Add an ORDER BY for stable paging. Long-running statements are cancelled by a server-side timeout.
+
+COST GUARD: Every query is EXPLAINed before it runs. Queries whose estimated cost or intermediate row count is too high (for example a join without a join condition) are rejected with the plan's most expensive steps and rewrite suggestions.
+
 Note: Use the *_summary views (contacts_summary, companies_summary) for queries that need aggregated data or search capabilities.
 
 Examples:
@@ -61,11 +201,27 @@ Examples:
         .describe(
           "PostgreSQL SELECT query to execute against the Atomic CRM database. Only SELECT queries are allowed. RLS policies are automatically enforced."
         ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(1000)
+        .optional()
+        .describe("Maximum rows to return in this page (capped by the server limit)"),
+      cursor: z
+        .string()
+        .max(500)
+        .optional()
+        .describe("next_cursor from a previous call with the same SQL, to fetch the next page"),
     }),
   },
-  handler: async (params: { sql: string }, context: McpContext) => {
+  handler: async (params: { sql: string; limit?: number; cursor?: string }, context: McpContext) => {
     try {
-      const result = await executeReadOnlyQuery(params.sql, context);
+      const result = await executeReadOnlyQuery(
+        params.sql,
+        { limit: params.limit, cursor: params.cursor },
+        context
+      );
 
       return {
         content: [
@@ -73,7 +229,7 @@ Examples:
             type: "text" as const,
             text: result.success
               ? JSON.stringify(result.data, null, 2)
-              : `Error: ${result.error}`,
+              : `Error: ${result.error}${result.details ? `\n${JSON.stringify(result.details, null, 2)}` : ""}`,
           },
         ],
         isError: !result.success,
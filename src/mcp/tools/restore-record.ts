@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { restoreFromTrash, TRASH_RESOURCES } from "../../services/trash.js";
+import { logDataEvent } from "../../services/audit-logger.js";
+import { config } from "../../config.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for restoring a deleted record
+ */
+const RestoreRecordSchema = z.object({
+  trash_id: z.number().int().positive().optional().describe("trash_id returned by a delete tool or list_deleted"),
+  resource: z.enum(TRASH_RESOURCES).optional().describe("Kind of record, with record_id instead of trash_id"),
+  record_id: z.union([z.string(), z.number()]).optional().describe("Original id of the deleted record, with resource"),
+});
+
+/**
+ * Restores a deleted record and the rows deleted along with it
+ */
+async function restoreRecord(
+  params: z.infer<typeof RestoreRecordSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    if (!isValidTable("deleted_records")) {
+      return {
+        success: false,
+        error: "Invalid table configuration",
+      };
+    }
+
+    if (!params.trash_id && !(params.resource && params.record_id !== undefined)) {
+      return {
+        success: false,
+        error: "Provide trash_id, or resource and record_id",
+      };
+    }
+
+    // Get the sales_id from the authenticated user
+    const salesResult = await executeParameterizedQuery(
+      `SELECT id FROM sales WHERE user_id = $1`,
+      [context.authInfo.userId],
+      context
+    );
+
+    if (!salesResult.success || !salesResult.data?.length) {
+      return {
+        success: false,
+        error: "Unable to find sales record for authenticated user",
+      };
+    }
+
+    const salesId = salesResult.data[0].id;
+
+    // Resolve the latest trash entry of the record when no trash_id is given
+    let trashId = params.trash_id;
+    if (!trashId) {
+      const entryResult = await executeParameterizedQuery(
+        `SELECT id FROM deleted_records
+         WHERE resource = $1 AND record_id = $2 AND sales_id = $3
+         ORDER BY deleted_at DESC, id DESC
+         LIMIT 1`,
+        [params.resource, String(params.record_id), salesId],
+        context
+      );
+      trashId = entryResult.data?.[0]?.id ? Number(entryResult.data[0].id) : undefined;
+    }
+
+    const restored = trashId ? await restoreFromTrash(trashId, salesId, context) : null;
+
+    if (!restored) {
+      return {
+        success: false,
+        error: `Deleted record not found, already restored, or purged (records are kept ${config.trash.retentionDays} days)`,
+      };
+    }
+
+    logDataEvent("restore", restored.resource, restored.record_id, context.authInfo.userId, {
+      details: { trash_id: restored.trash_id, related: restored.related },
+    });
+
+    console.log(`Record restored: ${restored.resource} ${restored.record_id} by user ${context.authInfo.userId}`);
+
+    return {
+      success: true,
+      data: {
+        resource: restored.resource,
+        id: restored.record_id,
+        label: restored.label,
+        restored: true,
+        restored_with_it: restored.related,
+        deleted_at: restored.deleted_at,
+      },
+    };
+  } catch (error) {
+    console.error("Restore record error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const restore_record = {
+  definition: {
+    description: `Restore a deleted contact, company, deal or task from the trash.
+
+Use this tool when the user wants to undo a deletion. The record comes back with its original id, together with what was deleted along with it (notes, deal contacts, tasks, journey legs).
+
+Identify the record with either:
+- trash_id: Returned by the delete tools and list_deleted
+- resource and record_id: e.g. { "resource": "deals", "record_id": 123 } restores the most recent deletion of that deal
+
+Restoring fails without changing anything if something the record points to is gone (e.g. restore a contact's company before the contact) or its id is taken. Records are purged ${config.trash.retentionDays} days after deletion and can no longer be restored.
+
+Examples:
+- Restore by trash id: { "trash_id": 42 }
+- Restore a contact: { "resource": "contacts", "record_id": "uuid-here" }`,
+    inputSchema: RestoreRecordSchema,
+  },
+  handler: async (params: z.infer<typeof RestoreRecordSchema>, context: McpContext) => {
+    const result = await restoreRecord(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? `Record restored successfully:\n${JSON.stringify(result.data, null, 2)}`
+            : `Error restoring record: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
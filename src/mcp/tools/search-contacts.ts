@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { executeParameterizedQuery } from "../../db/query-builder.js";
+import { buildFuzzyContactSearchQuery } from "../../services/contact-fuzzy-search.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -10,8 +11,32 @@ const SearchContactsSchema = z.object({
   limit: z.number().min(1).max(50).default(10).describe("Maximum number of results to return"),
   status: z.string().max(50).optional().describe("Filter by contact status"),
   company_id: z.number().int().positive().optional().describe("Filter by company ID"),
+  mode: z.enum(["fulltext", "fuzzy"]).default("fulltext").describe("fulltext: exact word matches; fuzzy: typo-tolerant name, phonetic and phone number matching"),
+  min_score: z.number().min(0).max(1).default(0.3).describe("Minimum similarity score for fuzzy mode (0-1)"),
 });
 
+/**
+ * Format a contacts/companies/sales row for output
+ */
+function formatContactRow(row: any) {
+  return {
+    id: row.id,
+    name: `${row.first_name} ${row.last_name}`,
+    title: row.title,
+    email: row.email_jsonb?.[0]?.email || null,
+    phone: row.phone_jsonb?.[0]?.number || null,
+    status: row.status,
+    company: row.company_name ? {
+      id: row.company_id,
+      name: row.company_name,
+    } : null,
+    sales_rep: row.sales_first_name ? `${row.sales_first_name} ${row.sales_last_name}` : null,
+    linkedin_url: row.linkedin_url,
+    first_seen: row.first_seen,
+    last_seen: row.last_seen,
+  };
+}
+
 /**
  * Search contacts by name, email, or company using parameterized queries
  */
@@ -89,21 +114,53 @@ async function searchContacts(
     }
 
     // Format results for better readability
+    const formattedResults = result.data?.map(formatContactRow);
+
+    return {
+      success: true,
+      data: {
+        total: formattedResults?.length || 0,
+        query: params.query,
+        results: formattedResults,
+      },
+    };
+  } catch (error) {
+    console.error("Search contacts error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Find contacts similar to the query, tolerating typos and spelling variants
+ * Combines trigram similarity on the full name, double metaphone on each name
+ * token, and phone numbers normalized to digits from phone_jsonb
+ */
+async function fuzzySearchContacts(
+  params: z.infer<typeof SearchContactsSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    const { sql, params: queryParams } = buildFuzzyContactSearchQuery(params);
+    const result = await executeParameterizedQuery(sql, queryParams, context);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Fuzzy search failed",
+      };
+    }
+
     const formattedResults = result.data?.map((row: any) => ({
-      id: row.id,
-      name: `${row.first_name} ${row.last_name}`,
-      title: row.title,
-      email: row.email_jsonb?.[0]?.email || null,
-      phone: row.phone_jsonb?.[0]?.number || null,
-      status: row.status,
-      company: row.company_name ? {
-        id: row.company_id,
-        name: row.company_name,
-      } : null,
-      sales_rep: row.sales_first_name ? `${row.sales_first_name} ${row.sales_last_name}` : null,
-      linkedin_url: row.linkedin_url,
-      first_seen: row.first_seen,
-      last_seen: row.last_seen,
+      ...formatContactRow(row),
+      similarity: {
+        score: Math.round(parseFloat(row.score) * 1000) / 1000,
+        name: Math.round(parseFloat(row.name_similarity) * 1000) / 1000,
+        phonetic: Math.round(parseFloat(row.phonetic_score) * 1000) / 1000,
+        phone_match: row.phone_match === true,
+      },
     }));
 
     return {
@@ -111,11 +168,12 @@ async function searchContacts(
       data: {
         total: formattedResults?.length || 0,
         query: params.query,
+        mode: "fuzzy",
         results: formattedResults,
       },
     };
   } catch (error) {
-    console.error("Search contacts error:", error instanceof Error ? error.message : "Unknown error");
+    console.error("Fuzzy search contacts error:", error instanceof Error ? error.message : "Unknown error");
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
@@ -140,11 +198,17 @@ Parameters:
 - limit (optional): Maximum results to return (default: 10, max: 50)
 - status (optional): Filter results by contact status
 - company_id (optional): Filter results by company ID
+- mode (optional): "fulltext" (default) for exact word matches, or "fuzzy" for typo-tolerant matching
+- min_score (optional): Minimum similarity in fuzzy mode (default: 0.3)
+
+Fuzzy mode finds "John Smith" from "Jon Smyth" by combining spelling similarity (trigrams) with how names sound (double metaphone). It also matches phone numbers regardless of formatting, e.g. "+33 6 12 34 56 78" finds "06.12.34.56.78". Each result carries a similarity breakdown with an overall score. Use it when a full-text search returns nothing or to check for duplicates before creating a contact.
 
 Examples:
 - Search by name: { "query": "John Smith" }
 - Search by email: { "query": "john@example.com" }
 - Search with filters: { "query": "CEO", "status": "active", "limit": 5 }
+- Typo-tolerant: { "query": "Jon Smyth", "mode": "fuzzy" }
+- By phone: { "query": "+1 (555) 010-4477", "mode": "fuzzy" }
 
 Results include:
 - Contact ID, name, title, email, phone
@@ -154,7 +218,9 @@ Results include:
     inputSchema: SearchContactsSchema,
   },
   handler: async (params: z.infer<typeof SearchContactsSchema>, context: McpContext) => {
-    const result = await searchContacts(params, context);
+    const result = params.mode === "fuzzy"
+      ? await fuzzySearchContacts(params, context)
+      : await searchContacts(params, context);
 
     return {
       content: [
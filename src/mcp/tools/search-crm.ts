@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { executeParameterizedQuery } from "../../db/query-builder.js";
+import { SEARCH_ENTITY_TYPES, buildCrmSearchQuery, mergeSearchResults } from "../../services/crm-search.js";
+import type { McpContext } from "../server.js";
+
+/**
+ * Input schema for searching across the CRM
+ */
+const SearchCrmSchema = z.object({
+  query: z.string().min(2).max(200).describe("Search query (supports quoted phrases, OR and -exclusions)"),
+  types: z.array(z.enum(SEARCH_ENTITY_TYPES)).min(1).optional().describe("Restrict the search to these entity types (default: all)"),
+  limit: z.number().int().min(1).max(50).default(20).describe("Maximum number of results to return"),
+});
+
+/**
+ * Search contacts, companies, deals and notes with one ranked full-text query
+ */
+async function searchCrm(
+  params: z.infer<typeof SearchCrmSchema>,
+  context: McpContext
+): Promise<{ success: boolean; data?: any; error?: string }> {
+  try {
+    const { sql, params: queryParams } = buildCrmSearchQuery(params.query, params.types, params.limit);
+    const result = await executeParameterizedQuery(sql, queryParams, context);
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || "Search failed",
+      };
+    }
+
+    const formattedResults = mergeSearchResults(result.data || []);
+
+    return {
+      success: true,
+      data: {
+        total: formattedResults.length,
+        query: params.query,
+        results: formattedResults,
+      },
+    };
+  } catch (error) {
+    console.error("Search CRM error:", error instanceof Error ? error.message : "Unknown error");
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export const search_crm = {
+  definition: {
+    description: `Search the whole Atomic CRM at once: contacts, companies, deals, contact notes and deal notes.
+
+Use this tool when the user asks about a topic and you don't know which table holds the answer (e.g. "anything about Acme's renewal"). Results from all entity types are ranked together by relevance.
+
+Parameters:
+- query (required): Search text (minimum 2 characters). Supports "quoted phrases", OR, and -excluded words.
+- types (optional): Restrict to some of: contact, company, deal, contact_note, deal_note
+- limit (optional): Maximum results to return (default: 20, max: 50)
+
+Each result includes:
+- type and id of the matching record (for notes, the parent contact or deal)
+- title (contact name, company name or deal name)
+- score: relevance between 0 and 1
+- snippet: matching text with hits highlighted as **word**
+- uri: the crm:// resource of the record (or of the note's parent)
+
+Examples:
+- { "query": "Acme renewal" }
+- { "query": "\\"security review\\" -lost", "types": ["deal", "deal_note"] }`,
+    inputSchema: SearchCrmSchema,
+  },
+  handler: async (params: z.infer<typeof SearchCrmSchema>, context: McpContext) => {
+    const result = await searchCrm(params, context);
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: result.success
+            ? JSON.stringify(result.data, null, 2)
+            : `Search failed: ${result.error}`,
+        },
+      ],
+      isError: !result.success,
+    };
+  },
+};
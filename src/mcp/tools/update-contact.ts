@@ -1,11 +1,13 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
  * Input schema for updating a contact
  */
-const UpdateContactSchema = z.object({
+export const UpdateContactSchema = z.object({
   id: z.string().uuid().describe("UUID of the contact to update"),
   first_name: z.string().min(1).max(100).optional().describe("Contact's first name"),
   last_name: z.string().min(1).max(100).optional().describe("Contact's last name"),
@@ -15,7 +17,7 @@ const UpdateContactSchema = z.object({
   company_id: z.number().int().positive().nullable().optional().describe("ID of the associated company (null to remove)"),
   linkedin_url: z.string().url().max(500).nullable().optional().describe("LinkedIn profile URL"),
   background: z.string().max(5000).nullable().optional().describe("Background notes about the contact"),
-  status: z.string().max(50).optional().describe("Contact status (lead, active, inactive)"),
+  status: optionEnum(config.fieldOptions.contactStatuses).optional().describe("Contact status"),
   gender: z.string().max(20).nullable().optional().describe("Contact's gender"),
   has_newsletter: z.boolean().optional().describe("Whether subscribed to newsletter"),
   tags: z.array(z.number().int().positive()).max(20).optional().describe("Array of tag IDs to associate"),
@@ -24,7 +26,7 @@ const UpdateContactSchema = z.object({
 /**
  * Updates an existing contact in the CRM
  */
-async function updateContact(
+export async function updateContact(
   params: z.infer<typeof UpdateContactSchema>,
   context: McpContext
 ): Promise<{ success: boolean; data?: any; error?: string }> {
@@ -190,7 +192,7 @@ Optional fields (only include those you want to change):
 - company_id: ID of an existing company to associate (null to remove)
 - linkedin_url: LinkedIn profile URL (null to remove)
 - background: Notes about the contact
-- status: Contact status (lead, active, inactive)
+- status: Contact status, one of: ${config.fieldOptions.contactStatuses.join(", ")}
 - gender: Contact's gender
 - has_newsletter: Newsletter subscription status
 - tags: Array of tag IDs to associate
@@ -1,22 +1,89 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { config } from "../../config.js";
+import { optionEnum } from "../../services/field-options.js";
 import type { McpContext } from "../server.js";
 
 /**
  * Input schema for updating a deal
  */
-const UpdateDealSchema = z.object({
+export const UpdateDealSchema = z.object({
   id: z.number().int().positive().describe("ID of the deal to update"),
   name: z.string().min(1).max(200).optional().describe("Deal name/title"),
   company_id: z.number().int().positive().nullable().optional().describe("ID of the associated company"),
   contact_ids: z.array(z.string().uuid()).max(10).optional().describe("Array of contact UUIDs to associate"),
-  stage: z.string().max(50).optional().describe("Deal stage (opportunity, proposal, negotiation, closed-won, closed-lost)"),
+  stage: optionEnum(config.fieldOptions.dealStages).optional().describe("Deal stage"),
+  category: optionEnum(config.fieldOptions.dealCategories).nullable().optional().describe("Deal category/type"),
   amount: z.number().int().positive().nullable().optional().describe("Deal amount in cents"),
   expected_close_date: z.string().nullable().optional().describe("Expected close date (YYYY-MM-DD)"),
   description: z.string().max(5000).nullable().optional().describe("Deal description"),
   probability: z.number().int().min(0).max(100).optional().describe("Win probability percentage (0-100)"),
 });
 
+/**
+ * Build the UPDATE statement for the scalar fields of a deal owned by the given sales rep
+ * contact_ids is not handled here
+ */
+export function buildDealUpdate(
+  params: z.infer<typeof UpdateDealSchema>,
+  salesId: number
+): { sql: string; params: unknown[]; fieldCount: number } {
+  const updates: string[] = [];
+  const values: any[] = [];
+  let paramIndex = 1;
+
+  if (params.name !== undefined) {
+    updates.push(`name = $${paramIndex++}`);
+    values.push(params.name);
+  }
+  if (params.company_id !== undefined) {
+    updates.push(`company_id = $${paramIndex++}`);
+    values.push(params.company_id);
+  }
+  if (params.stage !== undefined) {
+    updates.push(`stage = $${paramIndex++}`);
+    values.push(params.stage);
+  }
+  if (params.category !== undefined) {
+    updates.push(`category = $${paramIndex++}`);
+    values.push(params.category);
+  }
+  if (params.amount !== undefined) {
+    updates.push(`amount = $${paramIndex++}`);
+    values.push(params.amount);
+  }
+  if (params.expected_close_date !== undefined) {
+    updates.push(`expected_close_date = $${paramIndex++}`);
+    values.push(params.expected_close_date);
+  }
+  if (params.description !== undefined) {
+    updates.push(`description = $${paramIndex++}`);
+    values.push(params.description);
+  }
+  if (params.probability !== undefined) {
+    updates.push(`probability = $${paramIndex++}`);
+    values.push(params.probability);
+  }
+
+  const fieldCount = updates.length;
+
+  // Add updated_at
+  updates.push(`updated_at = NOW()`);
+
+  // Add the deal id and sales_id for WHERE clause
+  values.push(params.id);
+  values.push(salesId);
+
+  const sql = `
+    UPDATE deals 
+    SET ${updates.join(", ")}
+    WHERE id = $${paramIndex} AND sales_id = $${paramIndex + 1}
+    RETURNING id, name, stage, amount, probability, updated_at
+  `;
+
+  return { sql, params: values, fieldCount };
+}
+
 /**
  * Updates an existing deal in the CRM
  */
@@ -56,61 +123,16 @@ async function updateDeal(
     }
 
     // Build dynamic update query
-    const updates: string[] = [];
-    const values: any[] = [];
-    let paramIndex = 1;
-
-    if (params.name !== undefined) {
-      updates.push(`name = $${paramIndex++}`);
-      values.push(params.name);
-    }
-    if (params.company_id !== undefined) {
-      updates.push(`company_id = $${paramIndex++}`);
-      values.push(params.company_id);
-    }
-    if (params.stage !== undefined) {
-      updates.push(`stage = $${paramIndex++}`);
-      values.push(params.stage);
-    }
-    if (params.amount !== undefined) {
-      updates.push(`amount = $${paramIndex++}`);
-      values.push(params.amount);
-    }
-    if (params.expected_close_date !== undefined) {
-      updates.push(`expected_close_date = $${paramIndex++}`);
-      values.push(params.expected_close_date);
-    }
-    if (params.description !== undefined) {
-      updates.push(`description = $${paramIndex++}`);
-      values.push(params.description);
-    }
-    if (params.probability !== undefined) {
-      updates.push(`probability = $${paramIndex++}`);
-      values.push(params.probability);
-    }
+    const update = buildDealUpdate(params, salesId);
 
-    if (updates.length === 0 && params.contact_ids === undefined) {
+    if (update.fieldCount === 0 && params.contact_ids === undefined) {
       return {
         success: false,
         error: "No fields provided to update",
       };
     }
 
-    // Add updated_at
-    updates.push(`updated_at = NOW()`);
-
-    // Add the deal id and sales_id for WHERE clause
-    values.push(params.id);
-    values.push(salesId);
-
-    const updateSql = `
-      UPDATE deals 
-      SET ${updates.join(", ")}
-      WHERE id = $${paramIndex} AND sales_id = $${paramIndex + 1}
-      RETURNING id, name, stage, amount, probability, updated_at
-    `;
-
-    const result = await executeParameterizedQuery(updateSql, values, context);
+    const result = await executeParameterizedQuery(update.sql, update.params, context);
 
     if (!result.success) {
       return {
@@ -168,13 +190,14 @@ Optional fields (only include those you want to change):
 - name: Deal name/title
 - company_id: ID of the associated company
 - contact_ids: Array of contact UUIDs to associate
-- stage: Deal stage (opportunity, proposal, negotiation, closed-won, closed-lost)
+- stage: Deal stage, one of: ${config.fieldOptions.dealStages.join(", ")}
+- category: Deal category, one of: ${config.fieldOptions.dealCategories.join(", ")} (null to remove)
 - amount: Deal amount in cents
 - expected_close_date: Expected close date (YYYY-MM-DD format)
 - description: Deal description
 - probability: Win probability percentage (0-100)
 
-Note: You can only update deals that belong to you.
+Note: You can only update deals that belong to you. Stage changes are recorded in the deal's stage history (see get_deal_history). To move a deal on the board (stage and position in the column), use move_deal, which also keeps the column indexes in order.
 
 Example:
 - Update stage: { "id": 123, "stage": "proposal" }
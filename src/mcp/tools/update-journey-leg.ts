@@ -1,5 +1,9 @@
 import { z } from "zod";
 import { executeParameterizedQuery, isValidTable } from "../../db/query-builder.js";
+import { findLegConflicts } from "../../services/journey-conflicts.js";
+import { hasUtcOffset, isValidTimeZone, parseZonedDateTime } from "../../services/timezone.js";
+import type { JourneyConflict } from "../../services/journey-conflicts.js";
+import { config } from "../../config.js";
 import type { McpContext } from "../server.js";
 
 /**
@@ -27,8 +31,8 @@ const UpdateJourneyLegSchema = z.object({
   id: z.string().uuid().describe("UUID of the journey leg to update"),
   leg_order: z.number().int().min(1).optional().describe("Order of the leg in the journey"),
   leg_type: z.enum(LEG_TYPES).optional().describe("Type of journey leg"),
-  pickup_datetime: z.string().optional().describe("Pickup datetime (ISO 8601 format)"),
-  pickup_timezone: z.string().optional().describe("Timezone for pickup time"),
+  pickup_datetime: z.string().optional().describe("Pickup datetime (ISO 8601 format); without a UTC offset it is local time in the leg's pickup_timezone"),
+  pickup_timezone: z.string().max(64).optional().describe("IANA time zone of the pickup place (e.g. Europe/Paris)"),
   pickup_location_text: z.string().min(1).max(500).optional().describe("Pickup location description"),
   dropoff_location_text: z.string().max(500).optional().describe("Dropoff location description"),
   transport_mode: z.enum(TRANSPORT_MODES).optional().describe("Mode of transport"),
@@ -42,6 +46,7 @@ const UpdateJourneyLegSchema = z.object({
   meet_point_instructions: z.string().max(1000).optional().describe("Meet point instructions"),
   driver_notes: z.string().max(2000).optional().describe("Driver notes"),
   dispatch_notes: z.string().max(2000).optional().describe("Dispatch notes"),
+  strictness: z.enum(["warn", "error"]).optional().describe("warn: save the leg and report conflicts with the deal's other legs; error: reject the update when there are any"),
 });
 
 /**
@@ -60,7 +65,7 @@ function sanitizeString(str: string | undefined, maxLength: number): string | nu
 async function updateJourneyLeg(
   params: z.infer<typeof UpdateJourneyLegSchema>,
   context: McpContext
-): Promise<{ success: boolean; data?: any; error?: string }> {
+): Promise<{ success: boolean; data?: any; error?: string; conflicts?: JourneyConflict[] }> {
   try {
     // Validate table exists
     if (!isValidTable("deal_journey_legs") || !isValidTable("deals")) {
@@ -72,7 +77,7 @@ async function updateJourneyLeg(
 
     // Verify the journey leg exists and user has access to the deal
     const legCheck = await executeParameterizedQuery(
-      `SELECT jl.id, jl.deal_id, jl.transport_mode 
+      `SELECT jl.id, jl.deal_id, jl.transport_mode, jl.leg_order, jl.pickup_datetime, jl.pickup_timezone
        FROM deal_journey_legs jl
        JOIN deals d ON jl.deal_id = d.id
        WHERE jl.id = $1::uuid AND d.sales_id IN (SELECT id FROM sales WHERE user_id = $2)`,
@@ -110,6 +115,71 @@ async function updateJourneyLeg(
       }
     }
 
+    if (params.pickup_timezone !== undefined && !isValidTimeZone(params.pickup_timezone)) {
+      return {
+        success: false,
+        error: `Unknown pickup_timezone: ${params.pickup_timezone} (use an IANA time zone such as Europe/Paris)`,
+      };
+    }
+
+    // A datetime without an offset is wall-clock time at the pickup place
+    // Changing only the zone keeps the stored instant
+    const pickupTimezone = params.pickup_timezone ?? existingLeg.pickup_timezone;
+    let pickup: Date | null = null;
+    if (params.pickup_datetime !== undefined) {
+      if (!hasUtcOffset(params.pickup_datetime) && !isValidTimeZone(pickupTimezone)) {
+        return {
+          success: false,
+          error: `The leg's pickup_timezone (${pickupTimezone}) is not a valid IANA time zone; pass pickup_timezone or a pickup_datetime with a UTC offset`,
+        };
+      }
+      pickup = parseZonedDateTime(params.pickup_datetime, pickupTimezone);
+      if (!pickup) {
+        return {
+          success: false,
+          error: "Invalid pickup_datetime: must be an ISO 8601 datetime",
+        };
+      }
+    }
+
+    // Check a new pickup time or order against the deal's other legs
+    let conflicts: JourneyConflict[] = [];
+    if (pickup || params.leg_order !== undefined) {
+
+      const otherLegsResult = await executeParameterizedQuery(
+        `SELECT id, deal_id, leg_order, pickup_datetime FROM deal_journey_legs WHERE deal_id = $1 AND id <> $2::uuid`,
+        [existingLeg.deal_id, params.id],
+        context
+      );
+
+      if (!otherLegsResult.success) {
+        return {
+          success: false,
+          error: "Failed to check the deal's other journey legs",
+        };
+      }
+
+      const strictness = params.strictness ?? config.journeys.conflictStrictness;
+      conflicts = findLegConflicts(
+        {
+          id: params.id,
+          deal_id: existingLeg.deal_id,
+          leg_order: params.leg_order ?? existingLeg.leg_order,
+          pickup_datetime: pickup ?? existingLeg.pickup_datetime,
+        },
+        otherLegsResult.data || [],
+        { minGapMinutes: config.journeys.minLegGapMinutes, strictness }
+      );
+
+      if (strictness === "error" && conflicts.length > 0) {
+        return {
+          success: false,
+          error: `Journey leg conflicts with the deal's other legs: ${conflicts.map((conflict) => conflict.message).join("; ")}`,
+          conflicts,
+        };
+      }
+    }
+
     // Build dynamic update query
     const updates: string[] = [];
     const values: any[] = [];
@@ -123,9 +193,9 @@ async function updateJourneyLeg(
       updates.push(`leg_type = $${paramIndex++}`);
       values.push(params.leg_type);
     }
-    if (params.pickup_datetime !== undefined) {
+    if (pickup) {
       updates.push(`pickup_datetime = $${paramIndex++}`);
-      values.push(params.pickup_datetime);
+      values.push(pickup.toISOString());
     }
     if (params.pickup_timezone !== undefined) {
       updates.push(`pickup_timezone = $${paramIndex++}`);
@@ -219,6 +289,7 @@ async function updateJourneyLeg(
     return {
       success: true,
       data: result.data?.[0],
+      ...(conflicts.length > 0 ? { conflicts } : {}),
     };
   } catch (error) {
     return {
@@ -230,7 +301,7 @@ async function updateJourneyLeg(
 
 export const update_deal_journey_leg = {
   definition: {
-    description: "Updates an existing journey leg",
+    description: `Updates an existing journey leg. pickup_timezone must be an IANA time zone; a pickup_datetime without a UTC offset is read as local time in the leg's zone (changing only pickup_timezone keeps the same instant). When pickup_datetime or leg_order changes, pickups out of leg_order, less than ${config.journeys.minLegGapMinutes} minutes from the previous or next leg, or sharing a leg_order are reported in conflicts: as warnings (the leg is saved) or, with strictness "error", as errors (the update is rejected). Default strictness: ${config.journeys.conflictStrictness}.`,
     inputSchema: UpdateJourneyLegSchema,
   },
   handler: updateJourneyLeg,
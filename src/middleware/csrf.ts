@@ -65,8 +65,8 @@ export function validateCsrfToken(req: Request, res: Response, next: NextFunctio
     return next();
   }
 
-  // Skip CSRF for MCP endpoints (they use Bearer token auth)
-  if (req.path.startsWith("/mcp") || req.path.startsWith("/.well-known")) {
+  // Skip CSRF for MCP, import and export endpoints (they use Bearer token auth)
+  if (req.path.startsWith("/mcp") || req.path.startsWith("/import") || req.path.startsWith("/export") || req.path.startsWith("/.well-known")) {
     return next();
   }
 
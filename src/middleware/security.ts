@@ -1,4 +1,4 @@
-import type { Request, Response, NextFunction } from "express";
+import express, { type Request, type Response, type NextFunction } from "express";
 
 /**
  * Security Middleware
@@ -39,11 +39,26 @@ export function securityHeaders(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+/**
+ * Paths that parse their own request bodies: file uploads in other content types,
+ * with a size limit larger than the default
+ */
+const SELF_PARSING_PATHS = ["/import"];
+
+function parsesOwnBody(req: Request): boolean {
+  return SELF_PARSING_PATHS.some((path) => req.path === path || req.path.startsWith(`${path}/`));
+}
+
 /**
  * Input validation middleware
  * Validates request body size and structure
  */
 export function validateInput(req: Request, res: Response, next: NextFunction): void {
+  // Upload routes check their own content types and sizes
+  if (parsesOwnBody(req)) {
+    return next();
+  }
+
   // Check content type for POST/PUT/PATCH requests
   if (["POST", "PUT", "PATCH"].includes(req.method)) {
     const contentType = req.headers["content-type"];
@@ -72,6 +87,19 @@ export function validateInput(req: Request, res: Response, next: NextFunction):
   next();
 }
 
+/**
+ * JSON body parser for every route except those parsing their own bodies,
+ * so an upload is not rejected by the default 100 kB limit first
+ */
+const defaultJsonParser = express.json();
+
+export function jsonBodyParser(req: Request, res: Response, next: NextFunction): void {
+  if (parsesOwnBody(req)) {
+    return next();
+  }
+  defaultJsonParser(req, res, next);
+}
+
 /**
  * Sanitize error messages before sending to client
  * Removes sensitive information from error responses
@@ -196,6 +196,193 @@ All endpoints require Bearer token authentication using JWT tokens from Supabase
         },
       },
     },
+    "/import/csv": {
+      post: {
+        summary: "Import CSV",
+        description: "Imports contacts or companies from a CSV file. Same behavior as the import_csv MCP tool: columns are mapped automatically, contacts are linked to existing companies, duplicates and invalid rows are skipped and reported.",
+        tags: ["Import"],
+        parameters: [
+          {
+            name: "entity",
+            in: "query",
+            description: "Required for text/csv bodies",
+            schema: { type: "string", enum: ["contacts", "companies"] },
+          },
+          {
+            name: "dry_run",
+            in: "query",
+            description: "Validate and preview without writing",
+            schema: { type: "boolean", default: false },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "text/csv": {
+              schema: { type: "string" },
+            },
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["csv", "entity"],
+                properties: {
+                  csv: { type: "string" },
+                  entity: { type: "string", enum: ["contacts", "companies"] },
+                  mapping: { type: "object", additionalProperties: { type: "string" } },
+                  dry_run: { type: "boolean", default: false },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Dry-run preview with mapping, validation errors and duplicates",
+          },
+          "201": {
+            description: "Import report with created ids and skipped rows",
+          },
+          "400": {
+            description: "Invalid CSV, mapping or request",
+          },
+          "401": {
+            description: "Authentication required",
+          },
+          "429": {
+            description: "Rate limit exceeded",
+          },
+        },
+      },
+    },
+    "/import/vcard": {
+      post: {
+        summary: "Import vCard",
+        description: "Imports contacts from a .vcf file. Same behavior as the import_vcard MCP tool: cards matching an existing contact by email fill its empty fields, other cards create contacts.",
+        tags: ["Import"],
+        parameters: [
+          {
+            name: "dry_run",
+            in: "query",
+            description: "Return the planned create_contact/update_contact calls without running them",
+            schema: { type: "boolean", default: false },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "text/vcard": {
+              schema: { type: "string" },
+            },
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["vcf"],
+                properties: {
+                  vcf: { type: "string" },
+                  dry_run: { type: "boolean", default: false },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Dry-run plan with one entry per card",
+          },
+          "201": {
+            description: "Import report with created and updated contacts",
+          },
+          "400": {
+            description: "No vCard found or invalid request",
+          },
+          "401": {
+            description: "Authentication required",
+          },
+          "429": {
+            description: "Rate limit exceeded",
+          },
+        },
+      },
+    },
+    "/export": {
+      post: {
+        summary: "Export records",
+        description: "Streams contacts, companies, deals or the result of a read-only query as a file. Same parameters as the export_records MCP tool, without its row cap.",
+        tags: ["Export"],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["source"],
+                properties: {
+                  source: { type: "string", enum: ["contacts", "companies", "deals", "query"] },
+                  format: { type: "string", enum: ["csv", "ndjson", "vcard"], default: "csv" },
+                  filter: { type: "object", description: "Filter tree, same syntax as list_records" },
+                  sql: { type: "string", description: "SELECT query when source is query" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Exported file, streamed",
+            content: {
+              "text/csv": { schema: { type: "string" } },
+              "application/x-ndjson": { schema: { type: "string" } },
+              "text/vcard": { schema: { type: "string" } },
+            },
+          },
+          "400": {
+            description: "Invalid export request or query rejected",
+          },
+          "401": {
+            description: "Authentication required",
+          },
+          "429": {
+            description: "Rate limit exceeded",
+          },
+        },
+      },
+    },
+    "/calendar/{token}.ics": {
+      get: {
+        summary: "Tasks calendar feed",
+        description: "iCalendar feed of the pending tasks of the user who issued the token (see the get_tasks_calendar MCP tool). Meant for calendar app subscriptions; no Bearer token needed.",
+        tags: ["Calendar"],
+        parameters: [
+          {
+            name: "token",
+            in: "path",
+            required: true,
+            description: "Feed token from get_tasks_calendar",
+            schema: { type: "string" },
+          },
+          {
+            name: "component",
+            in: "query",
+            description: "todo for VTODO entries, event for all-day VEVENT entries on the due date",
+            schema: { type: "string", enum: ["todo", "event"], default: "todo" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "iCalendar file",
+            content: {
+              "text/calendar": { schema: { type: "string" } },
+            },
+          },
+          "404": {
+            description: "Unknown or expired token",
+          },
+          "429": {
+            description: "Rate limit exceeded",
+          },
+        },
+      },
+    },
     "/.well-known/oauth-protected-resource": {
       get: {
         summary: "OAuth protected resource metadata",
@@ -319,6 +506,18 @@ All endpoints require Bearer token authentication using JWT tokens from Supabase
       name: "OAuth",
       description: "OAuth 2.0 metadata endpoints",
     },
+    {
+      name: "Import",
+      description: "Bulk data import endpoints",
+    },
+    {
+      name: "Export",
+      description: "Bulk data export endpoints",
+    },
+    {
+      name: "Calendar",
+      description: "Calendar subscription feeds",
+    },
   ],
 };
 
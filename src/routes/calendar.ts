@@ -0,0 +1,49 @@
+import { Router, type Request, type Response } from "express";
+import { getTasksCalendar } from "../mcp/tools/get-tasks-calendar.js";
+import { verifyCalendarFeedToken } from "../services/calendar-feed.js";
+import { logger } from "../services/logger.js";
+
+/**
+ * Calendar Routes
+ *
+ * Read-only iCalendar feeds that calendar apps can subscribe to:
+ * - GET /calendar/:token.ics - Pending tasks of the token's user (?component=event for VEVENT entries)
+ *
+ * Tokens are issued by the get_tasks_calendar MCP tool. No Bearer token is needed;
+ * the feed token is verified and then used for Row Level Security like a user token.
+ */
+
+export const calendarRouter = Router();
+
+calendarRouter.get("/:token.ics", async (req: Request, res: Response) => {
+  const feed = await verifyCalendarFeedToken(req.params.token);
+  if (!feed) {
+    // Same response for unknown, expired and malformed tokens
+    res.status(404).json({ error: "Calendar not found" });
+    return;
+  }
+
+  try {
+    const result = await getTasksCalendar({
+      component: req.query.component === "event" ? "event" : "todo",
+    }, {
+      authInfo: { userId: feed.userId, role: "authenticated" },
+      userToken: req.params.token,
+    });
+
+    if (!result.success || !result.data) {
+      logger.error("Calendar feed failed", new Error(result.error || "Calendar feed failed"));
+      res.status(500).json({ error: "Internal server error" });
+      return;
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="tasks.ics"');
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(result.data.calendar);
+  } catch (error) {
+    logger.error("Error handling calendar feed", error instanceof Error ? error : new Error(String(error)));
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
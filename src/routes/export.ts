@@ -0,0 +1,109 @@
+import { Router, type Request, type Response } from "express";
+import { authMiddleware } from "../auth/middleware.js";
+import { writeRateLimiter } from "../middleware/rate-limiter.js";
+import { exportRecords, ExportRecordsSchema, EXPORT_FORMATS } from "../mcp/tools/export-records.js";
+import { logger } from "../services/logger.js";
+
+/**
+ * Export Routes
+ *
+ * HTTP counterpart of the export_records MCP tool, for downloading complete files:
+ * - POST /export - Stream contacts, companies, deals or query results as CSV, NDJSON or vCard
+ *
+ * The body has the same fields as the export_records tool. The file is streamed in
+ * chunks as rows are read, with no row cap, and stops when the client disconnects.
+ * Requires a Bearer token and counts against the write rate limit; Row Level
+ * Security applies as for MCP calls.
+ */
+
+/**
+ * Wait until the response can take more data
+ * Fails when the client goes away first, so the export stops reading rows and its
+ * transaction is rolled back instead of waiting for a drain that never comes
+ */
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", onError);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error("Client disconnected"));
+    const onError = (error: Error) => settle(error);
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+    res.on("error", onError);
+  });
+}
+
+export const exportRouter = Router();
+
+exportRouter.post("/", authMiddleware, writeRateLimiter, async (req: Request, res: Response) => {
+  if (!req.auth) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+
+  const parsed = ExportRecordsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      error: "Invalid export request",
+      details: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+    });
+    return;
+  }
+
+  const format = EXPORT_FORMATS[parsed.data.format];
+
+  // Headers are only sent with the first chunk, so validation errors can still be reported as JSON
+  const write = async (chunk: string) => {
+    if (res.destroyed) {
+      throw new Error("Client disconnected");
+    }
+    if (!res.headersSent) {
+      res.status(200);
+      res.setHeader("Content-Type", format.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${parsed.data.source}-export.${format.extension}"`);
+      res.setHeader("Cache-Control", "no-store");
+    }
+    if (!res.write(chunk)) {
+      await waitForDrain(res);
+    }
+  };
+
+  try {
+    const result = await exportRecords(parsed.data, {
+      authInfo: req.auth,
+      userToken: req.headers.authorization?.substring(7) || "",
+    }, write, { channel: "http" });
+
+    if (!result.success) {
+      if (res.destroyed) {
+        // The client went away; the cursor was closed and the transaction rolled back
+        logger.warn("Export stopped: client disconnected", { source: parsed.data.source });
+      } else if (!res.headersSent) {
+        res.status(400).json({ error: result.error, ...(result.details ? { details: result.details } : {}) });
+      } else {
+        // The file is incomplete; abort so the client does not keep a truncated download
+        logger.error("Export failed mid-stream", new Error(result.error || "Export failed"));
+        res.destroy();
+      }
+      return;
+    }
+
+    if (!res.headersSent) {
+      await write("");
+    }
+    res.end();
+  } catch (error) {
+    logger.error("Error handling export", error instanceof Error ? error : new Error(String(error)));
+    if (!res.headersSent) {
+      res.status(500).json({ error: "Internal server error" });
+    } else {
+      res.destroy();
+    }
+  }
+});
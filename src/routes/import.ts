@@ -0,0 +1,120 @@
+import express, { Router, type Request, type Response } from "express";
+import { authMiddleware } from "../auth/middleware.js";
+import { writeRateLimiter } from "../middleware/rate-limiter.js";
+import { importCsv, ImportCsvSchema } from "../mcp/tools/import-csv.js";
+import { importVCard, ImportVCardSchema } from "../mcp/tools/import-vcard.js";
+import { logger } from "../services/logger.js";
+
+/**
+ * Import Routes
+ *
+ * HTTP counterpart of the import_csv and import_vcard MCP tools, for uploading files directly:
+ * - POST /import/csv - Import contacts or companies from CSV
+ * - POST /import/vcard - Import contacts from a .vcf file
+ *
+ * Send the file as a text body (text/csv with ?entity=contacts|companies, or
+ * text/vcard) with ?dry_run=true, or as JSON with the same fields as the tool.
+ * Requires a Bearer token; Row Level Security applies as for MCP calls.
+ */
+
+/**
+ * Largest upload accepted, as a file or as JSON
+ */
+const IMPORT_BODY_LIMIT = "5mb";
+
+export const importRouter = Router();
+
+importRouter.post(
+  "/csv",
+  authMiddleware,
+  writeRateLimiter,
+  express.text({ type: ["text/csv", "text/plain"], limit: IMPORT_BODY_LIMIT }),
+  express.json({ limit: IMPORT_BODY_LIMIT }),
+  async (req: Request, res: Response) => {
+    if (!req.auth) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const input = typeof req.body === "string"
+      ? {
+          csv: req.body,
+          entity: req.query.entity,
+          dry_run: req.query.dry_run === "true" || req.query.dry_run === "1",
+        }
+      : req.body;
+
+    const parsed = ImportCsvSchema.safeParse(input);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid import request",
+        details: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      });
+      return;
+    }
+
+    try {
+      const result = await importCsv(parsed.data, {
+        authInfo: req.auth,
+        userToken: req.headers.authorization?.substring(7) || "",
+      });
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error, ...(result.data ? { details: result.data } : {}) });
+        return;
+      }
+
+      res.status(parsed.data.dry_run ? 200 : 201).json(result.data);
+    } catch (error) {
+      logger.error("Error handling CSV import", error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+importRouter.post(
+  "/vcard",
+  authMiddleware,
+  writeRateLimiter,
+  express.text({ type: ["text/vcard", "text/x-vcard", "text/directory", "text/plain"], limit: IMPORT_BODY_LIMIT }),
+  express.json({ limit: IMPORT_BODY_LIMIT }),
+  async (req: Request, res: Response) => {
+    if (!req.auth) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const input = typeof req.body === "string"
+      ? {
+          vcf: req.body,
+          dry_run: req.query.dry_run === "true" || req.query.dry_run === "1",
+        }
+      : req.body;
+
+    const parsed = ImportVCardSchema.safeParse(input);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid import request",
+        details: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+      });
+      return;
+    }
+
+    try {
+      const result = await importVCard(parsed.data, {
+        authInfo: req.auth,
+        userToken: req.headers.authorization?.substring(7) || "",
+      });
+
+      if (!result.success) {
+        res.status(400).json({ error: result.error });
+        return;
+      }
+
+      res.status(parsed.data.dry_run ? 200 : 201).json(result.data);
+    } catch (error) {
+      logger.error("Error handling vCard import", error instanceof Error ? error : new Error(String(error)));
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
@@ -27,6 +27,7 @@ export type AuditEventType =
   | "DATA_EXPORT"
   | "DATA_IMPORT"
   | "DATA_MERGE"
+  | "DATA_RESTORE"
   | "PERMISSION_GRANTED"
   | "PERMISSION_REVOKED"
   | "PERMISSION_DENIED"
@@ -182,7 +183,7 @@ export function logAuthEvent(
  * Log data access event
  */
 export function logDataEvent(
-  action: "create" | "read" | "update" | "delete" | "export" | "import" | "merge",
+  action: "create" | "read" | "update" | "delete" | "export" | "import" | "merge" | "restore",
   resource: string,
   resourceId: string | undefined,
   userId: string,
@@ -202,6 +203,7 @@ export function logDataEvent(
     export: "DATA_EXPORT",
     import: "DATA_IMPORT",
     merge: "DATA_MERGE",
+    restore: "DATA_RESTORE",
   };
 
   logAuditEvent({
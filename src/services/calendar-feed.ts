@@ -0,0 +1,80 @@
+import { SignJWT, jwtVerify } from "jose";
+import { logger } from "./logger.js";
+import { config } from "../config.js";
+
+/**
+ * Calendar Feed Tokens
+ *
+ * Calendar apps subscribe to a URL and cannot send a Bearer token, so the feed URL
+ * carries its own long-lived token. It is an HS256 JWT signed with the feed secret,
+ * with the claims Row Level Security needs (sub, role), so it can be used as the
+ * database user token once verified. The audience restricts it to calendar feeds.
+ */
+
+const FEED_ISSUER = "atomic-crm";
+const FEED_AUDIENCE = "calendar-feed";
+
+function getFeedKey(): Uint8Array | null {
+  return config.calendar.feedSecret ? new TextEncoder().encode(config.calendar.feedSecret) : null;
+}
+
+/**
+ * Whether a feed secret is configured
+ */
+export function isCalendarFeedEnabled(): boolean {
+  return Boolean(config.calendar.feedSecret);
+}
+
+/**
+ * Issue a feed token for a user
+ * @throws Error when no feed secret is configured
+ */
+export async function createCalendarFeedToken(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const key = getFeedKey();
+  if (!key) {
+    throw new Error("Calendar feeds are not configured (set CALENDAR_FEED_SECRET or SESSION_SECRET)");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = now + config.calendar.feedTtlDays * 24 * 60 * 60;
+
+  const token = await new SignJWT({ role: "authenticated" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt(now)
+    .setIssuer(FEED_ISSUER)
+    .setAudience(FEED_AUDIENCE)
+    .setExpirationTime(expiresAt)
+    .setSubject(userId)
+    .sign(key);
+
+  logger.info("Calendar feed token issued", { userId, expiresAt });
+  return { token, expiresAt: new Date(expiresAt * 1000) };
+}
+
+/**
+ * Verify a feed token and return its user, or null when invalid or expired
+ */
+export async function verifyCalendarFeedToken(token: string): Promise<{ userId: string } | null> {
+  const key = getFeedKey();
+  if (!key) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, key, {
+      issuer: FEED_ISSUER,
+      audience: FEED_AUDIENCE,
+      algorithms: ["HS256"],
+    });
+
+    if (!payload.sub) {
+      logger.warn("Invalid calendar feed token - missing subject");
+      return null;
+    }
+
+    return { userId: payload.sub };
+  } catch (error) {
+    if (error instanceof Error && error.name !== "JWTExpired") {
+      logger.warn("Calendar feed token verification failed", { error: error.message });
+    }
+    return null;
+  }
+}
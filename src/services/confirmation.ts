@@ -0,0 +1,161 @@
+import { createHash } from "node:crypto";
+import { SignJWT, jwtVerify } from "jose";
+
+/**
+ * Confirmation Tokens
+ *
+ * Destructive tools (deletes, merges, bulk updates) run in two phases: a first call
+ * returns an impact summary and a confirmation token, and the action only runs when
+ * the same call is repeated with that token. The token is a short-lived HS256 JWT
+ * bound to the user, the tool and a hash of its parameters, so it cannot confirm a
+ * different record or a changed request.
+ */
+
+/**
+ * Confirmation configuration
+ */
+export interface ConfirmationConfig {
+  secretKey: string;
+  issuer: string;
+  audience: string;
+  expiresIn: number; // seconds
+}
+
+/**
+ * Default confirmation configuration
+ */
+export const DEFAULT_CONFIRMATION_CONFIG: Partial<ConfirmationConfig> = {
+  issuer: "atomic-crm",
+  audience: "confirm-action",
+  expiresIn: 300, // 5 minutes
+};
+
+/**
+ * Parameters that are not part of what gets confirmed
+ */
+const UNBOUND_PARAMS = new Set(["confirmation_token", "dry_run"]);
+
+/**
+ * Serialize a value with sorted object keys, so equal parameters give equal text
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash tool parameters, ignoring the confirmation token and dry_run flag
+ */
+export function hashConfirmationParams(params: Record<string, unknown>): string {
+  const bound = Object.fromEntries(Object.entries(params).filter(([key]) => !UNBOUND_PARAMS.has(key)));
+  return createHash("sha256").update(canonicalJson(bound)).digest("base64url");
+}
+
+/**
+ * Issues and verifies confirmation tokens
+ */
+export class ConfirmationTokenManager {
+  private secretKey: Uint8Array;
+  private config: ConfirmationConfig;
+
+  constructor(config: Partial<ConfirmationConfig> & { secretKey: string }) {
+    this.config = { ...DEFAULT_CONFIRMATION_CONFIG, ...config } as ConfirmationConfig;
+    this.secretKey = new TextEncoder().encode(this.config.secretKey);
+  }
+
+  /**
+   * Issue a token confirming the given tool call
+   */
+  async issue(
+    action: string,
+    userId: string,
+    params: Record<string, unknown>
+  ): Promise<{ confirmation_token: string; expires_at: string }> {
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + this.config.expiresIn;
+
+    const token = await new SignJWT({ act: action, params: hashConfirmationParams(params) })
+      .setProtectedHeader({ alg: "HS256" })
+      .setIssuedAt(now)
+      .setIssuer(this.config.issuer)
+      .setAudience(this.config.audience)
+      .setExpirationTime(expiresAt)
+      .setSubject(userId)
+      .sign(this.secretKey);
+
+    return {
+      confirmation_token: token,
+      expires_at: new Date(expiresAt * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Check a token against the tool call it is passed with
+   * @returns null when the token confirms this call, otherwise why it does not
+   */
+  async verify(
+    token: string,
+    action: string,
+    userId: string,
+    params: Record<string, unknown>
+  ): Promise<string | null> {
+    try {
+      const { payload } = await jwtVerify(token, this.secretKey, {
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+        subject: userId,
+        algorithms: ["HS256"],
+      });
+
+      if (payload.act !== action) {
+        return `This confirmation token was issued for ${payload.act}, not ${action}`;
+      }
+      if (payload.params !== hashConfirmationParams(params)) {
+        return "The parameters differ from the previewed call; preview again to get a new confirmation token";
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof Error && error.name === "JWTExpired") {
+        return "The confirmation token has expired; preview again to get a new one";
+      }
+      return "Invalid confirmation token; preview again to get a new one";
+    }
+  }
+}
+
+/**
+ * Singleton confirmation manager instance
+ */
+let confirmationManager: ConfirmationTokenManager | null = null;
+
+/**
+ * Initialize the confirmation manager
+ */
+export function initializeConfirmationManager(
+  secretKey: string,
+  config?: Partial<ConfirmationConfig>
+): ConfirmationTokenManager {
+  if (!confirmationManager) {
+    confirmationManager = new ConfirmationTokenManager({ secretKey, ...config });
+  }
+  return confirmationManager;
+}
+
+/**
+ * Get the confirmation manager instance
+ * @throws Error when initializeConfirmationManager has not been called
+ */
+export function getConfirmationManager(): ConfirmationTokenManager {
+  if (!confirmationManager) {
+    throw new Error("Confirmation tokens are not initialized");
+  }
+  return confirmationManager;
+}
@@ -0,0 +1,127 @@
+/**
+ * Contact Fuzzy Search
+ *
+ * Builds the typo-tolerant contact search: trigram similarity on the full name,
+ * double metaphone on each name token, and phone numbers compared on their last
+ * digits whatever their formatting. No database access, so these can be safely
+ * imported in tests.
+ */
+
+/**
+ * Maximum number of name tokens compared phonetically
+ */
+export const MAX_FUZZY_TOKENS = 4;
+
+/**
+ * Minimum number of digits before a query is also matched against phone numbers
+ */
+export const MIN_PHONE_DIGITS = 6;
+
+/**
+ * Number of trailing digits compared, so national and international forms match
+ * ("+33 6 12 34 56 78" and "06.12.34.56.78" both end in 612345678)
+ */
+export const PHONE_MATCH_DIGITS = 9;
+
+export interface FuzzyContactSearchParams {
+  query: string;
+  limit: number;
+  min_score: number;
+  status?: string;
+  company_id?: number;
+}
+
+/**
+ * Words of the query compared phonetically (those with at least one letter)
+ */
+export function fuzzyNameTokens(query: string): string[] {
+  return query
+    .trim()
+    .split(/\s+/)
+    .filter((token) => /[a-zA-Z]/.test(token))
+    .slice(0, MAX_FUZZY_TOKENS);
+}
+
+/**
+ * Digits a phone number is compared on: its last PHONE_MATCH_DIGITS digits
+ * @returns The digits, or null when there are too few to be a phone number
+ */
+export function phoneMatchKey(value: string): string | null {
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_MATCH_DIGITS) : null;
+}
+
+/**
+ * Build the fuzzy search query, best match first
+ * A phone match is exact, phonetic matches weigh slightly less than spelling
+ */
+export function buildFuzzyContactSearchQuery(params: FuzzyContactSearchParams): { sql: string; params: unknown[] } {
+  // Same contacts/companies/sales join as the full-text search, scored in a subquery
+  let sql = `
+      SELECT * FROM (
+        SELECT
+          c.id,
+          c.first_name,
+          c.last_name,
+          c.title,
+          c.email_jsonb,
+          c.phone_jsonb,
+          c.status,
+          c.company_id,
+          c.first_seen,
+          c.last_seen,
+          c.linkedin_url,
+          co.name as company_name,
+          s.first_name as sales_first_name,
+          s.last_name as sales_last_name,
+          similarity(lower(concat_ws(' ', c.first_name, c.last_name)), lower($1)) AS name_similarity,
+          CASE WHEN cardinality($2::text[]) = 0 THEN 0 ELSE (
+            SELECT COUNT(*) FROM unnest($2::text[]) AS token
+            WHERE dmetaphone(token) <> ''
+              AND dmetaphone(token) IN (dmetaphone(coalesce(c.first_name, '')), dmetaphone(coalesce(c.last_name, '')))
+          )::float / cardinality($2::text[]) END AS phonetic_score,
+          ($3::text IS NOT NULL AND EXISTS (
+            SELECT 1 FROM jsonb_array_elements(coalesce(c.phone_jsonb, '[]'::jsonb)) AS phone
+            WHERE length(regexp_replace(phone->>'number', '\\D', '', 'g')) >= ${MIN_PHONE_DIGITS}
+              AND right(regexp_replace(phone->>'number', '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $3
+          )) AS phone_match
+        FROM contacts c
+        LEFT JOIN companies co ON c.company_id = co.id
+        LEFT JOIN sales s ON c.sales_id = s.id
+        WHERE 1 = 1
+    `;
+
+  const queryParams: unknown[] = [params.query, fuzzyNameTokens(params.query), phoneMatchKey(params.query)];
+  let paramIndex = 4;
+
+  // Add optional status filter
+  if (params.status) {
+    sql += ` AND c.status = $${paramIndex}`;
+    queryParams.push(params.status);
+    paramIndex++;
+  }
+
+  // Add optional company_id filter
+  if (params.company_id) {
+    sql += ` AND c.company_id = $${paramIndex}`;
+    queryParams.push(params.company_id);
+    paramIndex++;
+  }
+
+  sql += `
+      ) scored
+      CROSS JOIN LATERAL (
+        SELECT GREATEST(
+          scored.name_similarity,
+          scored.phonetic_score * 0.9,
+          CASE WHEN scored.phone_match THEN 1 ELSE 0 END
+        ) AS score
+      ) total
+      WHERE total.score >= $${paramIndex}
+      ORDER BY total.score DESC, scored.name_similarity DESC
+      LIMIT $${paramIndex + 1}
+    `;
+  queryParams.push(params.min_score, params.limit);
+
+  return { sql, params: queryParams };
+}
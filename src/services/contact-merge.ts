@@ -0,0 +1,93 @@
+/**
+ * Contact Merge
+ *
+ * Moves everything that points at duplicate contacts onto the surviving contact:
+ * notes, tasks, deal links in deal_contacts and the deals' contact_ids. Links the
+ * survivor already has (or that two duplicates share) are dropped rather than
+ * doubled. The caller runs these inside its merge transaction.
+ */
+
+/**
+ * The part of a database client the merge needs (a pg PoolClient fits)
+ */
+export interface MergeQueryClient {
+  query(sql: string, params?: unknown[]): Promise<{ rows: any[]; rowCount?: number | null }>;
+}
+
+export interface MovedContactLinks {
+  notes: number;
+  tasks: number;
+  deals: (string | number)[];
+  deal_contacts: {
+    moved: (string | number)[];
+    removed: (string | number)[];
+  };
+}
+
+/**
+ * Repoint notes, tasks and deal references from the duplicates to the survivor
+ * @returns What was moved; deal_contacts lists the deal ids of moved and removed links
+ */
+export async function moveContactLinks(
+  client: MergeQueryClient,
+  survivorId: string,
+  duplicateIds: string[]
+): Promise<MovedContactLinks> {
+  const notesResult = await client.query(
+    `UPDATE contactNotes SET contact_id = $1 WHERE contact_id = ANY($2::uuid[]) RETURNING id`,
+    [survivorId, duplicateIds]
+  );
+
+  const tasksResult = await client.query(
+    `UPDATE tasks SET contact_id = $1 WHERE contact_id = ANY($2::uuid[]) RETURNING id`,
+    [survivorId, duplicateIds]
+  );
+
+  // Drop the duplicates' links to deals the survivor is already linked to, or that
+  // an earlier duplicate also links, so moving the rest cannot create the same link twice
+  const removedLinksResult = await client.query(
+    `DELETE FROM deal_contacts dc
+     WHERE dc.contact_id = ANY($2::uuid[])
+       AND EXISTS (
+         SELECT 1 FROM deal_contacts other
+         WHERE other.deal_id = dc.deal_id
+           AND (other.contact_id = $1
+             OR (other.contact_id = ANY($2::uuid[]) AND other.contact_id < dc.contact_id))
+       )
+     RETURNING dc.deal_id`,
+    [survivorId, duplicateIds]
+  );
+
+  const movedLinksResult = await client.query(
+    `UPDATE deal_contacts SET contact_id = $1 WHERE contact_id = ANY($2::uuid[]) RETURNING deal_id`,
+    [survivorId, duplicateIds]
+  );
+
+  // Point deals at the survivor, without listing it twice; the order is kept, since
+  // the first contact is the deal's primary contact
+  const dealsResult = await client.query(
+    `UPDATE deals
+     SET contact_ids = (
+       SELECT array_agg(id ORDER BY first_ord)
+       FROM (
+         SELECT CASE WHEN cid = ANY($2::uuid[]) THEN $1::uuid ELSE cid END AS id, min(ord) AS first_ord
+         FROM unnest(contact_ids) WITH ORDINALITY AS t(cid, ord)
+         GROUP BY 1
+       ) s
+     ),
+     updated_at = NOW()
+     WHERE contact_ids && $2::uuid[]
+     RETURNING id`,
+    [survivorId, duplicateIds]
+  );
+
+  return {
+    notes: notesResult.rowCount ?? 0,
+    tasks: tasksResult.rowCount ?? 0,
+    deals: dealsResult.rows.map((row) => row.id),
+    deal_contacts: {
+      moved: movedLinksResult.rows.map((row) => row.deal_id),
+      removed: removedLinksResult.rows.map((row) => row.deal_id),
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * CRM Search
+ *
+ * The unified search ranks contacts, companies, deals and notes together with one
+ * full-text query. buildCrmSearchQuery writes that query; mergeSearchResults turns
+ * its rows into one list ordered by relevance, each hit pointing at the record it
+ * belongs to. No database access, so these can be safely imported in tests.
+ */
+
+/**
+ * Entity types covered by the unified search
+ */
+export const SEARCH_ENTITY_TYPES = ["contact", "company", "deal", "contact_note", "deal_note"] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+/**
+ * A row of the search query
+ */
+export interface SearchRow {
+  entity_type: string;
+  id: string;
+  title: string | null;
+  parent_id: string | null;
+  score: string | number;
+  snippet: string | null;
+}
+
+export interface SearchResult {
+  type: string;
+  id: string;
+  title: string | null;
+  score: number;
+  snippet: string | null;
+  parent: { type: "contact" | "deal"; id: string | null } | null;
+  uri: string | null;
+}
+
+// Each branch exposes the same shape: a searchable document plus identity columns.
+// Ranking happens on all matches; ts_headline only runs on the returned page.
+const SEARCH_SQL = `
+      WITH search AS (
+        SELECT websearch_to_tsquery('english', $1) AS query
+      ),
+      documents AS (
+        SELECT
+          'contact' AS entity_type,
+          c.id::text AS id,
+          concat_ws(' ', c.first_name, c.last_name) AS title,
+          NULL::text AS parent_id,
+          concat_ws(' ', c.first_name, c.last_name, c.title, c.email_jsonb::text, c.background) AS document
+        FROM contacts c
+        UNION ALL
+        SELECT
+          'company',
+          co.id::text,
+          co.name,
+          NULL::text,
+          concat_ws(' ', co.name, co.industry, co.website, co.city, co.country, co.description)
+        FROM companies co
+        UNION ALL
+        SELECT
+          'deal',
+          d.id::text,
+          d.name,
+          NULL::text,
+          concat_ws(' ', d.name, d.company_name, d.category, d.stage, d.description)
+        FROM deals d
+        UNION ALL
+        SELECT
+          'contact_note',
+          cn.id::text,
+          concat_ws(' ', c.first_name, c.last_name),
+          cn.contact_id::text,
+          cn.text
+        FROM contactNotes cn
+        LEFT JOIN contacts c ON cn.contact_id = c.id
+        UNION ALL
+        SELECT
+          'deal_note',
+          dn.id::text,
+          d.name,
+          dn.deal_id::text,
+          dn.text
+        FROM dealNotes dn
+        LEFT JOIN deals d ON dn.deal_id = d.id
+      ),
+      ranked AS (
+        SELECT
+          doc.entity_type,
+          doc.id,
+          doc.title,
+          doc.parent_id,
+          doc.document,
+          ts_rank(to_tsvector('english', doc.document), search.query, 32) AS score
+        FROM documents doc, search
+        WHERE doc.entity_type = ANY($2)
+          AND to_tsvector('english', doc.document) @@ search.query
+        ORDER BY score DESC
+        LIMIT $3
+      )
+      SELECT
+        ranked.entity_type,
+        ranked.id,
+        ranked.title,
+        ranked.parent_id,
+        ranked.score,
+        ts_headline('english', ranked.document, search.query,
+          'StartSel=**, StopSel=**, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" ... "') AS snippet
+      FROM ranked, search
+      ORDER BY ranked.score DESC
+    `;
+
+/**
+ * Build the search query over the given entity types (all of them when none are given)
+ */
+export function buildCrmSearchQuery(
+  query: string,
+  types: SearchEntityType[] | undefined,
+  limit: number
+): { sql: string; params: unknown[] } {
+  return {
+    sql: SEARCH_SQL,
+    params: [query, types?.length ? types : [...SEARCH_ENTITY_TYPES], limit],
+  };
+}
+
+/**
+ * crm:// resource of the record a hit belongs to
+ */
+function resourceUri(type: string, id: string | null): string | null {
+  if (!id) return null;
+  switch (type) {
+    case "contact":
+    case "contact_note":
+      return `crm://contacts/${id}`;
+    case "company":
+      return `crm://companies/${id}`;
+    case "deal":
+    case "deal_note":
+      return `crm://deals/${id}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Merge the hits of all entity types into one list, best match first
+ * Scores are rounded to 4 decimals; equal scores keep the entity type order, then the id,
+ * so the same search always lists its results the same way. Notes point at their parent.
+ */
+export function mergeSearchResults(rows: SearchRow[]): SearchResult[] {
+  const typeOrder = (type: string) => {
+    const index = SEARCH_ENTITY_TYPES.indexOf(type as SearchEntityType);
+    return index === -1 ? SEARCH_ENTITY_TYPES.length : index;
+  };
+
+  return rows
+    .map((row) => {
+      const isNote = row.entity_type === "contact_note" || row.entity_type === "deal_note";
+      return {
+        type: row.entity_type,
+        id: row.id,
+        title: row.title,
+        score: Math.round(parseFloat(String(row.score)) * 10000) / 10000,
+        snippet: row.snippet,
+        parent: isNote ? {
+          type: row.entity_type === "contact_note" ? "contact" as const : "deal" as const,
+          id: row.parent_id,
+        } : null,
+        uri: resourceUri(row.entity_type, isNote ? row.parent_id : row.id),
+      };
+    })
+    .sort((a, b) =>
+      b.score - a.score ||
+      typeOrder(a.type) - typeOrder(b.type) ||
+      a.id.localeCompare(b.id, undefined, { numeric: true })
+    );
+}
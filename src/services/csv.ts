@@ -0,0 +1,154 @@
+/**
+ * CSV Service
+ *
+ * RFC 4180 parsing and formatting helpers used by imports and exports.
+ * No database access, so these can be safely imported in tests.
+ */
+
+export interface ParsedCsv {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Delimiters recognized when detecting the format of a file
+ */
+const CANDIDATE_DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Pick the delimiter that appears most often in the header line (outside quotes)
+ */
+export function detectDelimiter(text: string): string {
+  let best = ",";
+  let bestCount = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    let count = 0;
+    let inQuotes = false;
+    for (const char of text) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && (char === "\n" || char === "\r")) break;
+      else if (!inQuotes && char === delimiter) count++;
+    }
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse CSV text into a header row and data rows
+ * Handles quoted fields, escaped quotes (""), delimiters and newlines inside
+ * quotes, CRLF line endings and a leading byte order mark. Blank lines are dropped.
+ * @param text - CSV content
+ * @param delimiter - Field delimiter (detected from the header line when omitted)
+ * @throws Error when a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): ParsedCsv {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== "") {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  const [headers = [], ...rows] = records;
+  return {
+    delimiter,
+    headers: headers.map((header) => header.trim()),
+    rows,
+  };
+}
+
+/**
+ * Normalize a column header for matching against field names
+ * "E-mail Address" becomes "e_mail_address"
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Format a value as a CSV field
+ * null becomes empty, dates become ISO strings, lists of emails/phones are joined
+ * with "; ", other objects are JSON. Fields with delimiters, quotes or newlines are quoted.
+ */
+export function formatCsvValue(value: unknown, delimiter: string = ","): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = "";
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value)) {
+    text = value
+      .map((item) => (item && typeof item === "object"
+        ? String((item as any).email ?? (item as any).number ?? JSON.stringify(item))
+        : String(item)))
+      .join("; ");
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Format a list of values as a CSV line, including the CRLF terminator
+ */
+export function formatCsvRow(values: unknown[], delimiter: string = ","): string {
+  return values.map((value) => formatCsvValue(value, delimiter)).join(delimiter) + "\r\n";
+}
@@ -0,0 +1,73 @@
+/**
+ * Deal Board Ordering
+ *
+ * The Atomic CRM board shows each stage as a column ordered by the deals' index.
+ * planDealMove works out the indexes after a deal is moved, renumbering the
+ * source and target columns from 0 so duplicate or missing indexes are repaired.
+ */
+
+/**
+ * A deal in a board column
+ */
+export interface BoardDeal {
+  id: number;
+  index: number | null;
+}
+
+export interface DealIndexChange {
+  id: number;
+  from: number | null;
+  to: number;
+}
+
+/**
+ * Order a column by index, then id (deals without an index go last)
+ */
+export function sortBoardColumn<T extends BoardDeal>(deals: T[]): T[] {
+  return [...deals].sort((a, b) => {
+    if (a.index === null || b.index === null) {
+      if (a.index !== b.index) return a.index === null ? 1 : -1;
+    } else if (a.index !== b.index) {
+      return a.index - b.index;
+    }
+    return a.id - b.id;
+  });
+}
+
+/**
+ * Plan moving a deal to a position in a column
+ * @param source The column the deal is in, including the deal
+ * @param target The column it moves to (the same array as source for a move within a column)
+ * @param position 0-based position in the target column; clamped, and the end when omitted
+ * @returns The deal's new index, and every index that changes (the moved deal included)
+ */
+export function planDealMove(
+  dealId: number,
+  source: BoardDeal[],
+  target: BoardDeal[],
+  position?: number
+): { index: number; changes: DealIndexChange[] } {
+  const sameColumn = source === target;
+  const remainingSource = sortBoardColumn(source).filter((deal) => deal.id !== dealId);
+  const targetColumn = sameColumn ? remainingSource : sortBoardColumn(target).filter((deal) => deal.id !== dealId);
+
+  const index = Math.max(0, Math.min(position ?? targetColumn.length, targetColumn.length));
+  const moved = source.find((deal) => deal.id === dealId) ?? { id: dealId, index: null };
+  const newTarget = [...targetColumn.slice(0, index), moved, ...targetColumn.slice(index)];
+
+  const changes: DealIndexChange[] = [];
+  const renumber = (column: BoardDeal[]) => {
+    column.forEach((deal, to) => {
+      if (deal.index !== to || deal.id === dealId) {
+        changes.push({ id: deal.id, from: deal.index, to });
+      }
+    });
+  };
+
+  renumber(newTarget);
+  if (!sameColumn) {
+    renumber(remainingSource);
+  }
+
+  return { index, changes };
+}
@@ -0,0 +1,108 @@
+/**
+ * Dispatch Schedule
+ *
+ * Lays out journey legs from every deal as a day-by-day board for dispatchers.
+ * Days are calendar days at the pickup place, and legs within a day are sorted
+ * by local pickup time, so an 08:00 pickup in New York comes after a 07:00 one in Paris.
+ */
+
+import { isValidTimeZone, toZonedDateTime } from "./timezone.js";
+
+/**
+ * The fields of a leg the schedule looks at; other fields are passed through
+ */
+export interface DispatchLeg {
+  id: string;
+  deal_id: string | number;
+  leg_order: number;
+  pickup_datetime: Date | string;
+  pickup_timezone: string;
+  [field: string]: unknown;
+}
+
+export type ScheduledLeg<T extends DispatchLeg> = T & {
+  pickup_utc: string;
+  pickup_local: string;
+  pickup_time: string;
+  pickup_utc_offset: string;
+  pickup_timezone_valid: boolean;
+};
+
+export interface DispatchDay<T extends DispatchLeg> {
+  date: string;
+  weekday: string;
+  leg_count: number;
+  legs: ScheduledLeg<T>[];
+}
+
+/**
+ * Whether a string is a calendar date (YYYY-MM-DD) that exists
+ */
+export function isCalendarDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)));
+  return date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Add days to a calendar date
+ */
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Instants to query so every pickup on the given local days is included,
+ * whatever the zone (UTC offsets range from -12:00 to +14:00)
+ */
+export function dispatchQueryWindow(from: string, to: string): { start: string; end: string } {
+  return {
+    start: new Date(new Date(`${from}T00:00:00Z`).getTime() - 14 * 60 * 60 * 1000).toISOString(),
+    end: new Date(new Date(`${addDays(to, 1)}T00:00:00Z`).getTime() + 12 * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Group legs by local pickup day, from one date to another (both included)
+ * Every day of the range is returned, with no legs when nothing is scheduled.
+ * Legs with an invalid zone are placed by their UTC time.
+ */
+export function buildDispatchSchedule<T extends DispatchLeg>(
+  legs: T[],
+  range: { from: string; to: string }
+): DispatchDay<T>[] {
+  const scheduled = legs.map((leg): ScheduledLeg<T> => {
+    const valid = isValidTimeZone(leg.pickup_timezone);
+    const zoned = toZonedDateTime(leg.pickup_datetime, valid ? leg.pickup_timezone : "UTC");
+    return {
+      ...leg,
+      pickup_utc: zoned.utc,
+      pickup_local: zoned.local,
+      pickup_time: zoned.local.slice(11, 16),
+      pickup_utc_offset: zoned.utc_offset,
+      pickup_timezone_valid: valid,
+    };
+  });
+
+  scheduled.sort((a, b) =>
+    a.pickup_local.localeCompare(b.pickup_local) ||
+    a.pickup_utc.localeCompare(b.pickup_utc) ||
+    String(a.deal_id).localeCompare(String(b.deal_id), undefined, { numeric: true }) ||
+    a.leg_order - b.leg_order
+  );
+
+  const days: DispatchDay<T>[] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    const dayLegs = scheduled.filter((leg) => leg.pickup_local.slice(0, 10) === date);
+    days.push({
+      date,
+      weekday: new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", { weekday: "long", timeZone: "UTC" }),
+      leg_count: dayLegs.length,
+      legs: dayLegs,
+    });
+  }
+  return days;
+}
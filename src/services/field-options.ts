@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+/**
+ * Field Options
+ *
+ * Deal stages, deal categories, contact statuses, task types and note types are
+ * free text in the database, like in Atomic CRM where the frontend configures
+ * them. The server reads the allowed values from the environment (see config.ts)
+ * and the create/update tools only accept those, so a typo cannot open a new
+ * pipeline column. Stages, contact statuses and note types default to the first
+ * value of their list.
+ */
+
+/**
+ * Allowed values of each configurable field
+ */
+export interface FieldOptions {
+  dealStages: string[];
+  dealCategories: string[];
+  contactStatuses: string[];
+  taskTypes: string[];
+  noteTypes: string[];
+}
+
+export type FieldOptionKey = keyof FieldOptions;
+
+/**
+ * Where each list applies, and the environment variable configuring it
+ */
+export const FIELD_OPTION_DEFINITIONS: Record<
+  FieldOptionKey,
+  { name: string; columns: string[]; env: string; tools: string[]; hasDefault: boolean }
+> = {
+  dealStages: {
+    name: "deal_stages",
+    columns: ["deals.stage"],
+    env: "DEAL_STAGES",
+    tools: ["create_deal", "update_deal", "move_deal", "bulk_update_deals"],
+    hasDefault: true,
+  },
+  dealCategories: {
+    name: "deal_categories",
+    columns: ["deals.category"],
+    env: "DEAL_CATEGORIES",
+    tools: ["create_deal", "update_deal", "bulk_update_deals"],
+    hasDefault: false,
+  },
+  contactStatuses: {
+    name: "contact_statuses",
+    columns: ["contacts.status"],
+    env: "CONTACT_STATUSES",
+    tools: ["create_contact", "update_contact", "bulk_create_contacts", "import_csv"],
+    hasDefault: true,
+  },
+  taskTypes: {
+    name: "task_types",
+    columns: ["tasks.type"],
+    env: "TASK_TYPES",
+    tools: ["create_task", "bulk_create_tasks"],
+    hasDefault: false,
+  },
+  noteTypes: {
+    name: "note_types",
+    columns: ["contactNotes.type", "dealNotes.type"],
+    env: "NOTE_TYPES",
+    tools: ["create_note"],
+    hasDefault: true,
+  },
+};
+
+/**
+ * Parse a comma-separated list of values, trimmed and without duplicates
+ */
+export function parseOptionList(raw: string | undefined): string[] {
+  return [...new Set((raw || "").split(",").map((value) => value.trim()).filter(Boolean))];
+}
+
+/**
+ * Zod schema accepting one of the given values
+ * Rendered as an enum in the tool's input schema, so the model sees the allowed values
+ */
+export function optionEnum(values: string[]) {
+  return z.enum(values as [string, ...string[]]);
+}
+
+/**
+ * The configured lists, with where they apply, for get_schema and list_field_options
+ */
+export function describeFieldOptions(options: FieldOptions): {
+  name: string;
+  columns: string[];
+  values: string[];
+  default: string | null;
+  env: string;
+  tools: string[];
+}[] {
+  return (Object.keys(FIELD_OPTION_DEFINITIONS) as FieldOptionKey[]).map((key) => ({
+    name: FIELD_OPTION_DEFINITIONS[key].name,
+    columns: FIELD_OPTION_DEFINITIONS[key].columns,
+    values: options[key],
+    default: FIELD_OPTION_DEFINITIONS[key].hasDefault ? options[key][0] : null,
+    env: FIELD_OPTION_DEFINITIONS[key].env,
+    tools: FIELD_OPTION_DEFINITIONS[key].tools,
+  }));
+}
+
+/**
+ * Text listing the allowed values of each field, one line per field
+ */
+export function formatFieldOptions(options: FieldOptions): string {
+  return describeFieldOptions(options)
+    .map((option) =>
+      `  - ${option.columns.join(", ")}: ${option.values.join(", ")}${option.default ? ` (default: ${option.default})` : ""}`
+    )
+    .join("\n");
+}
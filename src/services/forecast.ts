@@ -0,0 +1,269 @@
+/**
+ * Revenue Forecast
+ *
+ * Groups deals into calendar months or quarters by expected_closing_date and
+ * weights open deals by the win probability of their stage. Amounts stay in
+ * cents, like deals.amount. A stage at 100% counts as won and a stage at 0% as
+ * lost; every other stage is open.
+ */
+
+export type ForecastUnit = "month" | "quarter";
+
+/**
+ * An open deal, with its expected closing date as YYYY-MM-DD
+ */
+export interface ForecastDeal {
+  id: number;
+  stage: string;
+  amount: number;
+  expected_closing_date: string | null;
+}
+
+/**
+ * A won deal, with the day it was won as YYYY-MM-DD
+ */
+export interface WonDeal {
+  id: number;
+  amount: number;
+  won_on: string;
+}
+
+/**
+ * Any deal expected to close in a past period, whatever its outcome
+ */
+export interface ExpectedDeal {
+  id: number;
+  amount: number;
+  expected_closing_date: string;
+}
+
+export interface ForecastBucket {
+  won: number;
+  commit: number;
+  best_case: number;
+  pipeline: number;
+  weighted: number;
+  open_deals: number;
+  won_deals: number;
+}
+
+export interface ForecastOptions {
+  unit: ForecastUnit;
+  /** Current period plus this many following periods */
+  periods: number;
+  /** Past periods to compare */
+  historyPeriods: number;
+  /** Win probability of each stage, 0-100 */
+  probabilities: Record<string, number>;
+  /** Open deals at or above this probability are in commit */
+  commitProbability: number;
+  /** Open deals at or above this probability are in best case */
+  bestCaseProbability: number;
+  /** YYYY-MM-DD, defaults to the current UTC date */
+  today?: string;
+}
+
+/**
+ * Parse "stage:percent" pairs separated by commas, e.g. "opportunity:10,won:100"
+ * Entries without a valid percentage (0-100) are skipped
+ */
+export function parseStageProbabilities(raw: string | undefined): Record<string, number> {
+  const probabilities: Record<string, number> = {};
+  for (const entry of (raw || "").split(",")) {
+    const separator = entry.lastIndexOf(":");
+    if (separator <= 0) continue;
+    const stage = entry.slice(0, separator).trim();
+    const value = entry.slice(separator + 1).trim();
+    const probability = Number(value);
+    if (stage && value !== "" && Number.isFinite(probability) && probability >= 0 && probability <= 100) {
+      probabilities[stage] = probability;
+    }
+  }
+  return probabilities;
+}
+
+/**
+ * Stages that close a deal: won at 100%, lost at 0%
+ */
+export function closedStages(probabilities: Record<string, number>): { won: string[]; lost: string[] } {
+  const entries = Object.entries(probabilities);
+  return {
+    won: entries.filter(([, probability]) => probability === 100).map(([stage]) => stage),
+    lost: entries.filter(([, probability]) => probability === 0).map(([stage]) => stage),
+  };
+}
+
+/**
+ * Configured deal stages that close a deal (at 100% or 0%), in stage order
+ */
+export function pipelineClosedStages(dealStages: string[], probabilities: Record<string, number>): string[] {
+  const { won, lost } = closedStages(probabilities);
+  return dealStages.filter((stage) => won.includes(stage) || lost.includes(stage));
+}
+
+/**
+ * Months since year 0 of the period containing a YYYY-MM-DD date
+ */
+function periodIndex(date: string, unit: ForecastUnit): number {
+  const year = parseInt(date.slice(0, 4), 10);
+  const month = parseInt(date.slice(5, 7), 10) - 1;
+  return year * 12 + (unit === "quarter" ? month - (month % 3) : month);
+}
+
+/**
+ * First day (YYYY-MM-DD) of the period starting at a month index
+ */
+function periodStart(index: number): string {
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-01`;
+}
+
+/**
+ * Label of the period containing a YYYY-MM-DD date: "2026-03" or "2026-Q1"
+ */
+export function periodLabel(date: string, unit: ForecastUnit): string {
+  const index = periodIndex(date, unit);
+  const year = Math.floor(index / 12);
+  const month = index % 12;
+  return unit === "quarter" ? `${year}-Q${month / 3 + 1}` : `${year}-${String(month + 1).padStart(2, "0")}`;
+}
+
+/**
+ * Start and end (exclusive) of the periods covered by a forecast, as YYYY-MM-DD
+ */
+export function forecastRange(options: Pick<ForecastOptions, "unit" | "periods" | "historyPeriods" | "today">): {
+  historyStart: string;
+  currentStart: string;
+  end: string;
+} {
+  const step = options.unit === "quarter" ? 3 : 1;
+  const current = periodIndex(options.today ?? new Date().toISOString().slice(0, 10), options.unit);
+  return {
+    historyStart: periodStart(current - options.historyPeriods * step),
+    currentStart: periodStart(current),
+    end: periodStart(current + options.periods * step),
+  };
+}
+
+function emptyBucket(): ForecastBucket {
+  return { won: 0, commit: 0, best_case: 0, pipeline: 0, weighted: 0, open_deals: 0, won_deals: 0 };
+}
+
+function addOpenDeal(bucket: ForecastBucket, amount: number, probability: number, options: ForecastOptions): void {
+  bucket.open_deals++;
+  bucket.pipeline += amount;
+  bucket.weighted += Math.round((amount * probability) / 100);
+  if (probability >= options.commitProbability) bucket.commit += amount;
+  if (probability >= options.bestCaseProbability) bucket.best_case += amount;
+}
+
+function addWonDeal(bucket: ForecastBucket, amount: number): void {
+  bucket.won_deals++;
+  bucket.won += amount;
+  bucket.commit += amount;
+  bucket.best_case += amount;
+  bucket.weighted += amount;
+}
+
+/**
+ * Build the forecast
+ *
+ * Each period from the current one holds the deals won in it and the open deals
+ * expected to close in it:
+ * - won: amount won in the period
+ * - commit: won + open deals at or above commitProbability
+ * - best_case: won + open deals at or above bestCaseProbability
+ * - pipeline: every open deal, unweighted
+ * - weighted: won + open deals weighted by their stage's probability
+ * Open deals expected before the current period are overdue, those after the last
+ * period are later, those without a date are undated. Past periods compare the
+ * amount expected to close in them with the amount actually won.
+ */
+export function buildForecast(
+  data: { open: ForecastDeal[]; won: WonDeal[]; expected: ExpectedDeal[] },
+  options: ForecastOptions
+) {
+  const range = forecastRange(options);
+  const step = options.unit === "quarter" ? 3 : 1;
+  const currentIndex = periodIndex(range.currentStart, options.unit);
+
+  const periods = Array.from({ length: options.periods }, (_, offset) => {
+    const start = periodStart(currentIndex + offset * step);
+    return { period: periodLabel(start, options.unit), start, ...emptyBucket() };
+  });
+  const byLabel = new Map(periods.map((period) => [period.period, period]));
+  const overdue = emptyBucket();
+  const later = emptyBucket();
+  const undated = emptyBucket();
+  const unmappedStages = new Set<string>();
+
+  for (const deal of data.open) {
+    const probability = options.probabilities[deal.stage];
+    if (probability === undefined) unmappedStages.add(deal.stage);
+
+    const date = deal.expected_closing_date;
+    const bucket = !date
+      ? undated
+      : date < range.currentStart
+        ? overdue
+        : date >= range.end
+          ? later
+          : byLabel.get(periodLabel(date, options.unit));
+    if (bucket) addOpenDeal(bucket, deal.amount, probability ?? 0, options);
+  }
+
+  const history = Array.from({ length: options.historyPeriods }, (_, offset) => {
+    const start = periodStart(currentIndex - (options.historyPeriods - offset) * step);
+    return { period: periodLabel(start, options.unit), start, expected: 0, expected_deals: 0, won: 0, won_deals: 0, attainment: null as number | null };
+  });
+  const historyByLabel = new Map(history.map((period) => [period.period, period]));
+
+  for (const deal of data.won) {
+    const label = periodLabel(deal.won_on, options.unit);
+    const period = byLabel.get(label);
+    if (period) {
+      addWonDeal(period, deal.amount);
+      continue;
+    }
+    const past = historyByLabel.get(label);
+    if (past) {
+      past.won += deal.amount;
+      past.won_deals++;
+    }
+  }
+
+  for (const deal of data.expected) {
+    const past = historyByLabel.get(periodLabel(deal.expected_closing_date, options.unit));
+    if (past) {
+      past.expected += deal.amount;
+      past.expected_deals++;
+    }
+  }
+
+  for (const past of history) {
+    past.attainment = past.expected > 0 ? Math.round((past.won / past.expected) * 1000) / 1000 : null;
+  }
+
+  const measured = history.filter((past) => past.expected > 0);
+  const totalExpected = measured.reduce((sum, past) => sum + past.expected, 0);
+  const totalWon = measured.reduce((sum, past) => sum + past.won, 0);
+
+  const totals = emptyBucket();
+  for (const bucket of [...periods, overdue]) {
+    for (const key of Object.keys(totals) as (keyof ForecastBucket)[]) {
+      totals[key] += bucket[key];
+    }
+  }
+
+  return {
+    periods,
+    overdue,
+    later,
+    undated,
+    totals,
+    history,
+    historical_attainment: totalExpected > 0 ? Math.round((totalWon / totalExpected) * 1000) / 1000 : null,
+    unmapped_stages: [...unmappedStages].sort(),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * iCalendar Service
+ *
+ * iCalendar (RFC 5545) formatting helpers used by the task calendar feed.
+ * No database access, so these can be safely imported in tests.
+ */
+
+import { escapeVCardText, foldLine } from "./vcard.js";
+
+export interface CalendarTask {
+  id: string | number;
+  title: string;
+  description?: string | null;
+  due_date?: string | Date | null;
+  status?: string | null;
+  priority?: string | null;
+  type?: string | null;
+  contact_name?: string | null;
+  company_name?: string | null;
+  deal_name?: string | null;
+  updated_at?: string | Date | null;
+}
+
+export interface CalendarOptions {
+  /** "todo" renders VTODO entries, "event" renders all-day VEVENT entries on the due date */
+  component: "todo" | "event";
+  /** Calendar name shown by calendar apps */
+  name: string;
+  /** Generation time, used for DTSTAMP */
+  now?: Date;
+}
+
+/**
+ * Task priority to iCalendar PRIORITY (1 is highest, 9 lowest)
+ */
+const PRIORITY_LEVELS: Record<string, number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * Task status to VTODO STATUS
+ */
+const TODO_STATUSES: Record<string, string> = {
+  pending: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  done: "COMPLETED",
+  cancelled: "CANCELLED",
+};
+
+/**
+ * Format a timestamp as a UTC date-time (20260102T030405Z)
+ */
+export function formatICalDateTime(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Format a due date as a calendar date (20260102)
+ * Strings are read as YYYY-MM-DD; Date objects use their local date, which is how
+ * the pg driver returns DATE columns
+ */
+export function formatICalDate(value: string | Date): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const month = String(value.getMonth() + 1).padStart(2, "0");
+    const day = String(value.getDate()).padStart(2, "0");
+    return `${value.getFullYear()}${month}${day}`;
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? `${match[1]}${match[2]}${match[3]}` : null;
+}
+
+/**
+ * The calendar date after a YYYYMMDD date, for the exclusive end of all-day events
+ */
+function nextDay(date: string): string {
+  const next = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)) + 1));
+  return formatICalDateTime(next).slice(0, 8);
+}
+
+/**
+ * Build the DESCRIPTION of a task: its description, then what it relates to
+ */
+function describeTask(task: CalendarTask): string {
+  const related = [
+    task.contact_name ? `Contact: ${task.contact_name}` : null,
+    task.company_name ? `Company: ${task.company_name}` : null,
+    task.deal_name ? `Deal: ${task.deal_name}` : null,
+  ].filter(Boolean);
+
+  return [task.description || null, related.length > 0 ? related.join("\n") : null]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Format tasks as an iCalendar file, with CRLF line endings
+ * Each task keeps the same UID across refreshes, so subscribed calendars update
+ * entries in place. Tasks without a due date are skipped in "event" mode, since
+ * an event needs a date.
+ */
+export function formatICalendar(tasks: CalendarTask[], options: CalendarOptions): string {
+  const stamp = formatICalDateTime(options.now || new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Atomic CRM//MCP Server//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeVCardText(options.name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const task of tasks) {
+    const due = task.due_date ? formatICalDate(task.due_date) : null;
+    if (options.component === "event" && !due) continue;
+
+    const component = options.component === "event" ? "VEVENT" : "VTODO";
+    lines.push(
+      `BEGIN:${component}`,
+      `UID:task-${task.id}@atomic-crm`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeVCardText(task.title)}`
+    );
+
+    const description = describeTask(task);
+    if (description) lines.push(`DESCRIPTION:${escapeVCardText(description)}`);
+
+    if (component === "VEVENT") {
+      lines.push(`DTSTART;VALUE=DATE:${due}`, `DTEND;VALUE=DATE:${nextDay(due!)}`, "TRANSP:TRANSPARENT");
+    } else {
+      if (due) lines.push(`DUE;VALUE=DATE:${due}`);
+      const status = TODO_STATUSES[(task.status || "pending").toLowerCase()];
+      if (status) lines.push(`STATUS:${status}`);
+    }
+
+    const priority = PRIORITY_LEVELS[(task.priority || "").toLowerCase()];
+    if (priority) lines.push(`PRIORITY:${priority}`);
+    if (task.type) lines.push(`CATEGORIES:${escapeVCardText(task.type)}`);
+
+    const updatedAt = task.updated_at ? new Date(task.updated_at) : null;
+    if (updatedAt && !isNaN(updatedAt.getTime())) lines.push(`LAST-MODIFIED:${formatICalDateTime(updatedAt)}`);
+
+    lines.push(`END:${component}`);
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,275 @@
+/**
+ * Itinerary Service
+ *
+ * Turns a deal's journey legs into a run sheet for drivers, as Markdown, HTML or
+ * SMS-length text. Pickup times are shown as local time at the pickup place.
+ * The dispatcher variant adds each leg's dispatch notes.
+ * No database access, so these can be safely imported in tests.
+ */
+
+import { isValidTimeZone, toZonedDateTime } from "./timezone.js";
+
+export type ItineraryFormat = "markdown" | "html" | "sms";
+
+export type ItineraryVariant = "driver" | "dispatcher";
+
+export interface ItineraryLeg {
+  leg_order: number;
+  leg_type: string;
+  pickup_datetime: Date | string;
+  pickup_timezone: string;
+  pickup_location_text: string;
+  dropoff_location_text?: string | null;
+  transport_mode?: string | null;
+  carrier_or_operator?: string | null;
+  transport_number?: string | null;
+  origin_code?: string | null;
+  destination_code?: string | null;
+  terminal?: string | null;
+  gate?: string | null;
+  platform?: string | null;
+  meet_point_instructions?: string | null;
+  driver_notes?: string | null;
+  dispatch_notes?: string | null;
+}
+
+export interface ItineraryDeal {
+  id: string | number;
+  name: string;
+  company_name?: string | null;
+  contact_name?: string | null;
+  contact_phone?: string | null;
+}
+
+/**
+ * Maximum length of one SMS message
+ */
+export const SMS_MAX_LENGTH = 160;
+
+const LEG_TYPE_LABELS: Record<string, string> = {
+  airport_arrival: "Airport arrival",
+  airport_departure: "Airport departure",
+  train_arrival: "Train arrival",
+  train_departure: "Train departure",
+  point_to_point: "Transfer",
+  hourly: "Hourly hire",
+  tour_stop: "Tour stop",
+};
+
+/**
+ * One leg with its display values worked out
+ */
+interface LegView {
+  title: string;
+  pickupDay: string;
+  pickupTime: string;
+  pickupZone: string;
+  from: string;
+  to: string | null;
+  transport: string | null;
+  station: string | null;
+  meetPoint: string | null;
+  driverNotes: string | null;
+  dispatchNotes: string | null;
+}
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Pickup day, time and zone as shown at the pickup place (UTC when the zone is not valid)
+ */
+function localPickup(leg: ItineraryLeg): { day: string; time: string; zone: string } {
+  const zone = isValidTimeZone(leg.pickup_timezone) ? leg.pickup_timezone : "UTC";
+  const instant = new Date(leg.pickup_datetime);
+  const zoned = toZonedDateTime(instant, zone);
+  const weekday = new Intl.DateTimeFormat("en-GB", { timeZone: zone, weekday: "short" }).format(instant);
+  const month = new Intl.DateTimeFormat("en-GB", { timeZone: zone, month: "short" }).format(instant);
+  const [date, time] = zoned.local.split("T");
+  const [year, , day] = date.split("-");
+  return {
+    day: `${weekday} ${parseInt(day, 10)} ${month} ${year}`,
+    time: time.slice(0, 5),
+    zone: `${zone}, UTC${zoned.utc_offset}`,
+  };
+}
+
+function toView(leg: ItineraryLeg): LegView {
+  const pickup = localPickup(leg);
+  const kind = leg.transport_mode === "flight" ? "Flight" : leg.transport_mode === "train" ? "Train" : null;
+  const route = leg.origin_code || leg.destination_code
+    ? `${clean(leg.origin_code) ?? "?"} → ${clean(leg.destination_code) ?? "?"}`
+    : null;
+  const transport = kind || clean(leg.transport_number)
+    ? [
+        [kind, clean(leg.transport_number)].filter(Boolean).join(" "),
+        clean(leg.carrier_or_operator),
+        route,
+      ].filter(Boolean).join(" · ")
+    : null;
+  const station = [
+    clean(leg.terminal) && `Terminal ${clean(leg.terminal)}`,
+    clean(leg.gate) && `Gate ${clean(leg.gate)}`,
+    clean(leg.platform) && `Platform ${clean(leg.platform)}`,
+  ].filter(Boolean).join(" · ");
+
+  return {
+    title: `Leg ${leg.leg_order} — ${LEG_TYPE_LABELS[leg.leg_type] ?? leg.leg_type}`,
+    pickupDay: pickup.day,
+    pickupTime: pickup.time,
+    pickupZone: pickup.zone,
+    from: leg.pickup_location_text,
+    to: clean(leg.dropoff_location_text),
+    transport,
+    station: station || null,
+    meetPoint: clean(leg.meet_point_instructions),
+    driverNotes: clean(leg.driver_notes),
+    dispatchNotes: clean(leg.dispatch_notes),
+  };
+}
+
+/**
+ * Labelled fields of a leg, in display order, without the empty ones
+ */
+function legFields(view: LegView, variant: ItineraryVariant): [string, string][] {
+  const fields: [string, string | null][] = [
+    ["Pickup", `${view.pickupDay}, ${view.pickupTime} (${view.pickupZone})`],
+    ["From", view.from],
+    ["To", view.to],
+    ["Transport", view.transport],
+    ["Terminal / gate / platform", view.station],
+    ["Meet point", view.meetPoint],
+    ["Driver notes", view.driverNotes],
+    ["Dispatch notes", variant === "dispatcher" ? view.dispatchNotes : null],
+  ];
+  return fields.filter((field): field is [string, string] => Boolean(field[1]));
+}
+
+function dealSubtitle(deal: ItineraryDeal): string | null {
+  const contact = [clean(deal.contact_name), clean(deal.contact_phone)].filter(Boolean).join(", ");
+  return [clean(deal.company_name), contact].filter(Boolean).join(" · ") || null;
+}
+
+function sortLegs(legs: ItineraryLeg[]): ItineraryLeg[] {
+  return [...legs].sort((a, b) => a.leg_order - b.leg_order);
+}
+
+function formatMarkdown(deal: ItineraryDeal, legs: ItineraryLeg[], variant: ItineraryVariant): string {
+  const subtitle = dealSubtitle(deal);
+  const lines = [`# Itinerary: ${deal.name}`, ""];
+  if (subtitle) lines.push(subtitle, "");
+  if (variant === "dispatcher") lines.push(`_Dispatcher copy — deal #${deal.id}_`, "");
+
+  for (const leg of sortLegs(legs)) {
+    const view = toView(leg);
+    lines.push(`## ${view.title}`, "");
+    for (const [label, value] of legFields(view, variant)) {
+      // Keep multi-line notes inside their list item
+      lines.push(`- **${label}:** ${value.replace(/\r?\n/g, "\n  ")}`);
+    }
+    lines.push("");
+  }
+
+  if (legs.length === 0) lines.push("No journey legs yet.", "");
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatHtml(deal: ItineraryDeal, legs: ItineraryLeg[], variant: ItineraryVariant): string {
+  const subtitle = dealSubtitle(deal);
+  const title = `Itinerary: ${deal.name}`;
+  const parts = [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    `<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+  ];
+  if (subtitle) parts.push(`<p>${escapeHtml(subtitle)}</p>`);
+  if (variant === "dispatcher") parts.push(`<p><em>Dispatcher copy — deal #${escapeHtml(String(deal.id))}</em></p>`);
+
+  for (const leg of sortLegs(legs)) {
+    const view = toView(leg);
+    parts.push("<section>", `<h2>${escapeHtml(view.title)}</h2>`, "<dl>");
+    for (const [label, value] of legFields(view, variant)) {
+      parts.push(`<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value).replace(/\r?\n/g, "<br>")}</dd>`);
+    }
+    parts.push("</dl>", "</section>");
+  }
+
+  if (legs.length === 0) parts.push("<p>No journey legs yet.</p>");
+  parts.push("</body>", "</html>");
+  return parts.join("\n");
+}
+
+/**
+ * Append optional parts to a message while it fits, shortening the one that overflows
+ */
+function fitMessage(base: string, extras: string[], maxLength: number): string {
+  let message = base.length > maxLength ? `${base.slice(0, maxLength - 1)}…` : base;
+  for (const extra of extras) {
+    const addition = ` ${extra}`;
+    const room = maxLength - message.length;
+    if (addition.length <= room) {
+      message += addition;
+    } else {
+      // Too little room left to be useful: only show that something was cut
+      message = room > 12
+        ? `${message}${addition.slice(0, room - 1)}…`
+        : room >= 2 ? `${message} …` : `${message.slice(0, maxLength - 2)} …`;
+      break;
+    }
+  }
+  return message;
+}
+
+/**
+ * One SMS per leg, each at most SMS_MAX_LENGTH characters
+ * Time, route and transport come first; meet point and notes are shortened to fit
+ */
+export function formatSmsItinerary(legs: ItineraryLeg[], variant: ItineraryVariant = "driver"): string[] {
+  return sortLegs(legs).map((leg) => {
+    const view = toView(leg);
+    const oneLine = (value: string) => value.replace(/\s+/g, " ");
+    const base = [
+      `Leg ${leg.leg_order}: ${view.pickupDay.slice(0, -5)} ${view.pickupTime}`,
+      `${oneLine(view.from)}${view.to ? ` > ${oneLine(view.to)}` : ""}.`,
+      view.transport ? `${view.transport}.` : null,
+      view.station ? `${view.station}.` : null,
+    ].filter(Boolean).join(" ");
+    const extras = [
+      view.meetPoint && `Meet: ${oneLine(view.meetPoint)}`,
+      view.driverNotes && `Notes: ${oneLine(view.driverNotes)}`,
+      variant === "dispatcher" && view.dispatchNotes && `Dispatch: ${oneLine(view.dispatchNotes)}`,
+    ].filter((extra): extra is string => Boolean(extra));
+    return fitMessage(base, extras, SMS_MAX_LENGTH);
+  });
+}
+
+/**
+ * Format a deal's itinerary
+ */
+export function formatItinerary(
+  deal: ItineraryDeal,
+  legs: ItineraryLeg[],
+  options: { format: ItineraryFormat; variant: ItineraryVariant }
+): string {
+  switch (options.format) {
+    case "html":
+      return formatHtml(deal, legs, options.variant);
+    case "sms":
+      return formatSmsItinerary(legs, options.variant).join("\n\n");
+    default:
+      return formatMarkdown(deal, legs, options.variant);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Journey Conflicts
+ *
+ * Checks the legs of a deal's journey against each other: pickups must follow
+ * leg_order, consecutive pickups must be at least a minimum gap apart, and no
+ * two legs may share a leg_order. Depending on the strictness, conflicts are
+ * warnings (the leg is saved) or errors (the leg is rejected).
+ */
+
+export type ConflictStrictness = "warn" | "error";
+
+export type JourneyConflictType = "out_of_order" | "too_close" | "duplicate_order";
+
+/**
+ * The fields of a leg the checks look at
+ */
+export interface JourneyLegTiming {
+  id: string;
+  deal_id: string | number;
+  leg_order: number;
+  pickup_datetime: Date | string;
+}
+
+export interface JourneyConflict {
+  type: JourneyConflictType;
+  severity: "warning" | "error";
+  deal_id: string | number;
+  leg_id: string;
+  leg_order: number;
+  other_leg_id: string;
+  other_leg_order: number;
+  gap_minutes: number;
+  message: string;
+}
+
+export interface JourneyConflictOptions {
+  minGapMinutes: number;
+  strictness: ConflictStrictness;
+}
+
+function pickupTime(leg: JourneyLegTiming): number {
+  return new Date(leg.pickup_datetime).getTime();
+}
+
+function formatPickup(leg: JourneyLegTiming): string {
+  return new Date(leg.pickup_datetime).toISOString();
+}
+
+/**
+ * Find the conflicts between the legs of each deal
+ * Legs are compared with the next one in leg_order, which catches every pickup
+ * out of order and the closest pair of pickups
+ */
+export function findJourneyConflicts(legs: JourneyLegTiming[], options: JourneyConflictOptions): JourneyConflict[] {
+  const severity = options.strictness === "error" ? "error" : "warning";
+  const byDeal = new Map<string, JourneyLegTiming[]>();
+  for (const leg of legs) {
+    const key = String(leg.deal_id);
+    byDeal.set(key, [...(byDeal.get(key) || []), leg]);
+  }
+
+  const conflicts: JourneyConflict[] = [];
+  for (const dealLegs of byDeal.values()) {
+    const sorted = [...dealLegs].sort(
+      (a, b) => a.leg_order - b.leg_order || pickupTime(a) - pickupTime(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1];
+      const leg = sorted[i];
+      const gapMinutes = Math.round((pickupTime(leg) - pickupTime(previous)) / 60000);
+      const base = {
+        severity,
+        deal_id: leg.deal_id,
+        leg_id: leg.id,
+        leg_order: leg.leg_order,
+        other_leg_id: previous.id,
+        other_leg_order: previous.leg_order,
+        gap_minutes: gapMinutes,
+      } as const;
+
+      if (leg.leg_order === previous.leg_order) {
+        conflicts.push({
+          ...base,
+          type: "duplicate_order",
+          message: `Two legs have leg_order ${leg.leg_order} (pickups ${formatPickup(previous)} and ${formatPickup(leg)})`,
+        });
+      } else if (gapMinutes < 0) {
+        conflicts.push({
+          ...base,
+          type: "out_of_order",
+          message: `Leg ${leg.leg_order} picks up at ${formatPickup(leg)}, before leg ${previous.leg_order} at ${formatPickup(previous)}`,
+        });
+      } else if (gapMinutes < options.minGapMinutes) {
+        conflicts.push({
+          ...base,
+          type: "too_close",
+          message: `Leg ${leg.leg_order} picks up ${gapMinutes} min after leg ${previous.leg_order}, less than the ${options.minGapMinutes} min minimum`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Check one new or changed leg against the other legs of its deal
+ * @returns The conflicts involving that leg
+ */
+export function findLegConflicts(
+  leg: JourneyLegTiming,
+  otherLegs: JourneyLegTiming[],
+  options: JourneyConflictOptions
+): JourneyConflict[] {
+  const legs = [...otherLegs.filter((other) => other.id !== leg.id), leg];
+  return findJourneyConflicts(legs, options).filter(
+    (conflict) => conflict.leg_id === leg.id || conflict.other_leg_id === leg.id
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Journey Templates
+ *
+ * Builds new journey legs from existing ones: copies of a deal's legs, moved to
+ * another deal or shifted by a number of days, and the return leg of an arrival.
+ * Days are shifted in the leg's own zone, so a 09:30 pickup stays at 09:30 local
+ * time across a DST change.
+ */
+
+import { isValidTimeZone, toZonedDateTime, zonedTimeToUtc } from "./timezone.js";
+
+/**
+ * The fields of a leg that are copied; id, deal_id and timestamps are not
+ */
+export interface JourneyLegTemplate {
+  leg_order: number;
+  leg_type: string;
+  pickup_datetime: Date | string;
+  pickup_timezone: string;
+  pickup_location_text: string;
+  dropoff_location_text: string | null;
+  transport_mode: string;
+  carrier_or_operator: string | null;
+  transport_number: string | null;
+  origin_code: string | null;
+  destination_code: string | null;
+  terminal: string | null;
+  gate: string | null;
+  platform: string | null;
+  meet_point_instructions: string | null;
+  driver_notes: string | null;
+  dispatch_notes: string | null;
+}
+
+/**
+ * Columns written when inserting a leg, in the order of journeyLegValues
+ */
+export const JOURNEY_LEG_COLUMNS = [
+  "leg_order",
+  "leg_type",
+  "pickup_datetime",
+  "pickup_timezone",
+  "pickup_location_text",
+  "dropoff_location_text",
+  "transport_mode",
+  "carrier_or_operator",
+  "transport_number",
+  "origin_code",
+  "destination_code",
+  "terminal",
+  "gate",
+  "platform",
+  "meet_point_instructions",
+  "driver_notes",
+  "dispatch_notes",
+] as const;
+
+/**
+ * Values of a leg in JOURNEY_LEG_COLUMNS order, with the pickup as an ISO string
+ */
+export function journeyLegValues(leg: JourneyLegTemplate): unknown[] {
+  return JOURNEY_LEG_COLUMNS.map((column) =>
+    column === "pickup_datetime" ? new Date(leg.pickup_datetime).toISOString() : leg[column] ?? null
+  );
+}
+
+/**
+ * Return leg type for each arrival type
+ */
+export const RETURN_LEG_TYPES: Record<string, string> = {
+  airport_arrival: "airport_departure",
+  train_arrival: "train_departure",
+};
+
+/**
+ * Move a pickup by whole days, keeping its wall-clock time in the zone
+ * (UTC when the zone is not valid)
+ */
+export function shiftPickupDays(pickup: Date | string, zone: string, days: number): Date {
+  const instant = new Date(pickup);
+  if (days === 0) return instant;
+
+  const local = toZonedDateTime(instant, isValidTimeZone(zone) ? zone : "UTC").local;
+  const [date, time] = local.split("T");
+  const [year, month, day] = date.split("-").map((part) => parseInt(part, 10));
+  const [hour, minute, second] = time.split(":").map((part) => parseInt(part, 10));
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+
+  return zonedTimeToUtc(
+    {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+      hour,
+      minute,
+      second,
+      millisecond: instant.getUTCMilliseconds(),
+    },
+    isValidTimeZone(zone) ? zone : "UTC"
+  );
+}
+
+/**
+ * Copies of legs, in leg_order, numbered from startOrder and shifted by offsetDays
+ */
+export function planLegCopies<T extends JourneyLegTemplate>(
+  legs: T[],
+  options: { startOrder: number; offsetDays: number }
+): (T & { pickup_datetime: Date })[] {
+  return [...legs]
+    .sort((a, b) => a.leg_order - b.leg_order || new Date(a.pickup_datetime).getTime() - new Date(b.pickup_datetime).getTime())
+    .map((leg, index) => ({
+      ...leg,
+      leg_order: options.startOrder + index,
+      pickup_datetime: shiftPickupDays(leg.pickup_datetime, leg.pickup_timezone, options.offsetDays),
+    }));
+}
+
+/**
+ * The return leg of an arrival: a departure from where the arrival dropped off,
+ * back to where it picked up, with the origin and destination codes swapped
+ * Flight or train details, terminal, gate, platform and meet point belong to the
+ * inbound trip and are left empty unless given; driver and dispatch notes are kept.
+ */
+export function mirrorReturnLeg(
+  arrival: JourneyLegTemplate,
+  options: {
+    leg_order: number;
+    pickup_datetime: Date;
+    pickup_timezone: string;
+  } & Partial<Pick<JourneyLegTemplate,
+    "transport_mode" | "carrier_or_operator" | "transport_number" | "terminal" | "gate" | "platform" | "meet_point_instructions"
+  >>
+): JourneyLegTemplate {
+  const returnType = RETURN_LEG_TYPES[arrival.leg_type];
+  if (!returnType) {
+    throw new Error(`Cannot mirror a ${arrival.leg_type} leg: only ${Object.keys(RETURN_LEG_TYPES).join(" and ")} legs have a return`);
+  }
+  if (!arrival.dropoff_location_text) {
+    throw new Error("Cannot mirror a leg without a dropoff location");
+  }
+
+  return {
+    leg_order: options.leg_order,
+    leg_type: returnType,
+    pickup_datetime: options.pickup_datetime,
+    pickup_timezone: options.pickup_timezone,
+    pickup_location_text: arrival.dropoff_location_text,
+    dropoff_location_text: arrival.pickup_location_text,
+    transport_mode: options.transport_mode ?? arrival.transport_mode,
+    carrier_or_operator: options.carrier_or_operator ?? null,
+    transport_number: options.transport_number ?? null,
+    origin_code: arrival.destination_code,
+    destination_code: arrival.origin_code,
+    terminal: options.terminal ?? null,
+    gate: options.gate ?? null,
+    platform: options.platform ?? null,
+    meet_point_instructions: options.meet_point_instructions ?? null,
+    driver_notes: arrival.driver_notes,
+    dispatch_notes: arrival.dispatch_notes,
+  };
+}
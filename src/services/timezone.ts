@@ -0,0 +1,200 @@
+/**
+ * Time Zones
+ *
+ * Journey legs store pickup_datetime as an instant (TIMESTAMPTZ) next to the IANA
+ * zone of the pickup place. These helpers validate zone names, read datetimes
+ * without an offset as wall-clock time in the leg's zone (the offset is looked up
+ * for that date, so DST changes are handled), and render instants back in the zone.
+ */
+
+/**
+ * Whether a name is a time zone known to the IANA database (e.g. "Europe/Paris")
+ * Fixed offsets such as "+02:00" are not zone names and are rejected
+ */
+export function isValidTimeZone(zone: string): boolean {
+  if (!zone || /^[+-]\d/.test(zone.trim())) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether an ISO 8601 datetime carries its UTC offset ("Z", "+02:00", "-0500")
+ */
+export function hasUtcOffset(datetime: string): boolean {
+  return /\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?\s*(?:Z|[+-]\d{2}(?::?\d{2})?)$/i.test(datetime.trim());
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a zone
+ */
+function wallClock(date: Date, zone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = Object.fromEntries(
+    formatterFor(zone).formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+  };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in minutes (e.g. 120 for Paris in summer)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, zone: string): number {
+  const local = wallClock(date, zone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Format an offset in minutes as "+02:00"
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, "0")}:${String(absolute % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The instant at which a zone's clocks show a wall-clock time
+ * A time skipped by a DST change (e.g. 02:30 when clocks go from 02:00 to 03:00)
+ * resolves to the same time after the change (03:30); a time occurring twice
+ * resolves to its first occurrence
+ */
+export function zonedTimeToUtc(
+  wall: { year: number; month: number; day: number; hour: number; minute: number; second?: number; millisecond?: number },
+  zone: string
+): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0, wall.millisecond ?? 0);
+
+  // Try the offsets in effect shortly before and after, and keep those that give back this wall time
+  const offsets = [...new Set([
+    getTimeZoneOffsetMinutes(new Date(asUtc - 24 * 60 * 60 * 1000), zone),
+    getTimeZoneOffsetMinutes(new Date(asUtc), zone),
+    getTimeZoneOffsetMinutes(new Date(asUtc + 24 * 60 * 60 * 1000), zone),
+  ])];
+  const matches = offsets
+    .map((offset) => asUtc - offset * 60000)
+    .filter((candidate) => getTimeZoneOffsetMinutes(new Date(candidate), zone) * 60000 === asUtc - candidate)
+    .sort((a, b) => a - b);
+
+  if (matches.length > 0) {
+    return new Date(matches[0]);
+  }
+
+  // Skipped by a DST change: use the offset from before the change, which lands after it
+  const before = getTimeZoneOffsetMinutes(new Date(asUtc - 24 * 60 * 60 * 1000), zone);
+  return new Date(asUtc - before * 60000);
+}
+
+/**
+ * Parse a pickup datetime
+ * Datetimes with an offset are taken as is; datetimes without one ("2026-03-29T09:30")
+ * are wall-clock time in the given zone
+ * @returns The instant, or null when the datetime cannot be parsed
+ */
+export function parseZonedDateTime(datetime: string, zone: string): Date | null {
+  const value = datetime.trim();
+  if (hasUtcOffset(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, fraction] = match;
+  const wall = {
+    year: parseInt(year, 10),
+    month: parseInt(month, 10),
+    day: parseInt(day, 10),
+    hour: parseInt(hour, 10),
+    minute: parseInt(minute, 10),
+    second: second ? parseInt(second, 10) : 0,
+    millisecond: fraction ? parseInt(fraction.padEnd(3, "0"), 10) : 0,
+  };
+
+  // Reject dates that do not exist, such as 2026-02-30
+  const check = new Date(Date.UTC(wall.year, wall.month - 1, wall.day));
+  if (
+    check.getUTCMonth() !== wall.month - 1 ||
+    check.getUTCDate() !== wall.day ||
+    wall.hour > 23 ||
+    wall.minute > 59 ||
+    wall.second > 59
+  ) {
+    return null;
+  }
+
+  return zonedTimeToUtc(wall, zone);
+}
+
+/**
+ * An instant in UTC and as wall-clock time in a zone
+ */
+export interface ZonedDateTime {
+  utc: string;
+  local: string;
+  utc_offset: string;
+  time_zone: string;
+}
+
+/**
+ * Render an instant in UTC and in a zone, e.g. local "2026-03-29T09:30:00" with utc_offset "+02:00"
+ */
+export function toZonedDateTime(date: Date | string, zone: string): ZonedDateTime {
+  const instant = new Date(date);
+  const local = wallClock(instant, zone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return {
+    utc: instant.toISOString(),
+    local: `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`,
+    utc_offset: formatUtcOffset(getTimeZoneOffsetMinutes(instant, zone)),
+    time_zone: zone,
+  };
+}
+
+/**
+ * Pickup fields added to journey legs: the instant in UTC, and the wall-clock
+ * time and offset at the pickup place (null when the stored zone is not valid)
+ */
+export function pickupTimes(pickupDatetime: Date | string, pickupTimezone: string): {
+  pickup_utc: string;
+  pickup_local: string | null;
+  pickup_utc_offset: string | null;
+} {
+  const utc = new Date(pickupDatetime).toISOString();
+  if (!isValidTimeZone(pickupTimezone)) {
+    return { pickup_utc: utc, pickup_local: null, pickup_utc_offset: null };
+  }
+  const zoned = toZonedDateTime(pickupDatetime, pickupTimezone);
+  return { pickup_utc: zoned.utc, pickup_local: zoned.local, pickup_utc_offset: zoned.utc_offset };
+}
@@ -0,0 +1,149 @@
+/**
+ * Trash Queries
+ *
+ * The SQL used by the trash service to snapshot a record and the rows deleted along
+ * with it, and to put them back. Kept apart from trash.ts, which needs the database
+ * and configuration, so the statements and the restore steps can be checked in tests.
+ */
+
+export const TRASH_RESOURCES = ["contacts", "companies", "deals", "tasks"] as const;
+
+export type TrashResource = (typeof TRASH_RESOURCES)[number];
+
+/**
+ * A table whose rows are deleted along with a record, and the column pointing at it
+ */
+export interface TrashRelation {
+  table: string;
+  column: string;
+}
+
+/**
+ * Display label of each resource, and the rows deleted along with it
+ * Related tables are restored in this order, after the record itself
+ */
+export const TRASH_DEFINITIONS: Record<TrashResource, { label: string; related: TrashRelation[] }> = {
+  contacts: {
+    label: "concat_ws(' ', r.first_name, r.last_name)",
+    related: [
+      { table: "contactNotes", column: "contact_id" },
+      { table: "deal_contacts", column: "contact_id" },
+      // Cascaded by the foreign key, so they must be captured before the contact goes
+      { table: "tasks", column: "contact_id" },
+    ],
+  },
+  companies: {
+    label: "r.name",
+    related: [],
+  },
+  deals: {
+    label: "r.name",
+    related: [
+      { table: "dealNotes", column: "deal_id" },
+      { table: "deal_contacts", column: "deal_id" },
+      // Cascaded by the foreign key, so they must be captured before the deal goes
+      { table: "deal_journey_legs", column: "deal_id" },
+    ],
+  },
+  tasks: {
+    label: "r.title",
+    related: [],
+  },
+};
+
+/**
+ * Statements moving a record to the trash, all taking the record id as $1
+ * record also takes the owning sales rep as $2 and locks the row; each related
+ * table is read, then deleted, before the record itself is deleted
+ */
+export function buildSnapshotStatements(resource: TrashResource): {
+  record: string;
+  related: { table: string; select: string; delete: string }[];
+  deleteRecord: string;
+} {
+  const definition = TRASH_DEFINITIONS[resource];
+  return {
+    record: `SELECT to_jsonb(r) AS record, ${definition.label} AS label
+       FROM ${resource} r
+       WHERE r.id = $1 AND r.sales_id = $2
+       FOR UPDATE`,
+    related: definition.related.map(({ table, column }) => ({
+      table,
+      select: `SELECT to_jsonb(x) AS row FROM ${table} x WHERE x.${column} = $1`,
+      delete: `DELETE FROM ${table} WHERE ${column} = $1`,
+    })),
+    deleteRecord: `DELETE FROM ${resource} WHERE id = $1 AND sales_id = $2`,
+  };
+}
+
+/**
+ * Statements putting a trashed record back with its original ids
+ * exists takes the record id as text; record and each related insert take the
+ * snapshot as a JSON array or object in $1, and run in definition order
+ */
+export function buildRestoreStatements(resource: TrashResource): {
+  exists: string;
+  record: string;
+  related: { table: string; insert: string }[];
+} {
+  return {
+    exists: `SELECT 1 FROM ${resource} WHERE id::text = $1`,
+    record: `INSERT INTO ${resource} OVERRIDING SYSTEM VALUE
+       SELECT * FROM jsonb_populate_record(NULL::${resource}, $1::jsonb)`,
+    related: TRASH_DEFINITIONS[resource].related.map(({ table }) => ({
+      table,
+      insert: `INSERT INTO ${table} OVERRIDING SYSTEM VALUE
+           SELECT * FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb)`,
+    })),
+  };
+}
+
+/**
+ * Database client used by restoreRows (a pg client, or a fake in tests)
+ */
+export interface TrashQueryClient {
+  query(sql: string, params?: unknown[]): Promise<{ rows: any[] }>;
+}
+
+/**
+ * Transaction setting read by record_deal_stage_change: while it is on, reinserted
+ * deals do not get a stage history row, as they enter no stage
+ */
+export const RESTORING_FROM_TRASH_SETTING = "app.restoring_from_trash";
+
+/**
+ * Put a trashed record back, then its related rows in definition order
+ * Runs inside the caller's transaction, which is rolled back if a step fails
+ * @param client - Client of an open transaction
+ * @param resource - Resource of the trash entry
+ * @param recordId - Id of the trashed record
+ * @param record - The record as snapshotted
+ * @param related - Snapshotted rows by table
+ * @returns The number of rows restored per related table
+ */
+export async function restoreRows(
+  client: TrashQueryClient,
+  resource: TrashResource,
+  recordId: string,
+  record: unknown,
+  related: Record<string, unknown[]> | null
+): Promise<Record<string, number>> {
+  const statements = buildRestoreStatements(resource);
+  const existing = await client.query(statements.exists, [recordId]);
+  if (existing.rows.length > 0) {
+    throw new Error(`Cannot restore: a ${resource.slice(0, -1)} with id ${recordId} already exists`);
+  }
+
+  await client.query(`SET LOCAL ${RESTORING_FROM_TRASH_SETTING} = 'on'`);
+  await client.query(statements.record, [JSON.stringify(record)]);
+
+  const counts: Record<string, number> = {};
+  for (const { table, insert } of statements.related) {
+    const rows = related?.[table] || [];
+    if (rows.length > 0) {
+      await client.query(insert, [JSON.stringify(rows)]);
+    }
+    counts[table] = rows.length;
+  }
+  return counts;
+}
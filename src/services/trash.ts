@@ -0,0 +1,223 @@
+import { decodeJwt } from "jose";
+import type pg from "pg";
+import { getPool, isValidTable } from "../db/query-builder.js";
+import type { QueryContext } from "../db/query-builder.js";
+import { config } from "../config.js";
+import { TRASH_DEFINITIONS, buildSnapshotStatements, restoreRows } from "./trash-queries.js";
+import type { TrashResource } from "./trash-queries.js";
+
+export { TRASH_RESOURCES } from "./trash-queries.js";
+export type { TrashResource } from "./trash-queries.js";
+
+/**
+ * Trash Service
+ *
+ * Deleting a contact, company, deal or task moves the full row, and the rows deleted
+ * along with it, into deleted_records in the same transaction. restoreFromTrash puts
+ * them back with their original ids. Entries older than the retention window
+ * (TRASH_RETENTION_DAYS) are purged.
+ */
+
+export interface TrashEntry {
+  trash_id: number;
+  resource: TrashResource;
+  record_id: string;
+  label: string | null;
+  related: Record<string, number>;
+  deleted_at: Date;
+  restorable_until: Date;
+}
+
+/**
+ * Start a transaction with the user's RLS context
+ */
+async function beginUserTransaction(client: pg.PoolClient, context: QueryContext): Promise<void> {
+  const jwtClaims = decodeJwt(context.userToken);
+
+  await client.query("BEGIN");
+  await client.query(`SET LOCAL role = 'authenticated'`);
+
+  const claimsJson = JSON.stringify(jwtClaims)
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "''");
+  await client.query(`SET LOCAL request.jwt.claims = '${claimsJson}'`);
+}
+
+/**
+ * Run the given steps in a user transaction, rolling back on error
+ */
+async function inUserTransaction<T>(context: QueryContext, steps: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await beginUserTransaction(client, context);
+    const result = await steps(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete the user's trash entries that are past the retention window
+ */
+async function purgeExpired(client: pg.PoolClient, salesId: number): Promise<number> {
+  const result = await client.query(
+    `DELETE FROM deleted_records
+     WHERE sales_id = $1 AND deleted_at < NOW() - make_interval(days => $2)`,
+    [salesId, config.trash.retentionDays]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Expression for when an entry stops being restorable
+ */
+const RESTORABLE_UNTIL = `deleted_at + make_interval(days => ${Number(config.trash.retentionDays)})`;
+
+/**
+ * Move a record owned by the given sales rep, and its related rows, to the trash
+ * @returns The trash entry, or null when the record does not exist or is not owned by the rep
+ */
+export async function moveToTrash(
+  resource: TrashResource,
+  id: string | number,
+  salesId: number,
+  context: QueryContext
+): Promise<TrashEntry | null> {
+  const definition = TRASH_DEFINITIONS[resource];
+  if (!isValidTable(resource) || !isValidTable("deleted_records") || definition.related.some(({ table }) => !isValidTable(table))) {
+    throw new Error("Invalid table configuration");
+  }
+
+  return inUserTransaction(context, async (client) => {
+    await purgeExpired(client, salesId);
+
+    const statements = buildSnapshotStatements(resource);
+    const recordResult = await client.query(statements.record, [id, salesId]);
+    if (recordResult.rows.length === 0) {
+      return null;
+    }
+
+    const related: Record<string, unknown[]> = {};
+    for (const { table, select, delete: deleteRows } of statements.related) {
+      const rows = await client.query(select, [id]);
+      related[table] = rows.rows.map((row) => row.row);
+      await client.query(deleteRows, [id]);
+    }
+
+    await client.query(statements.deleteRecord, [id, salesId]);
+
+    const entryResult = await client.query(
+      `INSERT INTO deleted_records (resource, record_id, label, record, related, sales_id, deleted_by)
+       VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, $6, $7)
+       RETURNING id, deleted_at, ${RESTORABLE_UNTIL} AS restorable_until`,
+      [
+        resource,
+        String(id),
+        recordResult.rows[0].label || null,
+        JSON.stringify(recordResult.rows[0].record),
+        JSON.stringify(related),
+        salesId,
+        context.authInfo.userId,
+      ]
+    );
+
+    const entry = entryResult.rows[0];
+    return {
+      trash_id: Number(entry.id),
+      resource,
+      record_id: String(id),
+      label: recordResult.rows[0].label || null,
+      related: Object.fromEntries(Object.entries(related).map(([table, rows]) => [table, rows.length])),
+      deleted_at: entry.deleted_at,
+      restorable_until: entry.restorable_until,
+    };
+  });
+}
+
+/**
+ * List the rep's restorable trash entries, newest first
+ */
+export async function listTrash(
+  salesId: number,
+  context: QueryContext,
+  options: { resource?: TrashResource; limit: number }
+): Promise<TrashEntry[]> {
+  return inUserTransaction(context, async (client) => {
+    await purgeExpired(client, salesId);
+
+    const result = await client.query(
+      `SELECT
+         id, resource, record_id, label, deleted_at, ${RESTORABLE_UNTIL} AS restorable_until,
+         (SELECT coalesce(jsonb_object_agg(key, jsonb_array_length(value)), '{}'::jsonb)
+          FROM jsonb_each(related)) AS related
+       FROM deleted_records
+       WHERE sales_id = $1 AND ($2::text IS NULL OR resource = $2)
+       ORDER BY deleted_at DESC, id DESC
+       LIMIT $3`,
+      [salesId, options.resource ?? null, options.limit]
+    );
+
+    return result.rows.map((row) => ({
+      trash_id: Number(row.id),
+      resource: row.resource,
+      record_id: row.record_id,
+      label: row.label,
+      related: row.related,
+      deleted_at: row.deleted_at,
+      restorable_until: row.restorable_until,
+    }));
+  });
+}
+
+/**
+ * Restore a trash entry: the record, then its related rows, with their original ids
+ * Fails without changing anything when a row it references no longer exists
+ * (e.g. a contact's company was deleted since) or its id has been reused
+ * @returns The restored entry, or null when there is no such restorable entry
+ */
+export async function restoreFromTrash(
+  trashId: number,
+  salesId: number,
+  context: QueryContext
+): Promise<TrashEntry | null> {
+  return inUserTransaction(context, async (client) => {
+    await purgeExpired(client, salesId);
+
+    const entryResult = await client.query(
+      `SELECT id, resource, record_id, label, record, related, deleted_at, ${RESTORABLE_UNTIL} AS restorable_until
+       FROM deleted_records
+       WHERE id = $1 AND sales_id = $2
+       FOR UPDATE`,
+      [trashId, salesId]
+    );
+    if (entryResult.rows.length === 0) {
+      return null;
+    }
+
+    const entry = entryResult.rows[0];
+    const resource = entry.resource as TrashResource;
+    const definition = TRASH_DEFINITIONS[resource];
+    if (!definition || !isValidTable(resource)) {
+      throw new Error("Invalid table configuration");
+    }
+
+    const counts = await restoreRows(client, resource, entry.record_id, entry.record, entry.related);
+
+    await client.query(`DELETE FROM deleted_records WHERE id = $1`, [trashId]);
+
+    return {
+      trash_id: Number(entry.id),
+      resource,
+      record_id: entry.record_id,
+      label: entry.label,
+      related: counts,
+      deleted_at: entry.deleted_at,
+      restorable_until: entry.restorable_until,
+    };
+  });
+}
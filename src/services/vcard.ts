@@ -0,0 +1,260 @@
+/**
+ * vCard Service
+ *
+ * vCard 4.0 (RFC 6350) formatting and parsing helpers used by contact exports and imports.
+ * No database access, so these can be safely imported in tests.
+ */
+
+export interface VCardContact {
+  id: string | number;
+  first_name?: string | null;
+  last_name?: string | null;
+  title?: string | null;
+  company_name?: string | null;
+  email_jsonb?: { email?: string; type?: string }[] | null;
+  phone_jsonb?: { number?: string; type?: string }[] | null;
+  linkedin_url?: string | null;
+  background?: string | null;
+}
+
+/**
+ * A contact read from a vCard, before mapping to CRM fields
+ */
+export interface ParsedVCard {
+  uid?: string;
+  full_name?: string;
+  first_name?: string;
+  last_name?: string;
+  organization?: string;
+  title?: string;
+  emails: { value: string; types: string[] }[];
+  phones: { value: string; types: string[] }[];
+  urls: string[];
+  note?: string;
+}
+
+/**
+ * Maximum line length in octets before folding (RFC 6350 section 3.2)
+ */
+const MAX_LINE_OCTETS = 75;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Escape a property value: backslash, comma, semicolon and newlines
+ */
+export function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per line, without splitting a character
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, "utf8");
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Map an Atomic CRM email/phone type ("Work", "Home", "Other") to a vCard TYPE parameter
+ */
+function typeParam(type: string | undefined): string {
+  const normalized = (type || "").toLowerCase();
+  return normalized === "work" || normalized === "home" ? `;TYPE=${normalized}` : "";
+}
+
+/**
+ * Format a contact as a vCard 4.0 card, with CRLF line endings
+ */
+export function formatVCard(contact: VCardContact): string {
+  const firstName = contact.first_name || "";
+  const lastName = contact.last_name || "";
+  const fullName = `${firstName} ${lastName}`.trim() || "Unnamed contact";
+  const uid = UUID_PATTERN.test(String(contact.id))
+    ? `urn:uuid:${contact.id}`
+    : `atomic-crm:contact:${contact.id}`;
+
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `UID:${uid}`,
+    `FN:${escapeVCardText(fullName)}`,
+    `N:${escapeVCardText(lastName)};${escapeVCardText(firstName)};;;`,
+  ];
+
+  if (contact.company_name) lines.push(`ORG:${escapeVCardText(contact.company_name)}`);
+  if (contact.title) lines.push(`TITLE:${escapeVCardText(contact.title)}`);
+
+  for (const entry of contact.email_jsonb || []) {
+    if (entry?.email) lines.push(`EMAIL${typeParam(entry.type)}:${escapeVCardText(entry.email)}`);
+  }
+  for (const entry of contact.phone_jsonb || []) {
+    if (entry?.number) lines.push(`TEL${typeParam(entry.type)}:${escapeVCardText(entry.number)}`);
+  }
+
+  if (contact.linkedin_url) lines.push(`URL:${contact.linkedin_url}`);
+  if (contact.background) lines.push(`NOTE:${escapeVCardText(contact.background)}`);
+
+  lines.push("END:VCARD");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Reverse escapeVCardText: an escaped "n" becomes a newline, other escaped characters are kept as is
+ */
+export function unescapeVCardText(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/**
+ * Split a value on a separator that is not escaped, without unescaping the parts
+ */
+function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Parse a content line into its property name, TYPE values and raw value
+ * Handles group prefixes ("item1.EMAIL"), quoted parameter values, TYPE lists
+ * ("TYPE=work,voice") and vCard 2.1 bare types ("TEL;WORK;VOICE")
+ */
+function parseContentLine(line: string): { name: string; types: string[]; value: string } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [property, ...parameters] = line.slice(0, colon).split(";");
+  const types: string[] = [];
+
+  for (const parameter of parameters) {
+    const [key, rawValue] = parameter.includes("=") ? parameter.split("=", 2) : ["TYPE", parameter];
+    if (key.toUpperCase() === "TYPE") {
+      types.push(...rawValue.replace(/"/g, "").split(",").map((type) => type.trim().toLowerCase()).filter(Boolean));
+    } else if (key.toUpperCase() === "PREF") {
+      types.push("pref");
+    }
+  }
+
+  return {
+    name: property.split(".").pop()!.toUpperCase(),
+    types,
+    value: line.slice(colon + 1),
+  };
+}
+
+/**
+ * Parse the cards of a .vcf file (vCard 2.1, 3.0 and 4.0)
+ * Folded lines are unfolded and values unescaped. Properties without a CRM
+ * counterpart (photos, addresses, birthdays, ...) are ignored.
+ */
+export function parseVCards(text: string): ParsedVCard[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const lines = input.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const cards: ParsedVCard[] = [];
+  let card: ParsedVCard | null = null;
+
+  for (const line of lines) {
+    const parsed = line.trim() ? parseContentLine(line) : null;
+    if (!parsed) continue;
+
+    const { name, types, value } = parsed;
+    if (name === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      card = { emails: [], phones: [], urls: [] };
+      continue;
+    }
+    if (!card) continue;
+
+    switch (name) {
+      case "END":
+        if (value.trim().toUpperCase() === "VCARD") {
+          cards.push(card);
+          card = null;
+        }
+        break;
+      case "UID":
+        card.uid = value.trim();
+        break;
+      case "FN":
+        card.full_name = unescapeVCardText(value).trim() || undefined;
+        break;
+      case "N": {
+        const [lastName = "", firstName = ""] = splitUnescaped(value, ";").map((part) => unescapeVCardText(part).trim());
+        card.last_name = lastName || undefined;
+        card.first_name = firstName || undefined;
+        break;
+      }
+      case "ORG":
+        // Only the organization name, not the units that follow it
+        card.organization = unescapeVCardText(splitUnescaped(value, ";")[0]).trim() || undefined;
+        break;
+      case "TITLE":
+        card.title = unescapeVCardText(value).trim() || undefined;
+        break;
+      case "EMAIL": {
+        const email = unescapeVCardText(value).replace(/^mailto:/i, "").trim();
+        if (email) card.emails.push({ value: email, types });
+        break;
+      }
+      case "TEL": {
+        const phone = unescapeVCardText(value).replace(/^tel:/i, "").trim();
+        if (phone) card.phones.push({ value: phone, types });
+        break;
+      }
+      case "URL": {
+        const url = unescapeVCardText(value).trim();
+        if (url) card.urls.push(url);
+        break;
+      }
+      case "NOTE":
+        card.note = unescapeVCardText(value).trim() || undefined;
+        break;
+    }
+  }
+
+  return cards;
+}
@@ -0,0 +1,9 @@
+-- Contact Fuzzy Search Migration
+-- Enables typo-tolerant and phonetic matching used by search_contacts in fuzzy mode
+
+-- Trigram similarity (similarity(), % operator)
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Phonetic matching (dmetaphone())
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+
@@ -0,0 +1,74 @@
+-- Deleted Records Table Migration
+-- Keeps deleted contacts, companies, deals and tasks restorable during a retention window
+
+-- Create deleted_records table
+CREATE TABLE IF NOT EXISTS deleted_records (
+  id BIGSERIAL PRIMARY KEY,
+  resource TEXT NOT NULL CHECK (resource IN ('contacts', 'companies', 'deals', 'tasks')),
+  record_id TEXT NOT NULL,
+  label TEXT,
+  record JSONB NOT NULL,
+  related JSONB NOT NULL DEFAULT '{}'::jsonb,
+  sales_id BIGINT NOT NULL,
+  deleted_by TEXT,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for listing and purging
+CREATE INDEX IF NOT EXISTS idx_deleted_records_sales_id_deleted_at ON deleted_records(sales_id, deleted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deleted_records_resource_record_id ON deleted_records(resource, record_id);
+CREATE INDEX IF NOT EXISTS idx_deleted_records_deleted_at ON deleted_records(deleted_at);
+
+-- Enable Row Level Security
+ALTER TABLE deleted_records ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies (reps only see and restore what they deleted from their own records)
+CREATE POLICY deleted_records_select_policy ON deleted_records
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sales s
+    WHERE s.id = deleted_records.sales_id
+    AND s.user_id = auth.uid()
+  ));
+
+CREATE POLICY deleted_records_insert_policy ON deleted_records
+  FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM sales s
+    WHERE s.id = deleted_records.sales_id
+    AND s.user_id = auth.uid()
+  ));
+
+CREATE POLICY deleted_records_delete_policy ON deleted_records
+  FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM sales s
+    WHERE s.id = deleted_records.sales_id
+    AND s.user_id = auth.uid()
+  ));
+
+-- Purge entries older than the retention window
+-- The server purges lazily; schedule this (e.g. with pg_cron) to purge on a fixed cadence
+CREATE OR REPLACE FUNCTION purge_deleted_records(retention_days INT DEFAULT 30)
+RETURNS INT AS $$
+DECLARE
+  purged INT;
+BEGIN
+  DELETE FROM deleted_records
+  WHERE deleted_at < NOW() - make_interval(days => retention_days);
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Purging spans every rep's trash, so only the database owner (or a scheduled job) may run it
+REVOKE EXECUTE ON FUNCTION purge_deleted_records(INT) FROM PUBLIC, anon, authenticated;
+
+-- Grant permissions
+GRANT SELECT, INSERT, DELETE ON deleted_records TO authenticated;
+GRANT USAGE, SELECT ON SEQUENCE deleted_records_id_seq TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE deleted_records IS 'Trash for deleted CRM records, restorable until purged';
+COMMENT ON COLUMN deleted_records.record IS 'Full row of the deleted record';
+COMMENT ON COLUMN deleted_records.related IS 'Rows deleted along with the record, by table (notes, deal contacts, tasks, journey legs)';
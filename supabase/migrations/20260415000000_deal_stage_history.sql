@@ -0,0 +1,68 @@
+-- Deal Stage History Migration
+-- Records every stage a deal enters, for deal timelines and pipeline velocity reports
+
+-- Create deal_stage_history table
+-- No foreign key on deal_id: history is an append-only log and outlives deleted deals
+CREATE TABLE IF NOT EXISTS deal_stage_history (
+  id BIGSERIAL PRIMARY KEY,
+  deal_id BIGINT NOT NULL,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_id_changed_at ON deal_stage_history(deal_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_changed_at ON deal_stage_history(changed_at);
+
+-- Record a transition whenever a deal is created with a stage or its stage changes
+-- Written by a trigger so every writer (create_deal, update_deal, bulk updates, the
+-- Atomic CRM UI) is covered
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.stage IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage) THEN
+    INSERT INTO deal_stage_history (deal_id, from_stage, to_stage, changed_by, changed_at)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage END,
+      NEW.stage,
+      auth.uid(),
+      NOW()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trg_deals_stage_history ON deals;
+CREATE TRIGGER trg_deals_stage_history
+  AFTER INSERT OR UPDATE OF stage ON deals
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deal_stage_change();
+
+-- Backfill: existing deals entered their current stage when created, as far as we know
+INSERT INTO deal_stage_history (deal_id, from_stage, to_stage, changed_at)
+SELECT d.id, NULL, d.stage, d.created_at
+FROM deals d
+WHERE d.stage IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM deal_stage_history h WHERE h.deal_id = d.id);
+
+-- Enable Row Level Security
+ALTER TABLE deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- History is visible wherever the deal is (rows are only written by the trigger)
+CREATE POLICY deal_stage_history_select_policy ON deal_stage_history
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM deals d
+    WHERE d.id = deal_stage_history.deal_id
+  ));
+
+-- Grant permissions
+GRANT SELECT ON deal_stage_history TO authenticated;
+
+-- Add comment for documentation
+COMMENT ON TABLE deal_stage_history IS 'Stage transitions of deals, written by trg_deals_stage_history';
+COMMENT ON COLUMN deal_stage_history.from_stage IS 'Previous stage, NULL when the deal was created (or restored) in to_stage';
@@ -0,0 +1,27 @@
+-- Deal Stage History: skip restored deals
+-- Restoring a deal from the trash reinserts it with its original stage. That is not a
+-- stage change, so the trash service sets app.restoring_from_trash for the restore
+-- transaction and the trigger records nothing while it is on
+
+CREATE OR REPLACE FUNCTION record_deal_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.restoring_from_trash', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage) THEN
+    INSERT INTO deal_stage_history (deal_id, from_stage, to_stage, changed_by, changed_at)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage END,
+      NEW.stage,
+      auth.uid(),
+      NOW()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN deal_stage_history.from_stage IS 'Previous stage, NULL when the deal was created in to_stage';